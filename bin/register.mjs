@@ -0,0 +1,6 @@
+// bin/register.mjs
+// Preload for running src/ TypeScript directly: `node --import ./bin/register.mjs …`.
+
+import { register } from "node:module";
+
+register("./ts-loader.mjs", import.meta.url);
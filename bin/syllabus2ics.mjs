@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// bin/syllabus2ics.mjs
+// Entry point for the syllabus2ics command; the CLI itself is src/cli/syllabus2ics.ts.
+
+import "./register.mjs";
+
+const { main } = await import("../src/cli/syllabus2ics.ts");
+process.exitCode = await main(process.argv.slice(2));
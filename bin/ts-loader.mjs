@@ -0,0 +1,49 @@
+// bin/ts-loader.mjs
+// Node module hooks that let the CLI run straight from src/: "@/x" resolves to src/x and
+// TypeScript is compiled on import with the project's own compiler.
+
+import { readFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+
+const SRC = new URL("../src/", import.meta.url);
+const EXTENSIONS = [".ts", ".tsx", "/index.ts"];
+
+export async function resolve(specifier, context, next) {
+  const fromSrc = specifier.startsWith("@/");
+  const relative = /^\.\.?\//.test(specifier) && context.parentURL?.startsWith(SRC.href);
+  if (fromSrc || relative) {
+    const base = fromSrc ? new URL(specifier.slice(2), SRC) : new URL(specifier, context.parentURL);
+    // Imports inside src/ leave off the extension, as the bundler allows
+    for (const ext of ["", ...EXTENSIONS]) {
+      const url = new URL(base.href + ext);
+      if (/\.tsx?$/.test(url.pathname) && existsSync(fileURLToPath(url))) {
+        return { url: url.href, shortCircuit: true };
+      }
+    }
+  }
+  try {
+    return await next(specifier, context);
+  } catch (err) {
+    // "next/server": package subpaths without an exports map, which the bundler completes
+    const bare = !/^(\.|\/|[a-z]+:)/.test(specifier) && specifier.includes("/");
+    if (err?.code !== "ERR_MODULE_NOT_FOUND" || !bare) throw err;
+    return next(`${specifier}.js`, context);
+  }
+}
+
+export async function load(url, context, next) {
+  if (!/\.tsx?$/.test(url)) return next(url, context);
+  const source = await readFile(fileURLToPath(url), "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    fileName: fileURLToPath(url),
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+      sourceMap: false,
+    },
+  });
+  return { format: "module", source: outputText, shortCircuit: true };
+}
@@ -0,0 +1,86 @@
+// app/api/analyze/route.ts
+// Workload report for parsed events: conflicts, exam clashes, deadlines per week.
+
+import { NextResponse } from "next/server";
+import { analyzeWorkload, type AnalysisEvent, type Holiday } from "@/lib/analysis";
+import { isCategory } from "@/lib/categories";
+import { WEEKDAYS, type Weekday } from "@/lib/recurrence";
+import { isValidTimeZone } from "@/lib/tz";
+
+/**
+ * Body: `{ events, timeZone?, holidays? }` where events are ParsedEvents with ISO dates
+ * (the `events` of an /api/parse response) and holidays = [{ name, start, end }] with
+ * "YYYY-MM-DD" dates.
+ * Event indexes in the report refer to positions in `events`.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || !Array.isArray(body.events)) {
+      return NextResponse.json({ error: "Expected { events: [...] }" }, { status: 400 });
+    }
+    const timeZone = body.timeZone || undefined;
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json({ error: `Unknown time zone: ${timeZone}` }, { status: 400 });
+    }
+
+    const events = readEvents(body.events);
+    if (!events) {
+      return NextResponse.json(
+        { error: "Every event needs a title and a valid start" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      analyzeWorkload(events, { timeZone, holidays: readHolidays(body.holidays) })
+    );
+  } catch (err) {
+    console.error("analyze route error", err);
+    return NextResponse.json({ error: "Failed to analyze events" }, { status: 500 });
+  }
+}
+
+/* ---------- helpers ---------- */
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function readEvents(raw: unknown[]): AnalysisEvent[] | null {
+  const out: AnalysisEvent[] = [];
+  for (const item of raw) {
+    const e = (item ?? {}) as Record<string, unknown>;
+    const start = new Date(e.start as string);
+    if (typeof e.title !== "string" || Number.isNaN(start.getTime())) return null;
+    const end = e.end ? new Date(e.end as string) : undefined;
+    const rec = e.recurrence as { byDay?: Weekday[]; until?: string } | undefined;
+    out.push({
+      title: e.title,
+      start,
+      end: end && !Number.isNaN(end.getTime()) ? end : undefined,
+      allDay: !!e.allDay,
+      recurrence:
+        rec && Array.isArray(rec.byDay) && rec.until
+          ? {
+              freq: "WEEKLY",
+              byDay: rec.byDay.filter((d) => WEEKDAYS.includes(d)),
+              until: new Date(rec.until),
+            }
+          : undefined,
+      exdates: Array.isArray(e.exdates) ? e.exdates.map((d) => new Date(d as string)) : undefined,
+      category: isCategory(e.category) ? e.category : undefined,
+      course: typeof e.course === "string" ? e.course : undefined,
+    });
+  }
+  return out;
+}
+
+function readHolidays(raw: unknown): Holiday[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((h) => h && typeof h.start === "string" && DAY_RE.test(h.start))
+    .map((h) => ({
+      name: typeof h.name === "string" && h.name.trim() ? h.name.trim() : "Holiday",
+      start: h.start,
+      end: typeof h.end === "string" && DAY_RE.test(h.end) ? h.end : h.start,
+    }));
+}
@@ -0,0 +1,51 @@
+// app/api/caldav/calendars/route.ts
+// Lists the event calendars on a CalDAV server, optionally creating a new one first.
+
+import { NextResponse } from "next/server";
+import {
+  createCalendar,
+  discoverCalendars,
+  isCalDavError,
+  readServer,
+} from "@/lib/caldav";
+
+/**
+ * Body: `{ server: { url, username, password }, create?: "Calendar name" }`. Responds with
+ * `{ home, calendars: [{ url, name, color? }], created? }`, where `created` is the URL of
+ * the calendar made for `create`.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const server = readServer(body?.server);
+    if (isCalDavError(server)) {
+      return NextResponse.json({ error: server.error }, { status: server.status });
+    }
+
+    const found = await discoverCalendars(server);
+    if (isCalDavError(found)) {
+      return NextResponse.json({ error: found.error }, { status: found.status });
+    }
+
+    const name = typeof body?.create === "string" ? body.create.trim() : "";
+    if (!name) return NextResponse.json(found);
+    if (!found.home) {
+      return NextResponse.json(
+        { error: "This server doesn't say where new calendars go; create it in the app" },
+        { status: 400 }
+      );
+    }
+    const created = await createCalendar(server, found.home, name);
+    if (isCalDavError(created)) {
+      return NextResponse.json({ error: created.error }, { status: created.status });
+    }
+    return NextResponse.json({
+      home: found.home,
+      calendars: [...found.calendars, created],
+      created: created.url,
+    });
+  } catch (err) {
+    console.error("caldav calendars error", err);
+    return NextResponse.json({ error: "Could not reach the CalDAV server" }, { status: 502 });
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/caldav/push/route.ts
+// Syncs events into a CalDAV calendar: creates, updates and deletes one resource per UID.
+
+import { NextResponse } from "next/server";
+import { isExportError, readExportRequest } from "@/lib/export";
+import { isCalDavError, pushEvents, readHistory, readServer } from "@/lib/caldav";
+
+/**
+ * Same body as /api/ics, plus `server: { url, username, password }`, `calendarUrl` and
+ * the `history` returned by the previous push to that calendar. Responds with counts of
+ * created, updated, unchanged and deleted events, any that failed, and the new history.
+ */
+export async function POST(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const raw = await req.json().catch(() => null);
+
+    const server = readServer(raw?.server);
+    if (isCalDavError(server)) {
+      return NextResponse.json({ error: server.error }, { status: server.status });
+    }
+    const calendarUrl = typeof raw?.calendarUrl === "string" ? raw.calendarUrl : "";
+    if (!/^https?:\/\//i.test(calendarUrl)) {
+      return NextResponse.json({ error: "Choose a calendar to push to" }, { status: 400 });
+    }
+
+    const request = readExportRequest(raw, url.searchParams);
+    if (isExportError(request)) {
+      const { error, problems } = request;
+      return NextResponse.json({ error, problems }, { status: request.status });
+    }
+    if (request.method === "CANCEL") {
+      return NextResponse.json(
+        { error: "Pushes sync deletions themselves; leave out method=CANCEL" },
+        { status: 400 }
+      );
+    }
+
+    const result = await pushEvents(server, calendarUrl, request, readHistory(raw?.history));
+    if (isCalDavError(result)) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("caldav push error", err);
+    return NextResponse.json({ error: "Could not reach the CalDAV server" }, { status: 502 });
+  }
+}
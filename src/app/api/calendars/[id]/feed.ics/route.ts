@@ -0,0 +1,36 @@
+// app/api/calendars/[id]/feed.ics/route.ts
+// The subscription URL: always the calendar's latest events as iCalendar.
+
+import { NextResponse } from "next/server";
+import { makeICS } from "@/lib/ics";
+import { contentDisposition } from "@/lib/export";
+import { getCalendar } from "@/lib/store";
+
+// Hint for calendar apps; most poll on their own schedule anyway
+const REFRESH_INTERVAL = "PT6H";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const cal = await getCalendar(id);
+    if (!cal) return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+
+    const ics = makeICS(cal.events, cal.name, {
+      timeZone: cal.timeZone,
+      refreshInterval: REFRESH_INTERVAL,
+    });
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": contentDisposition("inline", cal.name, "ics"),
+        "Cache-Control": "no-cache",
+        "Last-Modified": new Date(cal.updatedAt).toUTCString(),
+      },
+    });
+  } catch (err) {
+    console.error("calendar feed error", err);
+    return NextResponse.json({ error: "Failed to read calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/calendars/[id]/route.ts
+// Reads, updates (edit token required) or deletes a published calendar.
+
+import { NextResponse } from "next/server";
+import { isExportError, readExportRequest } from "@/lib/export";
+import {
+  checkToken,
+  deleteCalendar,
+  getCalendar,
+  tokenFrom,
+  updateCalendar,
+} from "@/lib/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Public summary: name, zone, event count and when it last changed */
+export async function GET(_req: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const cal = await getCalendar(id);
+    if (!cal) return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+    return NextResponse.json({
+      id: cal.id,
+      name: cal.name,
+      timeZone: cal.timeZone,
+      events: cal.events.length,
+      updatedAt: cal.updatedAt,
+    });
+  } catch (err) {
+    console.error("calendar read error", err);
+    return NextResponse.json({ error: "Failed to read calendar" }, { status: 500 });
+  }
+}
+
+/** Replace the events (same body as /api/ics); subscribers see it on their next refresh */
+export async function PUT(req: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const cal = await getCalendar(id);
+    if (!cal) return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+    if (!checkToken(cal, tokenFrom(req))) {
+      return NextResponse.json({ error: "Invalid or missing edit token" }, { status: 403 });
+    }
+
+    const url = new URL(req.url);
+    const raw = await req.json().catch(() => null);
+    const request = readExportRequest(raw, url.searchParams);
+    if (isExportError(request)) {
+      const { error, problems } = request;
+      return NextResponse.json({ error, problems }, { status: request.status });
+    }
+
+    const next = await updateCalendar(cal, {
+      name: request.calendarName,
+      timeZone: request.timeZone,
+      events: request.events,
+    });
+    return NextResponse.json({ id: next.id, events: next.events.length, updatedAt: next.updatedAt });
+  } catch (err) {
+    console.error("calendar update error", err);
+    return NextResponse.json({ error: "Failed to update calendar" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Context) {
+  const { id } = await params;
+  const cal = await getCalendar(id);
+  if (!cal) return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  if (!checkToken(cal, tokenFrom(req))) {
+    return NextResponse.json({ error: "Invalid or missing edit token" }, { status: 403 });
+  }
+  await deleteCalendar(id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,41 @@
+// app/api/calendars/route.ts
+// Publishes events as a subscribable calendar feed and returns its edit token.
+
+import { NextResponse } from "next/server";
+import { isExportError, readExportRequest } from "@/lib/export";
+import { createCalendar } from "@/lib/store";
+
+/**
+ * Same body as /api/ics. Responds 201 with `{ id, token, feedUrl }`; the token is needed
+ * to update or delete the calendar and is not stored in readable form.
+ */
+export async function POST(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const raw = await req.json().catch(() => null);
+
+    const request = readExportRequest(raw, url.searchParams);
+    if (isExportError(request)) {
+      const { error, problems } = request;
+      return NextResponse.json({ error, problems }, { status: request.status });
+    }
+
+    const { calendar, token } = await createCalendar({
+      name: request.calendarName,
+      timeZone: request.timeZone,
+      events: request.events,
+    });
+
+    return NextResponse.json(
+      {
+        id: calendar.id,
+        token,
+        feedUrl: new URL(`/api/calendars/${calendar.id}/feed.ics`, url).toString(),
+      },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error("calendars route error", err);
+    return NextResponse.json({ error: "Failed to publish calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/export/route.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { POST } from "@/app/api/export/route";
+
+function exportRequest(calendar: string, format = "ics") {
+  const query = new URLSearchParams({ calendar, format });
+  return new Request(`http://localhost/api/export?${query}`, {
+    method: "POST",
+    body: JSON.stringify({
+      events: [{ title: "Quiz 1", start: "2026-10-06T00:00:00Z", allDay: true, sourceLine: "" }],
+    }),
+  });
+}
+
+test("non-ASCII calendar names download under an ASCII and a UTF-8 file name", async () => {
+  const res = await POST(exportRequest("CHEM 201 – Übungen"));
+  assert.equal(res.status, 200);
+  assert.equal(
+    res.headers.get("Content-Disposition"),
+    `attachment; filename="CHEM 201 - Ubungen.ics"; ` +
+      `filename*=UTF-8''CHEM%20201%20%E2%80%93%20%C3%9Cbungen.ics`
+  );
+  assert.match(await res.text(), /SUMMARY:Quiz 1/);
+});
+
+test("file names keep quotes and slashes out of the header", async () => {
+  const res = await POST(exportRequest(`Bob's "final"/draft (v2)`, "csv"));
+  assert.equal(
+    res.headers.get("Content-Disposition"),
+    `attachment; filename="Bob's _final_draft (v2).csv"; ` +
+      `filename*=UTF-8''Bob%27s%20_final_draft%20%28v2%29.csv`
+  );
+});
@@ -0,0 +1,69 @@
+// app/api/export/route.ts
+// Exports events as .ics, Google/Outlook CSV, JSON or a week-by-week agenda (?format=).
+
+import { NextResponse } from "next/server";
+import { makeICS } from "@/lib/ics";
+import { contentDisposition, isExportError, readExportRequest } from "@/lib/export";
+import {
+  EXPORT_FORMATS,
+  isExportFormat,
+  toAgendaHTML,
+  toCSV,
+  toJSON,
+  toMarkdown,
+} from "@/lib/formats";
+
+/** Same body and query options as /api/ics, plus `format` (query or body) */
+export async function POST(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const raw = await req.json().catch(() => null);
+
+    const format = url.searchParams.get("format") ?? raw?.format ?? "ics";
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+    }
+
+    const request = readExportRequest(raw, url.searchParams);
+    if (isExportError(request)) {
+      const { error, problems } = request;
+      return NextResponse.json({ error, problems }, { status: request.status });
+    }
+    const { calendarName, timeZone, method, events } = request;
+
+    let content: string;
+    switch (format) {
+      case "ics":
+        content = makeICS(events, calendarName, { timeZone, method });
+        break;
+      case "csv":
+        content = toCSV(events, "google", timeZone);
+        break;
+      case "outlook-csv":
+        content = toCSV(events, "outlook", timeZone);
+        break;
+      case "json":
+        content = toJSON(events, calendarName, timeZone);
+        break;
+      case "md":
+        content = toMarkdown(events, calendarName, timeZone);
+        break;
+      case "html":
+        content = toAgendaHTML(events, calendarName, timeZone);
+        break;
+    }
+
+    const { ext, type } = EXPORT_FORMATS.find((f) => f.format === format)!;
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        "Content-Type": `${type}; charset=utf-8`,
+        "Content-Disposition": contentDisposition("attachment", calendarName, ext),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("export route error", err);
+    return NextResponse.json({ error: "Failed to build export" }, { status: 500 });
+  }
+}
@@ -1,48 +1,28 @@
 // app/api/ics/route.ts
 import { NextResponse } from "next/server";
-import { makeICS, type EventLike } from "@/lib/ics";
-
-type IncomingEvent = {
-  title: string;
-  start: string | Date;
-  end?: string | Date;
-  allDay?: boolean;
-  sourceLine?: string;
-};
+import { makeICS } from "@/lib/ics";
+import { contentDisposition, isExportError, readExportRequest } from "@/lib/export";
 
 export async function POST(req: Request) {
   try {
     // calendar can come from query (?calendar=...) or body.calendarName
     const url = new URL(req.url);
-    const calendarFromQuery = url.searchParams.get("calendar") || undefined;
-
     const raw = await req.json().catch(() => null);
 
-    // Accept both:
-    // 1) body = [ ...events ]
-    // 2) body = { events: [ ... ], calendarName?: string }
-    const bodyArray = Array.isArray(raw) ? raw : Array.isArray(raw?.events) ? raw.events : [];
-    const calendarName = calendarFromQuery ?? (raw?.calendarName || "Syllabus");
-
-    if (!Array.isArray(bodyArray) || bodyArray.length === 0) {
-      return NextResponse.json({ error: "No events provided" }, { status: 400 });
+    const request = readExportRequest(raw, url.searchParams);
+    if (isExportError(request)) {
+      const { error, problems } = request;
+      return NextResponse.json({ error, problems }, { status: request.status });
     }
+    const { calendarName, timeZone, method, events } = request;
 
-    const normalized: EventLike[] = bodyArray.map((e: IncomingEvent) => ({
-      title: e.title ?? "Untitled",
-      start: new Date(e.start),
-      end: e.end ? new Date(e.end) : undefined,
-      allDay: !!e.allDay,
-      description: e.sourceLine ? `From syllabus: ${e.sourceLine}` : undefined,
-    }));
-
-    const ics = makeICS(normalized, calendarName);
+    const ics = makeICS(events, calendarName, { timeZone, method });
 
     return new NextResponse(ics, {
       status: 200,
       headers: {
         "Content-Type": "text/calendar; charset=utf-8",
-        "Content-Disposition": `attachment; filename="${sanitize(calendarName)}.ics"`,
+        "Content-Disposition": contentDisposition("attachment", calendarName, "ics"),
         "Cache-Control": "no-store",
       },
     });
@@ -51,7 +31,3 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Failed to build ICS" }, { status: 500 });
   }
 }
-
-function sanitize(name: string) {
-  return String(name).replace(/[\\/:*?"<>|]+/g, "_").trim() || "calendar";
-}
@@ -0,0 +1,49 @@
+// app/api/ics/validate/route.ts
+// Lints iCalendar text against RFC 5545 and lists every problem found.
+
+import { NextResponse } from "next/server";
+import { validateICS } from "@/lib/validate";
+
+// Larger than any syllabus calendar; keeps one request from tying up the server
+const MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Body: the .ics text itself, or JSON `{ ics: "..." }`. Responds with `{ valid, errors,
+ * warnings, problems: [{ line, severity, code, message }] }`; `valid` ignores warnings.
+ */
+export async function POST(req: Request) {
+  try {
+    const isJSON = (req.headers.get("content-type") ?? "").includes("application/json");
+    const raw = await req.text();
+    if (raw.length > MAX_BYTES) {
+      return NextResponse.json({ error: "Calendar is larger than 5 MB" }, { status: 413 });
+    }
+
+    let text = raw;
+    if (isJSON) {
+      const body = JSON.parse(raw || "null");
+      if (typeof body?.ics !== "string") {
+        return NextResponse.json({ error: 'Expected JSON { "ics": "..." }' }, { status: 400 });
+      }
+      text = body.ics;
+    }
+    if (!text.trim()) {
+      return NextResponse.json({ error: "No calendar text provided" }, { status: 400 });
+    }
+
+    const problems = validateICS(text);
+    const errors = problems.filter((p) => p.severity === "error").length;
+    return NextResponse.json({
+      valid: errors === 0,
+      errors,
+      warnings: problems.length - errors,
+      problems,
+    });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ error: "Body is not valid JSON" }, { status: 400 });
+    }
+    console.error("ics validate error", err);
+    return NextResponse.json({ error: "Failed to validate calendar" }, { status: 500 });
+  }
+}
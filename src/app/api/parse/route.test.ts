@@ -0,0 +1,30 @@
+// app/api/parse/route.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { POST } from "@/app/api/parse/route";
+
+function parseRequest(body: object) {
+  return new Request("http://localhost/api/parse", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+test("a title template that isn't a string is a 400", async () => {
+  for (const titleTemplate of [42, { title: "{title}" }, ["{title}"]]) {
+    const res = await POST(parseRequest({ text: "Quiz 1 Oct 6", titleTemplate }));
+    assert.equal(res.status, 400);
+    assert.deepEqual(await res.json(), { error: "The title template must be a string" });
+  }
+});
+
+test("a string title template is used", async () => {
+  const titleTemplate = "{title} [{course}]";
+  const text = "CS 101\nQuiz 1 Oct 6";
+  const res = await POST(parseRequest({ text, term: "Fall 2026", titleTemplate }));
+  assert.equal(res.status, 200);
+  const { events } = await res.json();
+  assert.equal(events[0].title, "Quiz 1 [CS 101]");
+});
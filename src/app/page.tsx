@@ -1,46 +1,366 @@
 // src/app/page.tsx
 "use client";
 
-import { useState } from "react";
-import type { ParsedEvent } from "@/types";
+import { useEffect, useMemo, useState } from "react";
+import type { ParsedEvent, RejectedLine } from "@/types";
+import FileDropzone from "@/components/FileDropzone";
+import FeedPanel from "@/components/FeedPanel";
+import CalDavPanel from "@/components/CalDavPanel";
+import WorkloadPanel from "@/components/WorkloadPanel";
+import SkippedLines from "@/components/SkippedLines";
+import ProfilePanel, { loadProfiles } from "@/components/ProfilePanel";
+import BulkActions from "@/components/BulkActions";
+import CalendarView, { type CalendarMode } from "@/components/CalendarView";
+import DraftsPanel, {
+  loadDrafts,
+  loadWorkspace,
+  saveDrafts,
+  saveWorkspace,
+  type Draft,
+  type Workspace,
+} from "@/components/DraftsPanel";
+import TermEditor, { type TermSettings } from "@/components/TermEditor";
+import CourseTabs, { courseLabel, newCourse, type Course } from "@/components/CourseTabs";
+import CategoryPanel, {
+  CATEGORY_KEYS,
+  categoryKey,
+  type CategoryKey,
+} from "@/components/CategoryPanel";
+import { fromZoned, localTimeZone, toZoned } from "@/lib/tz";
+import { parseICS } from "@/lib/ics";
+import { mergeEvents } from "@/lib/merge";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/formats";
+import { courseCalendarName } from "@/lib/courses";
+import type { CourseHeader } from "@/lib/context";
+import { termNames } from "@/lib/term";
+import { LOCALE_IDS, LOCALES, isDateOrderChoice, isLocaleId } from "@/lib/locales";
+import type { ParserProfile } from "@/lib/profiles";
+import { compareEvents, duplicate, setTime, shiftDays, type Sort, type SortKey } from "@/lib/edits";
+import { emptyHistory, record, redo, undo, type History } from "@/lib/history";
+import {
+  decodeShare,
+  isShareError,
+  isShareFragment,
+  reviveEvent,
+  type SerializedEvent,
+} from "@/lib/share";
+import {
+  assignUids,
+  cancellations,
+  reviseForExport,
+  type ExportHistory,
+} from "@/lib/identity";
+import {
+  DEFAULT_REMINDERS,
+  REMINDER_KINDS,
+  formatReminderList,
+  parseReminderList,
+  reminderKind,
+  type ReminderRules,
+} from "@/lib/reminders";
+import {
+  CATEGORIES,
+  CATEGORY_COLORS,
+  CATEGORY_LABELS,
+  isCategory,
+  type Category,
+} from "@/lib/categories";
 
-type Incoming = Omit<ParsedEvent, "start" | "end"> & {
-  start: string | Date;
-  end?: string | Date;
-};
+type Outgoing = ParsedEvent & { sequence?: number; lastModified?: Date };
+
+// One undo step: a course's events before an edit
+type EventsStep = { courseId: string; events: ParsedEvent[] };
+
+// Free-text event fields edited in the Details column
+const DETAIL_FIELDS = [
+  { key: "location", label: "Room or building" },
+  { key: "url", label: "Link" },
+  { key: "instructor", label: "Instructor" },
+] as const;
 
 export default function Home() {
-  const [input, setInput] = useState("");
-  const [year, setYear] = useState<number>(new Date().getFullYear());
-  const [events, setEvents] = useState<ParsedEvent[]>([]);
+  const [courses, setCourses] = useState<Course[]>(() => [newCourse(0)]);
+  const [activeId, setActiveId] = useState(courses[0].id);
+  const [timeZone, setTimeZone] = useState("UTC");
   const [calName, setCalName] = useState("Course Syllabus");
-  const [loading, setLoading] = useState<"parse" | "ics" | null>(null);
+  const [loading, setLoading] = useState<"parse" | "export" | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [mergeMode, setMergeMode] = useState(false);
+  const [pendingCancels, setPendingCancels] = useState(0);
+  const [reminderRules, setReminderRules] = useState<ReminderRules>(DEFAULT_REMINDERS);
+  const [categoryColors, setCategoryColors] = useState<Record<Category, string>>(CATEGORY_COLORS);
+  const [hiddenCategories, setHiddenCategories] = useState<Set<CategoryKey>>(new Set());
+  const [exportCategories, setExportCategories] = useState<Set<CategoryKey>>(
+    new Set(CATEGORY_KEYS)
+  );
+  const [splitByCategory, setSplitByCategory] = useState(false);
+  const [splitByCourse, setSplitByCourse] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("ics");
+  const [profiles, setProfiles] = useState<ParserProfile[]>([]);
+  const [history, setHistory] = useState<History<EventsStep>>(emptyHistory);
+  const [selection, setSelection] = useState<Set<number>>(new Set()); // row indexes in `events`
+  const [sort, setSort] = useState<Sort | null>(null);
+  const [view, setView] = useState<"table" | CalendarMode>("table");
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [restored, setRestored] = useState(false); // autosave waits until the saved work is back
 
+  // Parse settings and the table belong to the selected course; exports cover all of them
+  const course = courses.find((c) => c.id === activeId) ?? courses[0];
+  const { input, termName, locale, dateOrder, profile, term, events, fileName, rejected } =
+    course;
+  const allEvents = courses.flatMap((c) =>
+    c.events.map((e) => ({ ...e, course: c.code.trim() || undefined }))
+  );
   const hasEvents = events.length > 0;
+  const ambiguousCount = events.filter((e) => e.altStart).length;
+  const visibleRows = events
+    .map((e, i) => ({ e, i }))
+    .filter(({ e }) => !hiddenCategories.has(categoryKey(e)))
+    .sort((a, b) => (sort ? compareEvents(a.e, b.e, sort) : a.i - b.i));
+  const allVisibleSelected =
+    visibleRows.length > 0 && visibleRows.every(({ i }) => selection.has(i));
+  const exportable = allEvents.filter((e) => exportCategories.has(categoryKey(e)));
+  const timeZones = useMemo(() => Intl.supportedValuesOf("timeZone"), []);
+  const termChoices = useMemo(() => termNames(), []);
+
+  // The browser's zone is only known client-side; pick it up after hydration
+  useEffect(() => setTimeZone(localTimeZone()), []);
+  useEffect(() => setProfiles(loadProfiles()), []);
+
+  // Pick up the autosaved workspace, or the shared calendar when opened from a share link
+  useEffect(() => {
+    const open = (w: Workspace) => {
+      setCourses(w.courses);
+      setActiveId(w.activeId);
+      setCalName(w.calName);
+    };
+    const saved = loadWorkspace();
+    const savedDrafts = loadDrafts();
+    setDrafts(savedDrafts);
+    if (!isShareFragment(location.hash)) {
+      if (saved) open(saved);
+      setRestored(true);
+      return;
+    }
+    const hash = location.hash;
+    // Drop the fragment so a reload shows the (autosaved) workspace, not the link again
+    window.history.replaceState(null, "", location.pathname + location.search);
+    decodeShare(hash).then((shared) => {
+      if (isShareError(shared)) {
+        setError(shared.error);
+        if (saved) open(saved);
+        setRestored(true);
+        return;
+      }
+      // Opening a link never loses work: what was here before becomes a draft
+      if (saved?.courses.some((c) => c.events.length > 0 || c.input.trim())) {
+        const savedAt = new Date();
+        const before = `Before shared link (${savedAt.toLocaleString()})`;
+        const next = [{ name: before, savedAt: savedAt.toISOString(), workspace: saved }];
+        try {
+          saveDrafts([...next, ...savedDrafts]);
+          setDrafts([...next, ...savedDrafts]);
+        } catch {
+          // Storage is full; the shared calendar still opens
+        }
+      }
+      const sharedCourses = shared.courses.map((c, i) => {
+        const base = newCourse(i);
+        return { ...base, ...c, color: c.color || base.color };
+      });
+      const count = sharedCourses.reduce((n, c) => n + c.events.length, 0);
+      open({ calName: shared.calName, activeId: sharedCourses[0]?.id, courses: sharedCourses });
+      setNotice(`Opened a shared calendar with ${count} event${count === 1 ? "" : "s"}.`);
+      setRestored(true);
+    });
+  }, []);
+
+  // Autosave, a moment after the last change
+  useEffect(() => {
+    if (!restored) return;
+    const timer = setTimeout(() => {
+      if (!saveWorkspace({ calName, activeId, courses })) {
+        setError("Could not autosave: browser storage is full or disabled.");
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [restored, calName, activeId, courses]);
+
+  // Row indexes only mean something within one course
+  useEffect(() => setSelection(new Set()), [course.id]);
+
+  // Ctrl/Cmd+Z undoes table edits, Shift+Ctrl/Cmd+Z or Ctrl+Y redoes them; inside a field
+  // the browser's own text undo applies
+  useEffect(() => {
+    function onKey(ev: KeyboardEvent) {
+      const target = ev.target as HTMLElement | null;
+      if (!(ev.ctrlKey || ev.metaKey) || target?.closest("input, textarea, select")) return;
+      const key = ev.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      ev.preventDefault();
+      stepHistory(key === "y" || ev.shiftKey ? "redo" : "undo");
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // Events removed since this calendar's last export can be sent as cancellations
+  useEffect(() => {
+    setPendingCancels(cancellations(loadExportHistory(calName)).length);
+  }, [calName]);
+
+  /** Update one course; callers pass the id they started with so async results land there */
+  function patchCourse(id: string, patch: Partial<Course> | ((c: Course) => Partial<Course>)) {
+    setCourses((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, ...(typeof patch === "function" ? patch(c) : patch) } : c))
+    );
+  }
+
+  /** Change a course's events as one undoable step; repeats of `key` (typing) fold together */
+  function editEvents(
+    id: string,
+    update: (events: ParsedEvent[]) => ParsedEvent[],
+    key?: string
+  ) {
+    const before = courses.find((c) => c.id === id)?.events ?? [];
+    setHistory((h) => record(h, { courseId: id, events: before }, key && `${id}:${key}`));
+    patchCourse(id, (c) => ({ events: update(c.events) }));
+  }
+
+  function stepHistory(direction: "undo" | "redo") {
+    const present = (step: EventsStep) => ({
+      courseId: step.courseId,
+      events: courses.find((c) => c.id === step.courseId)?.events ?? [],
+    });
+    const result = direction === "undo" ? undo(history, present) : redo(history, present);
+    if (!result) return;
+    const { courseId, events: restored } = result.value;
+    setHistory(result.history);
+    patchCourse(courseId, { events: restored });
+    if (courses.some((c) => c.id === courseId)) setActiveId(courseId);
+    setSelection(new Set());
+  }
+
+  function restoreDraft(w: Workspace) {
+    setCourses(w.courses);
+    setActiveId(w.activeId);
+    setCalName(w.calName);
+    // Undo steps and selected rows belong to the workspace being replaced
+    setHistory(emptyHistory());
+    setSelection(new Set());
+    setError(null);
+    setNotice("Draft restored.");
+  }
+
+  function addCourse() {
+    const added = newCourse(courses.length);
+    // New courses start from the current term, language and profile, which are usually shared
+    setCourses((prev) => [...prev, { ...added, termName, locale, dateOrder, profile, term }]);
+    setActiveId(added.id);
+  }
+
+  function removeCourse(id: string) {
+    const rest = courses.filter((c) => c.id !== id);
+    if (rest.length === 0) return;
+    setCourses(rest);
+    if (id === activeId) setActiveId(rest[0].id);
+  }
 
   async function handleParse() {
+    patchCourse(course.id, { fileName: null });
+    await runParse(
+      course.id,
+      fetch("/api/parse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: input, ...parseOptions() }),
+      })
+    );
+  }
+
+  async function handleUpload(file: File) {
+    if (/\.ics$/i.test(file.name) || file.type === "text/calendar") return handleImport(file);
+    patchCourse(course.id, { fileName: file.name });
+    const form = new FormData();
+    form.append("file", file);
+    for (const [k, v] of Object.entries(parseOptions())) {
+      if (v === undefined) continue;
+      form.append(k, typeof v === "object" ? JSON.stringify(v) : String(v));
+    }
+    await runParse(course.id, fetch("/api/parse", { method: "POST", body: form }));
+  }
+
+  async function handleImport(file: File) {
+    const { id } = course;
+    setError(null);
+    setNotice(null);
+    try {
+      const { name, events: imported } = parseICS(await file.text(), timeZone);
+      if (imported.length === 0) throw new Error(`No events found in ${file.name}`);
+      const count = `${imported.length} event${imported.length === 1 ? "" : "s"}`;
+      if (mergeMode && hasEvents) {
+        const { events: merged, added, updated } = mergeEvents(events, imported, timeZone);
+        editEvents(id, () => merged);
+        setNotice(`Merged ${count} from ${file.name}: ${added} added, ${updated} updated.`);
+      } else {
+        editEvents(id, () => imported);
+        patchCourse(id, (c) => ({ rejected: [], name: c.name || name }));
+        setNotice(`Imported ${count} from ${file.name}.`);
+      }
+      setSelection(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read that calendar file.");
+    }
+  }
+
+  function parseOptions() {
+    const breaks = term.breaks
+      .filter((b) => b.start)
+      .map((b) => ({ name: b.name.trim() || "Break", start: b.start, end: b.end || b.start }));
+    return {
+      term: termName,
+      locale,
+      dateOrder,
+      profile: profiles.find((p) => p.name === profile),
+      termStart: term.start || undefined,
+      termEnd: term.end || undefined,
+      meetingDays: term.meetingDays.length ? term.meetingDays : undefined,
+      breaks: breaks.length ? breaks : undefined,
+      timeZone,
+    };
+  }
+
+  async function runParse(id: string, request: Promise<Response>) {
     setError(null);
+    setNotice(null);
     setLoading("parse");
     try {
-      const res = await fetch("/api/parse", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: input,
-          fallbackYear: year,
-          defaultDurationMinutes: 60,
-        }),
-      });
-      if (!res.ok) throw new Error(`Parse failed (${res.status})`);
-      const data: Incoming[] = await res.json();
-      setEvents(
-        data.map((e) => ({
-          ...e,
-          start: new Date(e.start),
-          end: e.end ? new Date(e.end) : undefined,
-        }))
-      );
+      const res = await request;
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || `Parse failed (${res.status})`);
+      }
+      const data: {
+        events: SerializedEvent[];
+        rejected: RejectedLine[];
+        course?: CourseHeader;
+      } = await res.json();
+      const parsed = data.events.map(reviveEvent);
+      if (mergeMode && hasEvents) {
+        const { events: merged, added, updated } = mergeEvents(events, parsed, timeZone);
+        editEvents(id, () => merged);
+        setNotice(`Merged parsed events: ${added} added, ${updated} updated.`);
+      } else {
+        editEvents(id, () => parsed);
+      }
+      // The syllabus header fills in a course the user hasn't named yet
+      patchCourse(id, (c) => ({
+        rejected: data.rejected,
+        code: c.code || data.course?.code || "",
+        name: c.name || data.course?.name,
+      }));
+      setSelection(new Set());
     } catch (err) {
       const msg =
         err instanceof Error ? err.message : "Something went wrong while parsing.";
@@ -50,46 +370,213 @@ export default function Home() {
     }
   }
 
-  async function handleDownloadICS() {
+  async function handleDownload() {
+    // Stable UIDs + the previous export decide SEQUENCE and LAST-MODIFIED
+    const withUids = assignUids(allEvents, calName);
+    const owners = courses.flatMap((c) => c.events.map(() => c));
+    const picked = withUids
+      .map((e, i) => ({ e, owner: owners[i] }))
+      .filter(({ e }) => exportCategories.has(categoryKey(e)));
+    const isICS = exportFormat === "ics";
+    // Only calendar files are tracked; a CSV or agenda doesn't update anything
+    const selected = picked.map(({ e }) => e);
+    const { events: revised, history } = isICS
+      ? reviseForExport(selected, loadExportHistory(calName))
+      : { events: selected as Outgoing[], history: undefined };
+
+    const base = calName || "syllabus";
+    const calendars = splitByCourse && courses.length > 1
+      ? courses.map((c, i) => ({
+          name: courseCalendarName(c, courseLabel(c, i)),
+          list: revised.filter((_, j) => picked[j].owner.id === c.id),
+        }))
+      : [{ name: base, list: revised }];
+    const files = calendars.flatMap((cal) =>
+      splitByCategory
+        ? CATEGORY_KEYS.map((key) => ({
+            name: `${cal.name} - ${key === "none" ? "Other" : CATEGORY_LABELS[key]}`,
+            list: cal.list.filter((e) => categoryKey(e) === key),
+          }))
+        : [cal]
+    ).filter((f) => f.list.length > 0);
+
+    for (const f of files) {
+      if (!(await downloadExport(f.list, exportFormat, "PUBLISH", f.name, f.name))) return;
+    }
+    // Keep the UIDs so the next export updates these events instead of duplicating them
+    const uids = new Map(courses.map((c) => [c.id, withUids.filter((_, j) => owners[j] === c)]));
+    setCourses((prev) =>
+      prev.map((c) => {
+        const assigned = uids.get(c.id);
+        if (!assigned || assigned.length !== c.events.length) return c;
+        return { ...c, events: c.events.map((e, j) => ({ ...e, uid: assigned[j].uid })) };
+      })
+    );
+    if (history) {
+      saveExportHistory(calName, history);
+      setPendingCancels(cancellations(history).length);
+    }
+  }
+
+  async function handleDownloadCancellations() {
+    const history = loadExportHistory(calName);
+    const cancelled = cancellations(history).map((c) => ({
+      ...c,
+      start: new Date(c.start),
+      end: c.end ? new Date(c.end) : undefined,
+      lastModified: new Date(c.lastModified),
+      sourceLine: "",
+    }));
+    const name = `${calName || "syllabus"} (cancellations)`;
+    if (!(await downloadExport(cancelled, "ics", "CANCEL", name, calName))) {
+      return;
+    }
+    saveExportHistory(
+      calName,
+      Object.fromEntries(Object.entries(history).filter(([, r]) => !r.deleted))
+    );
+    setPendingCancels(0);
+  }
+
+  /** Request body shared by /api/export and /api/calendars */
+  function exportBody(list: Outgoing[]) {
+    return {
+      events: list.map((e) => ({
+        ...e,
+        start: e.start.toISOString(),
+        end: e.end ? e.end.toISOString() : undefined,
+        recurrence: e.recurrence
+          ? { ...e.recurrence, until: e.recurrence.until.toISOString() }
+          : undefined,
+        exdates: e.exdates?.map((d) => d.toISOString()),
+        lastModified: e.lastModified?.toISOString(),
+      })),
+      reminders: reminderRules,
+      colors: categoryColors,
+      // With several courses, each course's color marks its events
+      courses:
+        courses.length > 1
+          ? courses.map((c) => ({ code: c.code, name: c.name, color: c.color }))
+          : undefined,
+    };
+  }
+
+  async function downloadExport(
+    list: Outgoing[],
+    format: ExportFormat,
+    method: "PUBLISH" | "CANCEL",
+    filename: string,
+    calendar: string
+  ) {
     setError(null);
-    setLoading("ics");
+    setLoading("export");
     try {
-      const res = await fetch(
-        `/api/ics?calendar=${encodeURIComponent(calName)}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(
-            events.map((e) => ({
-              ...e,
-              start: e.start.toISOString(),
-              end: e.end ? e.end.toISOString() : undefined,
-            }))
-          ),
-        }
-      );
-      if (!res.ok) throw new Error(`ICS generation failed (${res.status})`);
+      const params = new URLSearchParams({ format, calendar, tz: timeZone, method });
+      const res = await fetch(`/api/export?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(exportBody(list)),
+      });
+      if (!res.ok) throw new Error(`Export failed (${res.status})`);
       const blob = await res.blob();
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `${sanitizeFilename(calName || "syllabus")}.ics`;
+      const ext = EXPORT_FORMATS.find((f) => f.format === format)?.ext ?? format;
+      a.download = `${sanitizeFilename(filename)}.${ext}`;
       document.body.appendChild(a);
       a.click();
       a.remove();
       setTimeout(() => URL.revokeObjectURL(url), 1000);
+      return true;
     } catch (err) {
       const msg =
-        err instanceof Error ? err.message : "Could not create .ics file.";
+        err instanceof Error ? err.message : "Could not create the export file.";
       setError(msg);
+      return false;
     } finally {
       setLoading(null);
     }
   }
 
-  function updateEvent(i: number, patch: Partial<ParsedEvent>) {
-    setEvents((prev) =>
-      prev.map((e, idx) => (idx === i ? { ...e, ...patch } : e))
+  function toggle(set: Set<CategoryKey>, key: CategoryKey) {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  }
+
+  function updateEvent(i: number, patch: Partial<ParsedEvent>, key?: string) {
+    // A date fixed by hand no longer needs the parser's notes about it
+    if ("start" in patch) {
+      patch = { ...patch, match: undefined, outsideTerm: undefined, altStart: undefined };
+    }
+    editEvents(
+      course.id,
+      (list) => list.map((e, idx) => (idx === i ? { ...e, ...patch } : e)),
+      key
+    );
+  }
+
+  /** Apply `fn` to the given rows as one step */
+  function editRows(rows: Set<number>, fn: (e: ParsedEvent) => ParsedEvent) {
+    editEvents(course.id, (list) => list.map((e, i) => (rows.has(i) ? fn(e) : e)));
+  }
+
+  function deleteRows(rows: Set<number>) {
+    editEvents(course.id, (list) => list.filter((_, i) => !rows.has(i)));
+    setSelection(new Set());
+  }
+
+  function duplicateRows(rows: Set<number>) {
+    // Copies go right after their originals
+    editEvents(course.id, (list) =>
+      list.flatMap((e, i) => (rows.has(i) ? [e, duplicate(e)] : [e]))
+    );
+    setSelection(new Set());
+  }
+
+  function addEvent() {
+    const today = atZonedMidnight(toZonedDateInput(new Date(), timeZone), timeZone);
+    editEvents(course.id, (list) => [
+      ...list,
+      { title: "New event", start: today, allDay: true, sourceLine: "" },
+    ]);
+  }
+
+  function toggleRow(i: number) {
+    setSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+  }
+
+  /** Ascending, then descending, then back to the parsed order */
+  function sortBy(key: SortKey) {
+    setSort((prev) => {
+      if (prev?.key !== key) return { key, descending: false };
+      return prev.descending ? null : { key, descending: true };
+    });
+  }
+
+  /** Settle "03/04": keep the date as parsed, or take the swapped reading (all when no index) */
+  function confirmDates(swap: boolean, index?: number) {
+    editEvents(course.id, (list) =>
+      list.map((e, idx) => {
+        if (!e.altStart || (index !== undefined && idx !== index)) return e;
+        if (!swap) return { ...e, altStart: undefined };
+        const shift = e.altStart.getTime() - e.start.getTime();
+        return {
+          ...e,
+          start: e.altStart,
+          end: e.end ? new Date(e.end.getTime() + shift) : undefined,
+          altStart: undefined,
+          match: undefined,
+          outsideTerm: undefined,
+        };
+      })
     );
   }
 
@@ -106,31 +593,90 @@ export default function Home() {
         />
       </div>
 
-      <div className="grid grid-cols-[1fr_auto] gap-3 items-end">
+      <DraftsPanel
+        drafts={drafts}
+        workspace={{ calName, activeId: course.id, courses }}
+        onChange={setDrafts}
+        onRestore={restoreDraft}
+      />
+
+      <CourseTabs
+        courses={courses}
+        activeId={course.id}
+        onSelect={setActiveId}
+        onAdd={addCourse}
+        onRemove={removeCourse}
+        onChange={patchCourse}
+      />
+
+      <div className="grid grid-cols-[1fr_12rem_auto] gap-3 items-end">
         <div className="space-y-2">
           <label className="block text-sm font-medium">Paste syllabus text</label>
           <textarea
             className="w-full h-48 border rounded px-3 py-2 bg-transparent"
             placeholder={`e.g.\nSep 19 3–4pm — Quiz 1\n10/02 11:59pm — HW 1 due\nMon Oct 6 1:30-3:00 pm Midterm`}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => patchCourse(course.id, { input: e.target.value })}
           />
         </div>
-        <div className="space-y-2 w-28">
-          <label className="block text-sm font-medium">Year</label>
-          <input
-            type="number"
-            className="w-full border rounded px-3 py-2 bg-transparent"
-            value={year}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">…or upload a file</label>
+          <FileDropzone
+            onFile={handleUpload}
+            disabled={loading === "parse"}
+            fileName={fileName}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={mergeMode}
+              onChange={(e) => setMergeMode(e.target.checked)}
+            />
+            Merge into the current events instead of replacing them
+          </label>
+        </div>
+        <div className="space-y-2 w-32">
+          <label className="block text-sm font-medium">Term</label>
+          <select
+            className="w-full border rounded px-2 py-2 bg-transparent"
+            value={termName}
+            onChange={(e) => patchCourse(course.id, { termName: e.target.value })}
+            title="Dates without a year are placed within this term"
+          >
+            {!termChoices.includes(termName) && <option value={termName}>{termName}</option>}
+            {termChoices.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+          <label className="block text-sm font-medium">Language</label>
+          <select
+            className="w-full border rounded px-2 py-2 bg-transparent"
+            value={locale}
             onChange={(e) => {
-              const v = Number(e.target.value);
-              const clamped = Number.isFinite(v)
-                ? Math.min(2100, Math.max(1900, v))
-                : new Date().getFullYear();
-              setYear(clamped);
+              if (isLocaleId(e.target.value)) patchCourse(course.id, { locale: e.target.value });
             }}
-            onWheel={(e) => (e.target as HTMLInputElement).blur()}
-          />
+          >
+            {LOCALE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {LOCALES[id].label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="w-full border rounded px-2 py-2 bg-transparent"
+            value={dateOrder}
+            onChange={(e) => {
+              const value = e.target.value;
+              if (isDateOrderChoice(value)) patchCourse(course.id, { dateOrder: value });
+            }}
+            title="How numeric dates like 03/04 are read"
+          >
+            <option value="auto">03/04: detect</option>
+            <option value="MDY">03/04 = Mar 4</option>
+            <option value="DMY">03/04 = 3 Apr</option>
+          </select>
           <button
             className="w-full border rounded px-3 py-2 disabled:opacity-50"
             onClick={handleParse}
@@ -138,6 +684,56 @@ export default function Home() {
           >
             {loading === "parse" ? "Parsing..." : "Parse"}
           </button>
+          <label className="block w-full border rounded px-3 py-2 text-center cursor-pointer">
+            Import .ics
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <ProfilePanel
+        profiles={profiles}
+        selected={profile}
+        onSelect={(name) => patchCourse(course.id, { profile: name })}
+        onChange={setProfiles}
+      />
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2">
+          <TermEditor
+            value={term}
+            onChange={(next: TermSettings) => patchCourse(course.id, { term: next })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Time zone</label>
+          <select
+            className="w-full border rounded px-3 py-2 bg-transparent"
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+          >
+            {!timeZones.includes(timeZone) && <option value={timeZone}>{timeZone}</option>}
+            {timeZones.map((tz) => (
+              <option key={tz} value={tz}>
+                {tz}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-3 text-xs opacity-70">
+          Weekly meetings (e.g. &quot;Lectures MWF 10:00–10:50am&quot;) repeat between these
+          dates; holidays and breaks are skipped. Entries like &quot;Week 3 (Tue)&quot; or
+          &quot;Lecture 7&quot; are counted from the term start. Dates written without a year
+          are placed within these dates, or within the chosen term when they are empty.
         </div>
       </div>
 
@@ -146,172 +742,632 @@ export default function Home() {
           {error}
         </div>
       )}
+      {notice && <div className="text-sm opacity-70">{notice}</div>}
+
+      <SkippedLines
+        key={course.id}
+        lines={rejected}
+        timeZone={timeZone}
+        locale={locale}
+        onPromote={(i, event) => {
+          editEvents(course.id, (list) => [...list, event]);
+          patchCourse(course.id, (c) => ({ rejected: c.rejected.filter((_, j) => j !== i) }));
+        }}
+        onDismiss={(i) =>
+          patchCourse(course.id, (c) => ({ rejected: c.rejected.filter((_, j) => j !== i) }))
+        }
+      />
 
-      {hasEvents && (
+      {allEvents.length > 0 && (
         <div className="space-y-3">
-          <h2 className="text-lg font-semibold">Preview &amp; edit</h2>
-          <div className="text-xs opacity-70">Tip: click fields to edit; times are local.</div>
-
-          <div className="overflow-auto border rounded">
-            <table className="w-full text-sm">
-              <colgroup>
-                {[
-                  <col key="title" className="w-[28rem]" />,
-                  <col key="start" className="w-[14rem]" />,
-                  <col key="end" className="w-[14rem]" />,
-                  <col key="all" className="w-[6rem]" />,
-                  <col key="src" className="w-[36rem]" />,
-                ]}
-              </colgroup>
-              <thead className="bg-black/5">
-                <tr>
-                  <th className="text-left p-2">Title</th>
-                  <th className="text-left p-2">Start</th>
-                  <th className="text-left p-2">End</th>
-                  <th className="text-left p-2">All-day</th>
-                  <th className="text-left p-2">Source</th>
-                </tr>
-              </thead>
-              <tbody>
-                {events.map((e, i) => (
-                  <tr key={i} className="border-t align-top">
-                    <td className="p-2">
+          <h2 className="text-lg font-semibold">
+            Preview &amp; edit
+            {courses.length > 1 && ` — ${courseLabel(course, courses.indexOf(course))}`}
+          </h2>
+          <div className="text-xs opacity-70">
+            Tip: click fields to edit; times are in {timeZone}.
+          </div>
+
+          {ambiguousCount > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm rounded bg-amber-50 p-2">
+              <span>
+                {ambiguousCount === 1 ? "1 date" : `${ambiguousCount} dates`} like 03/04 could
+                be month/day or day/month; check the {ambiguousCount === 1 ? "one" : "ones"}{" "}
+                marked below.
+              </span>
+              <button className="underline" onClick={() => confirmDates(true)}>
+                Swap all
+              </button>
+              <button className="underline" onClick={() => confirmDates(false)}>
+                Keep all
+              </button>
+            </div>
+          )}
+
+          <CategoryPanel
+            events={events}
+            colors={categoryColors}
+            onColor={(category, color) =>
+              setCategoryColors((prev) => ({ ...prev, [category]: color }))
+            }
+            hidden={hiddenCategories}
+            onToggleHidden={(key) => setHiddenCategories((prev) => toggle(prev, key))}
+            exported={exportCategories}
+            onToggleExported={(key) => setExportCategories((prev) => toggle(prev, key))}
+          />
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button className="border rounded px-3 py-1" onClick={addEvent}>
+              + Add event
+            </button>
+            <button
+              className="border rounded px-3 py-1 disabled:opacity-50"
+              onClick={() => stepHistory("undo")}
+              disabled={history.past.length === 0}
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button
+              className="border rounded px-3 py-1 disabled:opacity-50"
+              onClick={() => stepHistory("redo")}
+              disabled={history.future.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </button>
+            <div className="ml-auto flex border rounded overflow-hidden" role="group">
+              {(["table", "month", "week"] as const).map((v) => (
+                <button
+                  key={v}
+                  className={`px-3 py-1 capitalize ${view === v ? "bg-black/10 font-medium" : ""}`}
+                  onClick={() => setView(v)}
+                  aria-pressed={view === v}
+                >
+                  {v}
+                </button>
+              ))}
+            </div>
+            {sort && view === "table" && (
+              <button className="underline text-xs" onClick={() => setSort(null)}>
+                Back to parsed order
+              </button>
+            )}
+          </div>
+
+          {view !== "table" && (
+            <CalendarView
+              mode={view}
+              rows={visibleRows}
+              timeZone={timeZone}
+              colors={categoryColors}
+              onMode={setView}
+              onMove={(i, moved) =>
+                updateEvent(i, { start: moved.start, end: moved.end, allDay: moved.allDay })
+              }
+            />
+          )}
+
+          {view === "table" && selection.size > 0 && (
+            <BulkActions
+              count={selection.size}
+              onShift={(days) => editRows(selection, (e) => shiftDays(e, days, timeZone))}
+              onCategory={(category) =>
+                editRows(selection, (e) => ({ ...e, category, confidence: undefined }))
+              }
+              onTime={(time) => editRows(selection, (e) => setTime(e, time, timeZone))}
+              onDuplicate={() => duplicateRows(selection)}
+              onDelete={() => deleteRows(selection)}
+              onClear={() => setSelection(new Set())}
+            />
+          )}
+
+          {view === "table" && (
+            <div className="overflow-auto border rounded">
+              <table className="w-full text-sm">
+                <colgroup>
+                  {[
+                    <col key="select" className="w-[2.5rem]" />,
+                    <col key="title" className="w-[28rem]" />,
+                    <col key="cat" className="w-[10rem]" />,
+                    <col key="start" className="w-[14rem]" />,
+                    <col key="end" className="w-[14rem]" />,
+                    <col key="all" className="w-[6rem]" />,
+                    <col key="rem" className="w-[10rem]" />,
+                    <col key="details" className="w-[14rem]" />,
+                    <col key="src" className="w-[36rem]" />,
+                    <col key="actions" className="w-[6rem]" />,
+                  ]}
+                </colgroup>
+                <thead className="bg-black/5">
+                  <tr>
+                    <th className="p-2">
                       <input
-                        className="w-full bg-transparent border rounded px-2 py-1"
-                        value={e.title}
-                        onChange={(ev) => updateEvent(i, { title: ev.target.value })}
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={() =>
+                          setSelection(
+                            allVisibleSelected ? new Set() : new Set(visibleRows.map(({ i }) => i))
+                          )
+                        }
+                        aria-label="Select all rows"
                       />
-                    </td>
-
-                    {/* Start */}
-                    <td className="p-2">
-                      {e.allDay ? (
+                    </th>
+                    <th className="text-left p-2">
+                      <SortButton label="Title" sortKey="title" sort={sort} onSort={sortBy} />
+                    </th>
+                    <th className="text-left p-2">
+                      <SortButton label="Category" sortKey="category" sort={sort} onSort={sortBy} />
+                    </th>
+                    <th className="text-left p-2">
+                      <SortButton label="Start" sortKey="start" sort={sort} onSort={sortBy} />
+                    </th>
+                    <th className="text-left p-2">End</th>
+                    <th className="text-left p-2">All-day</th>
+                    <th className="text-left p-2">Reminders</th>
+                    <th className="text-left p-2">Details</th>
+                    <th className="text-left p-2">Source</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(({ e, i }) => (
+                    <tr
+                      key={i}
+                      className={`border-t align-top ${selection.has(i) ? "bg-black/5" : ""}`}
+                    >
+                      <td className="p-2">
                         <input
-                          type="date"
-                          className="bg-transparent border rounded px-2 py-1"
-                          value={toLocalDateInput(e.start)}
-                          onChange={(ev) =>
-                            updateEvent(i, {
-                              start: atLocalMidnight(ev.target.value, e.start),
-                              end: undefined,
-                            })
-                          }
+                          type="checkbox"
+                          checked={selection.has(i)}
+                          onChange={() => toggleRow(i)}
+                          aria-label={`Select ${e.title}`}
                         />
-                      ) : (
+                      </td>
+                      <td className="p-2">
                         <input
-                          type="datetime-local"
-                          className="bg-transparent border rounded px-2 py-1"
-                          value={toLocalInput(e.start)}
+                          className="w-full bg-transparent border rounded px-2 py-1"
+                          value={e.title}
                           onChange={(ev) =>
-                            updateEvent(i, {
-                              start: fromLocalInput(ev.target.value, e.start),
-                            })
+                            updateEvent(i, { title: ev.target.value }, `title:${i}`)
                           }
                         />
-                      )}
-                    </td>
+                        {e.recurrence && (
+                          <div className="text-xs opacity-70 mt-1">
+                            Weekly on {e.recurrence.byDay.join(", ")} until{" "}
+                            {toZonedDateInput(e.recurrence.until, timeZone)}
+                            {e.exdates?.length ? ` · ${e.exdates.length} skipped` : ""}
+                          </div>
+                        )}
+                        {e.inferred && (
+                          <div className="text-xs mt-1">
+                            <span className="rounded bg-amber-100 text-amber-800 px-1">
+                              inferred
+                            </span>{" "}
+                            <span className="opacity-70">from {e.inferred}</span>
+                          </div>
+                        )}
+                        {e.altStart && (
+                          <div className="text-xs mt-1 flex flex-wrap items-center gap-1">
+                            <span className="rounded bg-amber-100 text-amber-800 px-1">
+                              day/month?
+                            </span>
+                            <span className="opacity-70">
+                              read as {shortDate(e.start, timeZone)}, or
+                            </span>
+                            <button className="underline" onClick={() => confirmDates(true, i)}>
+                              {shortDate(e.altStart, timeZone)}
+                            </button>
+                            <button
+                              className="underline opacity-70"
+                              onClick={() => confirmDates(false, i)}
+                            >
+                              keep
+                            </button>
+                          </div>
+                        )}
+                        {e.outsideTerm && (
+                          <div className="text-xs mt-1">
+                            <span className="rounded bg-red-100 text-red-800 px-1">
+                              outside term
+                            </span>{" "}
+                            <span className="opacity-70">check the date or the term</span>
+                          </div>
+                        )}
+                      </td>
 
-                    {/* End */}
-                    <td className="p-2">
-                      {e.allDay ? (
+                      {/* Category */}
+                      <td className="p-2">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="inline-block w-3 h-3 rounded-full shrink-0"
+                            style={{
+                              background: e.category ? categoryColors[e.category] : "transparent",
+                            }}
+                          />
+                          <select
+                            className="bg-transparent border rounded px-1 py-1"
+                            value={e.category ?? ""}
+                            onChange={(ev) =>
+                              updateEvent(i, {
+                                category: isCategory(ev.target.value) ? ev.target.value : undefined,
+                                confidence: undefined, // chosen by hand
+                              })
+                            }
+                          >
+                            <option value="">—</option>
+                            {CATEGORIES.map((c) => (
+                              <option key={c} value={c}>
+                                {CATEGORY_LABELS[c]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {e.confidence !== undefined && (
+                          <div
+                            className={`text-xs mt-1 ${
+                              e.confidence < 0.6 ? "text-amber-600" : "opacity-70"
+                            }`}
+                          >
+                            {Math.round(e.confidence * 100)}% sure
+                          </div>
+                        )}
+                      </td>
+
+                      {/* Start */}
+                      <td className="p-2">
+                        {e.allDay ? (
+                          <input
+                            type="date"
+                            className="bg-transparent border rounded px-2 py-1"
+                            value={toZonedDateInput(e.start, timeZone)}
+                            onChange={(ev) => {
+                              if (!ev.target.value) return;
+                              // A multi-day range moves as a whole
+                              const from = toZonedDateInput(e.start, timeZone);
+                              const moved = shiftDays(e, dayDiff(ev.target.value, from), timeZone);
+                              updateEvent(i, { start: moved.start, end: moved.end });
+                            }}
+                          />
+                        ) : (
+                          <input
+                            type="datetime-local"
+                            className="bg-transparent border rounded px-2 py-1"
+                            value={toZonedInput(e.start, timeZone)}
+                            onChange={(ev) =>
+                              updateEvent(i, {
+                                start: fromZonedInput(ev.target.value, timeZone, e.start),
+                              })
+                            }
+                          />
+                        )}
+                      </td>
+
+                      {/* End */}
+                      <td className="p-2">
+                        {e.allDay ? (
+                          <input
+                            type="date"
+                            className="bg-transparent border rounded px-2 py-1"
+                            value={toZonedDateInput(e.end ?? e.start, timeZone)}
+                            min={toZonedDateInput(e.start, timeZone)}
+                            onChange={(ev) => {
+                              // The last day itself; ending on the first day is a single day
+                              const end = ev.target.value
+                                ? atZonedMidnight(ev.target.value, timeZone, e.end)
+                                : undefined;
+                              updateEvent(i, { end: end && end > e.start ? end : undefined });
+                            }}
+                          />
+                        ) : (
+                          <input
+                            type="datetime-local"
+                            className="bg-transparent border rounded px-2 py-1"
+                            value={e.end ? toZonedInput(e.end, timeZone) : ""}
+                            onChange={(ev) =>
+                              updateEvent(i, {
+                                end: ev.target.value
+                                  ? fromZonedInput(ev.target.value, timeZone, e.end)
+                                  : undefined,
+                              })
+                            }
+                          />
+                        )}
+                      </td>
+
+                      {/* All-day */}
+                      <td className="p-2">
                         <input
-                          type="date"
-                          className="bg-transparent border rounded px-2 py-1"
-                          value={toLocalDateInput(e.end ?? e.start)}
-                          onChange={() => updateEvent(i, { end: undefined })}
+                          type="checkbox"
+                          checked={!!e.allDay}
+                          onChange={(ev) => {
+                            const checked = ev.target.checked;
+                            updateEvent(i, {
+                              allDay: checked,
+                              end: checked ? undefined : e.end,
+                              start: checked
+                                ? atZonedMidnight(
+                                    toZonedDateInput(e.start, timeZone),
+                                    timeZone,
+                                    e.start
+                                  )
+                                : e.start,
+                            });
+                          }}
                         />
-                      ) : (
+                      </td>
+
+                      {/* Reminders: blank uses the rule for the event's kind */}
+                      <td className="p-2">
                         <input
-                          type="datetime-local"
-                          className="bg-transparent border rounded px-2 py-1"
-                          value={e.end ? toLocalInput(e.end) : ""}
-                          onChange={(ev) =>
-                            updateEvent(i, {
-                              end: ev.target.value
-                                ? fromLocalInput(ev.target.value, e.end)
-                                : undefined,
-                            })
+                          key={`${e.uid ?? i}-${e.reminders?.join(",") ?? "default"}`}
+                          className="w-full bg-transparent border rounded px-2 py-1"
+                          defaultValue={
+                            e.reminders ? formatReminderList(e.reminders) || "none" : ""
+                          }
+                          placeholder={
+                            formatReminderList(reminderRules[reminderKind(e)]) || "none"
                           }
+                          onBlur={(ev) => {
+                            const text = ev.target.value.trim();
+                            updateEvent(i, {
+                              reminders: text ? parseReminderList(text) : undefined,
+                            });
+                          }}
                         />
-                      )}
-                    </td>
+                      </td>
 
-                    {/* All-day */}
-                    <td className="p-2">
-                      <input
-                        type="checkbox"
-                        checked={!!e.allDay}
-                        onChange={(ev) => {
-                          const checked = ev.target.checked;
-                          updateEvent(i, {
-                            allDay: checked,
-                            end: checked ? undefined : e.end,
-                            start: checked
-                              ? atLocalMidnight(toLocalDateInput(e.start), e.start)
-                              : e.start,
-                          });
-                        }}
-                      />
-                    </td>
+                      {/* Details: room, link and instructor */}
+                      <td className="p-2 space-y-1">
+                        {DETAIL_FIELDS.map(({ key, label }) => (
+                          <input
+                            key={key}
+                            type={key === "url" ? "url" : "text"}
+                            className="w-full bg-transparent border rounded px-2 py-1 text-xs"
+                            placeholder={label}
+                            aria-label={label}
+                            value={e[key] ?? ""}
+                            onChange={(ev) =>
+                              updateEvent(i, { [key]: ev.target.value || undefined }, `${key}:${i}`)
+                            }
+                          />
+                        ))}
+                      </td>
 
-                    {/* Source */}
-                    <td className="p-2 text-xs opacity-70 align-top">
-                      <div className="break-words whitespace-normal">{e.sourceLine}</div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+                      {/* Source */}
+                      <td className="p-2 text-xs opacity-70 align-top">
+                        {e.page && <div className="font-medium">p. {e.page}</div>}
+                        <div className="break-words whitespace-normal">{e.sourceLine}</div>
+                        {e.description && (
+                          <div className="mt-1 whitespace-pre-line">{e.description}</div>
+                        )}
+                        {e.match && (
+                          <div
+                            className={`mt-1 ${e.match.confidence < 0.6 ? "text-amber-600" : ""}`}
+                            title={`Matched: ${e.match.rules.join(", ")}`}
+                          >
+                            Date {Math.round(e.match.confidence * 100)}% sure ·{" "}
+                            {e.match.rules.join(", ")}
+                          </div>
+                        )}
+                      </td>
+
+                      <td className="p-2 text-xs space-y-1">
+                        <button
+                          className="block underline"
+                          onClick={() => duplicateRows(new Set([i]))}
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          className="block underline text-red-600"
+                          onClick={() => deleteRows(new Set([i]))}
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <WorkloadPanel
+            events={allEvents}
+            timeZone={timeZone}
+            holidays={courses.flatMap((c) =>
+              c.term.breaks
+                .filter((b) => b.start)
+                .map((b) => ({ name: b.name.trim() || "Break", start: b.start, end: b.end }))
+            )}
+          />
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Reminders</div>
+            <div className="grid grid-cols-3 gap-3">
+              {REMINDER_KINDS.map((kind) => (
+                <label key={kind} className="space-y-1 text-xs">
+                  <span className="block">
+                    {kind === "other" ? "Other" : CATEGORY_LABELS[kind]}
+                  </span>
+                  <input
+                    key={reminderRules[kind].join(",")}
+                    className="w-full border rounded px-2 py-1 bg-transparent text-sm"
+                    defaultValue={formatReminderList(reminderRules[kind])}
+                    placeholder="none"
+                    onBlur={(ev) =>
+                      setReminderRules((prev) => ({
+                        ...prev,
+                        [kind]: parseReminderList(ev.target.value),
+                      }))
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="text-xs opacity-70">
+              Times before the event, e.g. &quot;1w, 1d&quot; or &quot;24h&quot;. Override per
+              event in the table; type &quot;none&quot; to turn one off.
+            </div>
           </div>
 
-          <div className="flex justify-end">
+          <div className="flex justify-end items-center gap-3">
+            {pendingCancels > 0 && (
+              <button
+                className="text-sm underline disabled:opacity-50"
+                onClick={handleDownloadCancellations}
+                disabled={loading === "export"}
+                title="Removes events deleted since the last export from your calendar app"
+              >
+                Download {pendingCancels} cancellation{pendingCancels === 1 ? "" : "s"}
+              </button>
+            )}
+            <label className="text-sm flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={splitByCategory}
+                onChange={(ev) => setSplitByCategory(ev.target.checked)}
+              />
+              One file per category
+            </label>
+            {courses.length > 1 && (
+              <label className="text-sm flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={splitByCourse}
+                  onChange={(ev) => setSplitByCourse(ev.target.checked)}
+                />
+                One calendar per course
+              </label>
+            )}
+            <select
+              className="border rounded px-2 py-2 bg-transparent text-sm"
+              value={exportFormat}
+              onChange={(ev) => setExportFormat(ev.target.value as ExportFormat)}
+              aria-label="Export format"
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f.format} value={f.format}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
             <button
               className="border rounded px-4 py-2 disabled:opacity-50"
-              onClick={handleDownloadICS}
-              disabled={!hasEvents || loading === "ics"}
+              onClick={handleDownload}
+              disabled={exportable.length === 0 || loading === "export"}
             >
-              {loading === "ics" ? "Building..." : "Download .ics"}
+              {loading === "export" ? "Building..." : "Download"}
             </button>
           </div>
+
+          <FeedPanel
+            calName={calName || "syllabus"}
+            timeZone={timeZone}
+            body={() =>
+              exportBody(
+                assignUids(allEvents, calName).filter((e) => exportCategories.has(categoryKey(e)))
+              )
+            }
+            disabled={exportable.length === 0}
+          />
+
+          <CalDavPanel
+            calName={calName || "syllabus"}
+            timeZone={timeZone}
+            body={() =>
+              exportBody(
+                assignUids(allEvents, calName).filter((e) => exportCategories.has(categoryKey(e)))
+              )
+            }
+            disabled={exportable.length === 0}
+          />
         </div>
       )}
     </div>
   );
 }
 
+function SortButton(props: {
+  label: string;
+  sortKey: SortKey;
+  sort: Sort | null;
+  onSort: (key: SortKey) => void;
+}) {
+  const active = props.sort?.key === props.sortKey ? props.sort : null;
+  return (
+    <button className="font-semibold" onClick={() => props.onSort(props.sortKey)}>
+      {props.label}
+      {active && (active.descending ? " ↓" : " ↑")}
+    </button>
+  );
+}
+
 /* ---------- helpers ---------- */
 
 function pad(n: number) {
   return String(n).padStart(2, "0");
 }
 
-function toLocalInput(d: Date) {
+function toZonedInput(d: Date, timeZone: string) {
   if (!(d instanceof Date) || Number.isNaN(d.getTime())) return "";
-  const yyyy = d.getFullYear();
-  const mm = pad(d.getMonth() + 1);
-  const dd = pad(d.getDate());
-  const hh = pad(d.getHours());
-  const mi = pad(d.getMinutes());
-  return `${yyyy}-${mm}-${dd}T${hh}:${mi}`;
+  const w = toZoned(d, timeZone);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}T${pad(w.hour)}:${pad(w.minute)}`;
 }
 
-function toLocalDateInput(d: Date) {
+function toZonedDateInput(d: Date, timeZone: string) {
   if (!(d instanceof Date) || Number.isNaN(d.getTime())) return "";
-  const yyyy = d.getFullYear();
-  const mm = pad(d.getMonth() + 1);
-  const dd = pad(d.getDate());
-  return `${yyyy}-${mm}-${dd}`;
+  const w = toZoned(d, timeZone);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}`;
 }
 
-function fromLocalInput(value: string, fallback?: Date) {
-  const d = new Date(value);
-  return Number.isNaN(d.getTime()) ? (fallback ?? new Date()) : d;
+/** "Mar 4, 2027" on the wall clock of `timeZone` */
+function shortDate(d: Date, timeZone: string) {
+  return d.toLocaleDateString("en-US", {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
 }
 
-function atLocalMidnight(dateStr: string, fallback?: Date) {
+function fromZonedInput(value: string, timeZone: string, fallback?: Date) {
+  const [date, time = ""] = value.split("T");
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mi] = time.split(":").map(Number);
+  const out = fromZoned({ year: y, month: m, day: d, hour: hh || 0, minute: mi || 0 }, timeZone);
+  return Number.isNaN(out.getTime()) ? (fallback ?? new Date()) : out;
+}
+
+/** Whole days from one "YYYY-MM-DD" to another */
+function dayDiff(to: string, from: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function atZonedMidnight(dateStr: string, timeZone: string, fallback?: Date) {
   const [y, m, d] = dateStr.split("-").map(Number);
-  const local = new Date(y, (m ?? 1) - 1, d ?? 1, 0, 0, 0, 0);
-  return Number.isNaN(local.getTime()) ? (fallback ?? new Date()) : local;
+  const out = fromZoned({ year: y, month: m ?? 1, day: d ?? 1, hour: 0, minute: 0 }, timeZone);
+  return Number.isNaN(out.getTime()) ? (fallback ?? new Date()) : out;
+}
+
+const HISTORY_KEY = "syllabus:exports:";
+
+/** What was last exported for a calendar name (drives SEQUENCE and cancellations) */
+function loadExportHistory(calName: string): ExportHistory {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY + calName) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function saveExportHistory(calName: string, history: ExportHistory) {
+  try {
+    localStorage.setItem(HISTORY_KEY + calName, JSON.stringify(history));
+  } catch {
+    // storage full or disabled: exports still work, just without revision tracking
+  }
 }
 
 function sanitizeFilename(name: string) {
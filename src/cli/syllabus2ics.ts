@@ -0,0 +1,316 @@
+// cli/syllabus2ics.ts
+// Command-line converter for batches of syllabi: files (or stdin) in, .ics or JSON out.
+
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { detectKind, extractLines, type FileKind, type SourceLine } from "@/lib/extract";
+import {
+  isParseError,
+  parseSyllabus,
+  type ParsedEventOut,
+  type ParseOptions,
+  type ParseResult,
+} from "@/lib/parser";
+import { isExportError, readExportRequest, sanitize } from "@/lib/export";
+import { makeICS } from "@/lib/ics";
+
+const USAGE = `Usage: syllabus2ics [options] [file ...]
+
+Converts syllabi (PDF, DOCX, HTML or text) into calendar events. Reads stdin when no
+file is given, or for "-".
+
+Options:
+  -t, --term <name>         term the dates fall in, e.g. "Fall 2026"
+  -y, --year <year>         year for dates without one, when no term is given
+      --term-start <date>   first day of the term (YYYY-MM-DD); resolves "Week 3"
+      --term-end <date>     last day of the term (YYYY-MM-DD)
+  -z, --tz <zone>           IANA time zone the syllabus times are in
+  -d, --duration <minutes>  length of events without an end time
+      --deadline-time <HH:mm>  time for deadlines without one
+      --title-template <t>  event titles from {course}, {name}, {title}, {topic} and
+                            {section}; default "{course} – {title} ({topic})"
+  -l, --locale <id>         syllabus language: en-US, en-GB, fr, de, es or ja
+      --date-order <order>  how to read 03/04: auto, MDY or DMY
+  -p, --profile <file>      parser profile exported from the app (JSON)
+  -n, --name <name>         calendar name (default: the file name)
+  -f, --format <format>     ics (default) or json
+  -o, --out <dir>           write <name>.ics or <name>.json per input into <dir>
+      --check <path>        compare the parsed events with earlier --format json output
+                            (a file, or a directory of <name>.json) and print the changes
+  -h, --help                show this help
+
+Exit status: 0 on success, 1 when --check finds changes or a file has no events (or
+events that can't be exported), 2 on bad options or unreadable files.`;
+
+// `name` is the file name without its extension; for stdin, --name or "Syllabus"
+type Input = { name: string; label: string; lines: SourceLine[] };
+
+type Options = ReturnType<typeof readArgs>;
+
+/** Run the CLI on `argv` (without node and the script); resolves to the exit code */
+export async function main(argv: string[]): Promise<number> {
+  let args: Options;
+  try {
+    args = readArgs(argv);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const format = values.format ?? "ics";
+  if (format !== "ics" && format !== "json") {
+    return fail(`Unsupported format: ${format} (use ics or json)`);
+  }
+  if (values.year !== undefined && !/^\d{4}$/.test(values.year)) {
+    return fail(`Not a year: ${values.year}`);
+  }
+  if (values.duration !== undefined && !(Number(values.duration) > 0)) {
+    return fail(`Duration must be a number of minutes, not ${values.duration}`);
+  }
+  const files = positionals.length ? positionals : ["-"];
+  if (files.length > 1 && !values.out && !values.check) {
+    return fail("Give --out <dir> to convert more than one file");
+  }
+
+  let profile: string | undefined;
+  if (values.profile) {
+    try {
+      profile = await readFile(values.profile, "utf8");
+    } catch {
+      return fail(`Could not read the profile ${values.profile}`);
+    }
+  }
+  const options: ParseOptions = {
+    term: values.term,
+    fallbackYear: values.year,
+    termStart: values["term-start"],
+    termEnd: values["term-end"],
+    timeZone: values.tz,
+    defaultDurationMinutes: values.duration,
+    defaultTime: values["deadline-time"],
+    titleTemplate: values["title-template"],
+    locale: values.locale,
+    dateOrder: values["date-order"],
+    profile,
+  };
+
+  let status = 0;
+  for (const file of files) {
+    const input = await readInput(file, values.name ?? "Syllabus");
+    if (typeof input === "string") {
+      console.error(input);
+      status = 2;
+      continue;
+    }
+    const result = parseSyllabus(input.lines, options);
+    // Options are the same for every file, so one bad option fails them all
+    if (isParseError(result)) return fail(result.error);
+
+    if (values.check) {
+      const changed = await check(input, result, values.check);
+      status = Math.max(status, changed);
+      continue;
+    }
+
+    if (!result.events.length) {
+      console.error(`${input.label}: no events found`);
+      status = Math.max(status, 1);
+      continue;
+    }
+    const calendarName = values.name ?? input.name;
+    const content = format === "json" ? json(result) : ics(result, calendarName, values.tz);
+    if (isExportError(content)) {
+      console.error(`${input.label}: ${content.error}`);
+      for (const p of content.problems ?? []) {
+        console.error(`  events[${p.index}]${p.field && `.${p.field}`}: ${p.message}`);
+      }
+      status = Math.max(status, 1);
+      continue;
+    }
+    if (!values.out) {
+      process.stdout.write(content);
+      continue;
+    }
+    const path = join(values.out, `${sanitize(input.name)}.${format}`);
+    await mkdir(values.out, { recursive: true });
+    await writeFile(path, content);
+    console.error(`${path}: ${summary(result)}`);
+  }
+  return status;
+}
+
+/* ---------- helpers ---------- */
+
+function readArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      term: { type: "string", short: "t" },
+      year: { type: "string", short: "y" },
+      "term-start": { type: "string" },
+      "term-end": { type: "string" },
+      tz: { type: "string", short: "z" },
+      duration: { type: "string", short: "d" },
+      "deadline-time": { type: "string" },
+      "title-template": { type: "string" },
+      locale: { type: "string", short: "l" },
+      "date-order": { type: "string" },
+      profile: { type: "string", short: "p" },
+      name: { type: "string", short: "n" },
+      format: { type: "string", short: "f" },
+      out: { type: "string", short: "o" },
+      check: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+function fail(message: string) {
+  console.error(`syllabus2ics: ${message}`);
+  console.error('Run "syllabus2ics --help" for the options.');
+  return 2;
+}
+
+/** A file's lines (stdin for "-"), or what went wrong */
+async function readInput(file: string, stdinName: string): Promise<Input | string> {
+  const label = file === "-" ? "stdin" : file;
+  let bytes: Uint8Array;
+  let kind: FileKind;
+  if (file === "-") {
+    bytes = await readStdin();
+    kind = sniffKind(bytes);
+  } else {
+    try {
+      bytes = new Uint8Array(await readFile(file));
+    } catch {
+      return `${label}: could not read the file`;
+    }
+    kind = detectKind(file) ?? sniffKind(bytes);
+  }
+  try {
+    const lines = await extractLines(bytes, kind);
+    if (!lines.length) return `${label}: no text found (scanned PDFs aren't supported)`;
+    const name = file === "-" ? stdinName : basename(file, extname(file));
+    return { name, label, lines };
+  } catch {
+    return `${label}: could not read it; is it a valid ${kind.toUpperCase()} file?`;
+  }
+}
+
+async function readStdin() {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+/** Stdin and files without a known extension: PDF and DOCX by their magic bytes */
+function sniffKind(bytes: Uint8Array): FileKind {
+  const head = new TextDecoder().decode(bytes.slice(0, 512)).trimStart().toLowerCase();
+  if (head.startsWith("%pdf-")) return "pdf";
+  if (head.startsWith("pk\u0003\u0004")) return "docx";
+  if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "html";
+  return "text";
+}
+
+function summary({ events, rejected }: ParseResult) {
+  const suspicious = rejected.filter((r) => r.suspicious).length;
+  return `${plural(events.length, "event")}, ${plural(suspicious, "skipped line")} worth a look`;
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function json(result: ParseResult) {
+  return `${JSON.stringify(result, null, 2)}\n`;
+}
+
+/** The events as an .ics file, normalized as /api/export does, or why they can't be */
+function ics({ events }: ParseResult, calendarName: string, timeZone?: string) {
+  const request = readExportRequest({ events, calendarName, timeZone }, new URLSearchParams());
+  if (isExportError(request)) return request;
+  return makeICS(request.events, request.calendarName, { timeZone: request.timeZone });
+}
+
+/* ---------- --check ---------- */
+
+// What a regression review cares about; `match.rules` changes show up in the confidence
+const FIELDS = [
+  "title", "start", "end", "allDay", "recurrence", "exdates", "category", "inferred",
+  "outsideTerm", "altStart",
+] as const;
+
+/**
+ * Print how `result` differs from the JSON saved earlier for the same input: added,
+ * removed and changed events, matched up by their source line. Resolves to 1 when anything
+ * changed (or the expected file is missing), 0 otherwise.
+ */
+async function check(input: Input, result: ParseResult, path: string) {
+  const isDir = await stat(path).then((s) => s.isDirectory(), () => false);
+  const file = isDir ? join(path, `${sanitize(input.name)}.json`) : path;
+  let expected: ParsedEventOut[];
+  try {
+    const saved = JSON.parse(await readFile(file, "utf8"));
+    expected = Array.isArray(saved) ? saved : saved.events;
+    if (!Array.isArray(expected)) throw new Error("no events");
+  } catch {
+    console.log(`${input.label}: no expected events in ${file}`);
+    return 1;
+  }
+
+  const lines = diffEvents(expected, result.events);
+  if (lines.length === 0) {
+    console.log(`${input.label}: unchanged (${plural(result.events.length, "event")})`);
+    return 0;
+  }
+  const count = lines.filter((l) => /^ {2}[-+~]/.test(l)).length;
+  console.log(`${input.label}: ${plural(count, "changed event")}`);
+  for (const line of lines) console.log(line);
+  return 1;
+}
+
+function diffEvents(expected: ParsedEventOut[], actual: ParsedEventOut[]) {
+  const out: string[] = [];
+  const left = [...expected];
+  const added: ParsedEventOut[] = [];
+  for (const e of actual) {
+    // Same line and title first, so a line that yields two events pairs them up right
+    let i = left.findIndex((x) => x.sourceLine === e.sourceLine && x.title === e.title);
+    if (i < 0) i = left.findIndex((x) => x.sourceLine === e.sourceLine);
+    if (i < 0) {
+      added.push(e);
+      continue;
+    }
+    const [was] = left.splice(i, 1);
+    const changes = FIELDS.filter((f) => !same(was[f], e[f])).map(
+      (f) => `      ${f}: ${show(was[f])} → ${show(e[f])}`
+    );
+    const [before, after] = [was.match?.confidence, e.match?.confidence];
+    if (before !== after) {
+      const rules = e.match?.rules.join(", ") ?? "";
+      changes.push(`      confidence: ${show(before)} → ${show(after)} (${rules})`);
+    }
+    if (changes.length) out.push(`  ~ ${describe(e)}`, ...changes);
+  }
+  for (const e of left) out.push(`  - ${describe(e)}`);
+  for (const e of added) out.push(`  + ${describe(e)}`);
+  return out;
+}
+
+function describe(e: ParsedEventOut) {
+  return `${e.title}  ${e.start}${e.sourceLine ? `  "${e.sourceLine}"` : ""}`;
+}
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function show(v: unknown) {
+  return v === undefined ? "(none)" : typeof v === "string" ? v : JSON.stringify(v);
+}
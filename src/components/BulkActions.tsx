@@ -0,0 +1,93 @@
+// src/components/BulkActions.tsx
+"use client";
+
+import { useState } from "react";
+import { CATEGORIES, CATEGORY_LABELS, isCategory, type Category } from "@/lib/categories";
+
+type Props = {
+  count: number;
+  onShift: (days: number) => void;
+  onCategory: (category: Category | undefined) => void;
+  onTime: (time: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+};
+
+/** What can be done to every selected row at once */
+export default function BulkActions(props: Props) {
+  const { count, onShift, onCategory, onTime } = props;
+  const [days, setDays] = useState("1");
+  const [time, setTime] = useState("09:00");
+  const shift = Number(days);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm rounded bg-black/5 p-2">
+      <span className="font-medium">{count} selected</span>
+
+      <span className="inline-flex items-center gap-1">
+        Shift by
+        <input
+          type="number"
+          className="w-16 border rounded px-1 py-0.5 bg-transparent"
+          value={days}
+          onChange={(ev) => setDays(ev.target.value)}
+          aria-label="Days to shift by"
+        />
+        days
+        <button
+          className="border rounded px-2 py-0.5 disabled:opacity-50"
+          onClick={() => onShift(shift)}
+          disabled={!Number.isInteger(shift) || shift === 0}
+        >
+          Shift
+        </button>
+      </span>
+
+      <select
+        className="border rounded px-1 py-0.5 bg-transparent"
+        value=""
+        onChange={(ev) => {
+          const value = ev.target.value;
+          if (value) onCategory(isCategory(value) ? value : undefined);
+        }}
+        aria-label="Set category"
+      >
+        <option value="">Set category…</option>
+        {CATEGORIES.map((c) => (
+          <option key={c} value={c}>
+            {CATEGORY_LABELS[c]}
+          </option>
+        ))}
+        <option value="none">No category</option>
+      </select>
+
+      <span className="inline-flex items-center gap-1">
+        <input
+          type="time"
+          className="border rounded px-1 py-0.5 bg-transparent"
+          value={time}
+          onChange={(ev) => setTime(ev.target.value)}
+          aria-label="Start time"
+        />
+        <button
+          className="border rounded px-2 py-0.5 disabled:opacity-50"
+          onClick={() => onTime(time)}
+          disabled={!time}
+        >
+          Set time
+        </button>
+      </span>
+
+      <button className="underline" onClick={props.onDuplicate}>
+        Duplicate
+      </button>
+      <button className="underline text-red-600" onClick={props.onDelete}>
+        Delete
+      </button>
+      <button className="underline opacity-70" onClick={props.onClear}>
+        Clear selection
+      </button>
+    </div>
+  );
+}
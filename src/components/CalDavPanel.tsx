@@ -0,0 +1,242 @@
+// src/components/CalDavPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ExportHistory } from "@/lib/identity";
+
+// Server URL, user name and chosen calendar; the password is never saved
+const CALDAV_KEY = "syllabus:caldav";
+// What the last push to a calendar URL sent, so the next one can update and delete
+const PUSH_KEY = "syllabus:caldav-push:";
+
+type Account = { url: string; username: string; calendarUrl: string };
+type Calendar = { url: string; name: string; color?: string };
+
+type PushSummary = {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  failed: { uid: string; title: string; status: number }[];
+  history: ExportHistory;
+};
+
+type Props = {
+  calName: string;
+  timeZone: string;
+  /** Events to push, in the same shape /api/export takes */
+  body: () => unknown;
+  disabled?: boolean;
+};
+
+/** Push the events straight into a calendar on a CalDAV server (Nextcloud, Fastmail, …) */
+export default function CalDavPanel({ calName, timeZone, body, disabled }: Props) {
+  const [account, setAccount] = useState<Account>({ url: "", username: "", calendarUrl: "" });
+  const [password, setPassword] = useState("");
+  const [calendars, setCalendars] = useState<Calendar[]>([]);
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => setAccount(loadAccount()), []);
+
+  function update(patch: Partial<Account>) {
+    const next = { ...account, ...patch };
+    setAccount(next);
+    saveAccount(next);
+  }
+
+  async function post<T>(url: string, payload: object): Promise<T> {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(data?.error ?? `Request failed (${res.status})`);
+    return data;
+  }
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await task();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Could not reach the server.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const server = { url: account.url, username: account.username, password };
+
+  function findCalendars(create?: string) {
+    return run(async () => {
+      const data = await post<{ calendars: Calendar[]; created?: string }>(
+        "/api/caldav/calendars",
+        { server, create }
+      );
+      setCalendars(data.calendars);
+      const keep = data.calendars.some((c) => c.url === account.calendarUrl);
+      const chosen = data.created ?? (keep ? account.calendarUrl : data.calendars[0]?.url ?? "");
+      update({ calendarUrl: chosen });
+      if (data.created) setNewName("");
+      setStatus(
+        data.created
+          ? "Calendar created."
+          : `Found ${data.calendars.length} calendar${data.calendars.length === 1 ? "" : "s"}.`
+      );
+    });
+  }
+
+  function push() {
+    return run(async () => {
+      const params = new URLSearchParams({ calendar: calName, tz: timeZone });
+      const result = await post<PushSummary>(`/api/caldav/push?${params}`, {
+        ...(body() as object),
+        server,
+        calendarUrl: account.calendarUrl,
+        history: loadPushHistory(account.calendarUrl),
+      });
+      savePushHistory(account.calendarUrl, result.history);
+      const parts = [
+        `${result.created} new`,
+        `${result.updated} updated`,
+        `${result.deleted} deleted`,
+        `${result.unchanged} unchanged`,
+      ];
+      const failed = result.failed.length
+        ? ` ${result.failed.length} failed (${result.failed
+            .map((f) => `${f.title}: ${f.status}`)
+            .join(", ")}); push again to retry.`
+        : "";
+      setStatus(`Pushed: ${parts.join(", ")}.${failed}`);
+    });
+  }
+
+  const canConnect = !!account.url.trim() && !busy;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">CalDAV calendar</div>
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <input
+          className="col-span-3 border rounded px-2 py-1 bg-transparent font-mono"
+          placeholder="https://cloud.example.com/remote.php/dav"
+          value={account.url}
+          onChange={(ev) => update({ url: ev.target.value })}
+          aria-label="CalDAV server URL"
+        />
+        <input
+          className="border rounded px-2 py-1 bg-transparent"
+          placeholder="User name"
+          autoComplete="username"
+          value={account.username}
+          onChange={(ev) => update({ username: ev.target.value })}
+          aria-label="CalDAV user name"
+        />
+        <input
+          type="password"
+          className="border rounded px-2 py-1 bg-transparent"
+          placeholder="App password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(ev) => setPassword(ev.target.value)}
+          aria-label="CalDAV password"
+        />
+        <button
+          className="border rounded px-3 py-1 disabled:opacity-50"
+          onClick={() => findCalendars()}
+          disabled={!canConnect}
+        >
+          {busy ? "Working..." : "Find calendars"}
+        </button>
+      </div>
+
+      {calendars.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="border rounded px-2 py-1 bg-transparent"
+            value={account.calendarUrl}
+            onChange={(ev) => update({ calendarUrl: ev.target.value })}
+            aria-label="Calendar to push to"
+          >
+            {calendars.map((c) => (
+              <option key={c.url} value={c.url}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className="border rounded px-3 py-1 disabled:opacity-50"
+            onClick={push}
+            disabled={disabled || busy || !account.calendarUrl}
+          >
+            Push events
+          </button>
+          <span className="opacity-70">or</span>
+          <input
+            className="border rounded px-2 py-1 bg-transparent"
+            placeholder={calName}
+            value={newName}
+            onChange={(ev) => setNewName(ev.target.value)}
+            aria-label="New calendar name"
+          />
+          <button
+            className="underline disabled:opacity-50"
+            onClick={() => findCalendars(newName.trim() || calName)}
+            disabled={!canConnect}
+          >
+            Create calendar
+          </button>
+        </div>
+      )}
+
+      <div className="text-xs opacity-70">
+        {status ??
+          "Pushing again updates changed events and removes deleted ones. The password is " +
+            "only sent to your server through this app and is never saved."}
+      </div>
+    </div>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+function loadAccount(): Account {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CALDAV_KEY) || "{}");
+    return {
+      url: String(saved.url ?? ""),
+      username: String(saved.username ?? ""),
+      calendarUrl: String(saved.calendarUrl ?? ""),
+    };
+  } catch {
+    return { url: "", username: "", calendarUrl: "" };
+  }
+}
+
+function saveAccount(account: Account) {
+  try {
+    localStorage.setItem(CALDAV_KEY, JSON.stringify(account));
+  } catch {
+    // storage disabled: the fields just need filling in again next time
+  }
+}
+
+function loadPushHistory(calendarUrl: string): ExportHistory {
+  try {
+    return JSON.parse(localStorage.getItem(PUSH_KEY + calendarUrl) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function savePushHistory(calendarUrl: string, history: ExportHistory) {
+  try {
+    localStorage.setItem(PUSH_KEY + calendarUrl, JSON.stringify(history));
+  } catch {
+    // without the history the next push re-sends everything but can't delete
+  }
+}
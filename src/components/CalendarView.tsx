@@ -0,0 +1,374 @@
+// src/components/CalendarView.tsx
+"use client";
+
+import { useRef, useState, type DragEvent } from "react";
+import type { ParsedEvent } from "@/types";
+import type { Category } from "@/lib/categories";
+import {
+  addDays,
+  dayOf,
+  minutesOfDay,
+  monthWeeks,
+  occurrences,
+  weekdayOf,
+  weekOf,
+  type Day,
+  type Occurrence,
+} from "@/lib/calendar";
+import { moveToAllDay, moveToDay, moveToTime } from "@/lib/edits";
+
+export type CalendarMode = "month" | "week";
+
+type Props = {
+  mode: CalendarMode;
+  rows: { e: ParsedEvent; i: number }[]; // the table's visible rows
+  timeZone: string;
+  colors: Record<Category, string>;
+  onMode: (mode: CalendarMode) => void;
+  /** The event at row `index` after a drag, to apply like any table edit */
+  onMove: (index: number, moved: ParsedEvent) => void;
+};
+
+// Our own type, so text dragged in from elsewhere is not taken for an event
+const DRAG_TYPE = "application/x-syllabus-event";
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTH_LIMIT = 3; // events per month cell before "+N more"
+const HOUR_PX = 40;
+const SNAP_MINUTES = 15;
+const MIN_MINUTES = 30; // deadlines and short events still get a clickable block
+
+/** Month grid and week agenda of the events; drag an event to another day or time */
+export default function CalendarView({ mode, rows, timeZone, colors, onMode, onMove }: Props) {
+  const [cursor, setCursor] = useState<Day | null>(null);
+  const [target, setTarget] = useState<string | null>(null);
+  const grabOffset = useRef(0); // px between the pointer and the top of the dragged block
+
+  const today = dayOf(new Date(), timeZone);
+  // Opens on the first event, so a freshly parsed term is in view
+  const shown = cursor ?? firstDay(rows, timeZone) ?? today;
+  const days = mode === "month" ? monthWeeks(shown).flat() : weekOf(shown);
+  const placed = occurrences(rows, days[0], days[days.length - 1], timeZone);
+  const on = (day: Day) =>
+    placed
+      .filter((o) => o.days.includes(day))
+      .sort((a, b) => Number(!a.event.allDay) - Number(!b.event.allDay));
+
+  function step(n: number) {
+    setCursor(mode === "month" ? shiftMonth(shown, n) : addDays(shown, 7 * n));
+  }
+
+  function openWeek(day: Day) {
+    setCursor(day);
+    onMode("week");
+  }
+
+  function dragStart(ev: DragEvent<HTMLElement>, o: Occurrence) {
+    ev.dataTransfer.setData(DRAG_TYPE, String(o.index));
+    ev.dataTransfer.effectAllowed = "move";
+    grabOffset.current = ev.clientY - ev.currentTarget.getBoundingClientRect().top;
+  }
+
+  /** Props that make an element a drop target; time columns also track the slot under it */
+  function dropZone(
+    key: string,
+    move: (e: ParsedEvent, ev: DragEvent<HTMLElement>) => ParsedEvent,
+    timed = false
+  ) {
+    const accepts = (ev: DragEvent<HTMLElement>) => ev.dataTransfer.types.includes(DRAG_TYPE);
+    return {
+      onDragOver: (ev: DragEvent<HTMLElement>) => {
+        if (!accepts(ev)) return;
+        ev.preventDefault();
+        ev.dataTransfer.dropEffect = "move";
+        setTarget(timed ? `${key}@${slotAt(ev)}` : key);
+      },
+      onDragLeave: (ev: DragEvent<HTMLElement>) => {
+        // Moving onto an event inside the zone is not leaving it
+        if (!ev.currentTarget.contains(ev.relatedTarget as Node | null)) setTarget(null);
+      },
+      onDrop: (ev: DragEvent<HTMLElement>) => {
+        if (!accepts(ev)) return;
+        ev.preventDefault();
+        setTarget(null);
+        const index = Number(ev.dataTransfer.getData(DRAG_TYPE));
+        const row = rows.find((r) => r.i === index);
+        if (row) onMove(index, move(row.e, ev));
+      },
+    };
+  }
+
+  // Week view: the hours shown stretch to fit the week's earliest and latest events
+  const timed = placed.filter((o) => !o.event.allDay);
+  const startMinutes = timed.map((o) => minutesOfDay(o.start, timeZone));
+  const firstHour = Math.min(8, ...startMinutes.map((m) => Math.floor(m / 60)));
+  const lastHour = Math.max(
+    18,
+    ...timed.map((o, n) => Math.min(24, Math.ceil((startMinutes[n] + length(o)) / 60)))
+  );
+  const hours = Array.from({ length: lastHour - firstHour }, (_, n) => firstHour + n);
+
+  /** Minutes past midnight under the pointer (top of the dragged block), snapped */
+  function slotAt(ev: DragEvent<HTMLElement>) {
+    const y = ev.clientY - grabOffset.current - ev.currentTarget.getBoundingClientRect().top;
+    const minutes = firstHour * 60 + (y / HOUR_PX) * 60;
+    const snapped = Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    return Math.min(lastHour * 60 - SNAP_MINUTES, Math.max(firstHour * 60, snapped));
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <button className="border rounded px-2 py-1" onClick={() => step(-1)} aria-label="Previous">
+          ‹
+        </button>
+        <button className="border rounded px-2 py-1" onClick={() => setCursor(today)}>
+          Today
+        </button>
+        <button className="border rounded px-2 py-1" onClick={() => step(1)} aria-label="Next">
+          ›
+        </button>
+        <span className="font-medium">{heading(mode, days)}</span>
+        <span className="text-xs opacity-70">
+          Drag an event to move it. Weekly meetings are edited in the table.
+        </span>
+      </div>
+
+      {mode === "month" ? (
+        <div className="grid grid-cols-7 border-l border-t text-xs">
+          {WEEKDAY_LABELS.map((label) => (
+            <div key={label} className="border-r border-b p-1 font-medium bg-black/5">
+              {label}
+            </div>
+          ))}
+          {days.map((day) => {
+            const here = on(day);
+            return (
+              <div
+                key={day}
+                {...dropZone(day, (e) => moveToDay(e, day, timeZone))}
+                className={`border-r border-b min-h-24 p-1 space-y-0.5 ${dayClass(day, shown)} ${
+                  target === day ? "ring-2 ring-inset ring-blue-400" : ""
+                }`}
+              >
+                <button
+                  className={`block ${day === today ? "font-bold text-blue-600" : ""}`}
+                  onClick={() => openWeek(day)}
+                  title="Show this week"
+                >
+                  {Number(day.slice(8))}
+                </button>
+                {here.slice(0, MONTH_LIMIT).map((o) => (
+                  <Chip
+                    key={`${o.index}-${o.start.getTime()}`}
+                    o={o}
+                    color={color(o.event, colors)}
+                    timeZone={timeZone}
+                    onDragStart={dragStart}
+                  />
+                ))}
+                {here.length > MONTH_LIMIT && (
+                  <button className="underline opacity-70" onClick={() => openWeek(day)}>
+                    +{here.length - MONTH_LIMIT} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] border-l border-t text-xs">
+          <div className="border-r border-b bg-black/5" />
+          {days.map((day) => (
+            <div
+              key={day}
+              className={`border-r border-b p-1 font-medium bg-black/5 ${
+                day === today ? "text-blue-600" : ""
+              }`}
+            >
+              {WEEKDAY_LABELS[weekdayOf(day)]} {Number(day.slice(8))}
+            </div>
+          ))}
+
+          <div className="border-r border-b p-1 opacity-70">all-day</div>
+          {days.map((day) => (
+            <div
+              key={day}
+              {...dropZone(`all:${day}`, (e) => moveToAllDay(e, day, timeZone))}
+              className={`border-r border-b p-1 space-y-0.5 min-h-8 ${dayClass(day)} ${
+                target === `all:${day}` ? "ring-2 ring-inset ring-blue-400" : ""
+              }`}
+            >
+              {on(day)
+                .filter((o) => o.event.allDay)
+                .map((o) => (
+                  <Chip
+                    key={`${o.index}-${o.start.getTime()}`}
+                    o={o}
+                    color={color(o.event, colors)}
+                    timeZone={timeZone}
+                    onDragStart={dragStart}
+                  />
+                ))}
+            </div>
+          ))}
+
+          <div className="border-r">
+            {hours.map((h) => (
+              <div
+                key={h}
+                className="border-b px-1 text-right opacity-70"
+                style={{ height: HOUR_PX }}
+              >
+                {h % 12 || 12}
+                {h < 12 ? "am" : "pm"}
+              </div>
+            ))}
+          </div>
+          {days.map((day) => {
+            const list = on(day).filter((o) => !o.event.allDay);
+            const lanes = laneOf(list);
+            const laneCount = Math.max(1, ...lanes.map((l) => l + 1));
+            const slot = target?.startsWith(`${day}@`) ? Number(target.split("@")[1]) : null;
+            return (
+              <div
+                key={day}
+                {...dropZone(day, (e, ev) => moveToTime(e, day, slotAt(ev), timeZone), true)}
+                className={`relative border-r ${dayClass(day)}`}
+                style={{ height: hours.length * HOUR_PX }}
+              >
+                {hours.map((h) => (
+                  <div
+                    key={h}
+                    className="border-b border-black/10"
+                    style={{ height: HOUR_PX }}
+                  />
+                ))}
+                {slot !== null && (
+                  <div
+                    className="absolute inset-x-0 border-t-2 border-blue-400 pointer-events-none"
+                    style={{ top: ((slot - firstHour * 60) / 60) * HOUR_PX }}
+                  />
+                )}
+                {list.map((o, n) => {
+                  const top = ((minutesOfDay(o.start, timeZone) - firstHour * 60) / 60) * HOUR_PX;
+                  const height = Math.min(
+                    (Math.max(MIN_MINUTES, length(o)) / 60) * HOUR_PX,
+                    hours.length * HOUR_PX - top
+                  );
+                  return (
+                    <div
+                      key={`${o.index}-${o.start.getTime()}`}
+                      className="absolute p-px"
+                      style={{
+                        top,
+                        height,
+                        left: `${(lanes[n] / laneCount) * 100}%`,
+                        width: `${100 / laneCount}%`,
+                      }}
+                    >
+                      <Chip
+                        o={o}
+                        color={color(o.event, colors)}
+                        timeZone={timeZone}
+                        onDragStart={dragStart}
+                        block
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Chip(props: {
+  o: Occurrence;
+  color?: string;
+  timeZone: string;
+  onDragStart: (ev: DragEvent<HTMLElement>, o: Occurrence) => void;
+  block?: boolean;
+}) {
+  const { o, timeZone } = props;
+  const e = o.event;
+  const time = e.allDay ? "" : formatTime(o.start, timeZone);
+  // Dates the parser was unsure about stand out, as they do in the table
+  const flagged = !!(e.outsideTerm || e.altStart);
+  const hint = o.series ? " (weekly meeting: edit the series in the table)" : "";
+  return (
+    <div
+      draggable={!o.series}
+      onDragStart={(ev) => props.onDragStart(ev, o)}
+      title={`${time ? `${time} ` : ""}${e.title}${hint}`}
+      className={`rounded px-1 truncate border-l-4 bg-black/5 ${
+        props.block ? "h-full overflow-hidden whitespace-normal" : ""
+      } ${o.series ? "opacity-70" : "cursor-grab"} ${flagged ? "ring-1 ring-amber-500" : ""}`}
+      style={{ borderLeftColor: props.color ?? "gray" }}
+    >
+      {time && <span className="opacity-70">{time} </span>}
+      {e.title}
+    </div>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+function firstDay(rows: { e: ParsedEvent }[], timeZone: string) {
+  const times = rows.map(({ e }) => e.start.getTime()).filter((t) => !Number.isNaN(t));
+  return times.length ? dayOf(new Date(Math.min(...times)), timeZone) : undefined;
+}
+
+/** First day of the month `n` months from the one `day` is in */
+function shiftMonth(day: Day, n: number): Day {
+  const d = new Date(`${day.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Weekends are shaded, so an exam parsed onto a Sunday is easy to spot */
+function dayClass(day: Day, month?: Day) {
+  const weekend = weekdayOf(day) === 0 || weekdayOf(day) === 6;
+  const otherMonth = month && day.slice(0, 7) !== month.slice(0, 7);
+  return `${weekend ? "bg-black/[0.04]" : ""} ${otherMonth ? "opacity-50" : ""}`;
+}
+
+function heading(mode: CalendarMode, days: Day[]) {
+  const fmt = (day: Day, opts: Intl.DateTimeFormatOptions) =>
+    new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", { timeZone: "UTC", ...opts });
+  if (mode === "month") return fmt(days[15], { month: "long", year: "numeric" });
+  const first = days[0];
+  const last = days[days.length - 1];
+  return `${fmt(first, { month: "short", day: "numeric" })} – ${fmt(last, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })}`;
+}
+
+function formatTime(d: Date, timeZone: string) {
+  return d.toLocaleTimeString("en-US", { timeZone, hour: "numeric", minute: "2-digit" });
+}
+
+function length(o: Occurrence) {
+  return o.end ? Math.max(0, (o.end.getTime() - o.start.getTime()) / 60000) : 0;
+}
+
+function color(e: ParsedEvent, colors: Record<Category, string>) {
+  return e.category ? colors[e.category] : undefined;
+}
+
+/** Side-by-side column for each of a day's timed events, so overlaps stay readable */
+function laneOf(list: Occurrence[]) {
+  const ends: number[] = [];
+  return list.map((o) => {
+    const start = o.start.getTime();
+    const end = start + Math.max(MIN_MINUTES, length(o)) * 60000;
+    let lane = ends.findIndex((e) => e <= start);
+    if (lane < 0) lane = ends.push(0) - 1;
+    ends[lane] = end;
+    return lane;
+  });
+}
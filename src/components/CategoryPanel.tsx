@@ -0,0 +1,104 @@
+// src/components/CategoryPanel.tsx
+"use client";
+
+import {
+  CATEGORIES,
+  CATEGORY_LABELS,
+  COLOR_CHOICES,
+  type Category,
+} from "@/lib/categories";
+import type { ParsedEvent } from "@/types";
+
+// Uncategorized events get their own bucket so they can be filtered too
+export type CategoryKey = Category | "none";
+
+export const CATEGORY_KEYS: CategoryKey[] = [...CATEGORIES, "none"];
+
+export function categoryKey(e: Pick<ParsedEvent, "category">): CategoryKey {
+  return e.category ?? "none";
+}
+
+type Props = {
+  events: ParsedEvent[];
+  colors: Record<Category, string>;
+  onColor: (category: Category, color: string) => void;
+  hidden: Set<CategoryKey>;
+  onToggleHidden: (key: CategoryKey) => void;
+  exported: Set<CategoryKey>;
+  onToggleExported: (key: CategoryKey) => void;
+};
+
+/** Per-category counts with show/hide, color and include-in-export controls */
+export default function CategoryPanel({
+  events,
+  colors,
+  onColor,
+  hidden,
+  onToggleHidden,
+  exported,
+  onToggleExported,
+}: Props) {
+  const counts = new Map<CategoryKey, number>();
+  for (const e of events) counts.set(categoryKey(e), (counts.get(categoryKey(e)) ?? 0) + 1);
+
+  return (
+    <div className="border rounded overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-black/5">
+          <tr>
+            <th className="text-left p-2">Category</th>
+            <th className="text-left p-2">Events</th>
+            <th className="text-left p-2">Color</th>
+            <th className="text-left p-2">Show</th>
+            <th className="text-left p-2">Export</th>
+          </tr>
+        </thead>
+        <tbody>
+          {CATEGORY_KEYS.filter((k) => counts.has(k)).map((key) => (
+            <tr key={key} className="border-t">
+              <td className="p-2">
+                <span className="inline-flex items-center gap-2">
+                  <span
+                    className="inline-block w-3 h-3 rounded-full"
+                    style={{ background: key === "none" ? "transparent" : colors[key] }}
+                  />
+                  {key === "none" ? "Uncategorized" : CATEGORY_LABELS[key]}
+                </span>
+              </td>
+              <td className="p-2">{counts.get(key)}</td>
+              <td className="p-2">
+                {key !== "none" && (
+                  <select
+                    className="bg-transparent border rounded px-1 py-0.5 text-xs"
+                    value={colors[key]}
+                    onChange={(ev) => onColor(key, ev.target.value)}
+                  >
+                    {COLOR_CHOICES.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </td>
+              <td className="p-2">
+                <input
+                  type="checkbox"
+                  checked={!hidden.has(key)}
+                  onChange={() => onToggleHidden(key)}
+                />
+              </td>
+              <td className="p-2">
+                <input
+                  type="checkbox"
+                  checked={exported.has(key)}
+                  onChange={() => onToggleExported(key)}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
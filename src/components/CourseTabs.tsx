@@ -0,0 +1,143 @@
+// src/components/CourseTabs.tsx
+"use client";
+
+import type { ParsedEvent, RejectedLine } from "@/types";
+import { COLOR_CHOICES } from "@/lib/categories";
+import { courseColor, type CourseInfo } from "@/lib/courses";
+import { currentTermName } from "@/lib/term";
+import type { DateOrderChoice, LocaleId } from "@/lib/locales";
+import { EMPTY_TERM, type TermSettings } from "@/components/TermEditor";
+
+/** One syllabus in the workspace, with its own parse settings and events */
+export type Course = CourseInfo & {
+  id: string;
+  color: string;
+  input: string;
+  fileName: string | null;
+  termName: string; // "Fall 2026", decides the year of dates written without one
+  locale: LocaleId; // language the syllabus is written in
+  dateOrder: DateOrderChoice; // how 03/04 is read; "auto" works it out from the text
+  profile: string; // name of the saved parser profile; "" for the default
+  term: TermSettings;
+  events: ParsedEvent[];
+  rejected: RejectedLine[]; // lines the last parse skipped
+};
+
+let nextId = 0;
+
+export function newCourse(index: number): Course {
+  return {
+    id: `course-${Date.now().toString(36)}-${nextId++}`,
+    code: "",
+    name: "",
+    color: courseColor(index),
+    input: "",
+    fileName: null,
+    termName: currentTermName(),
+    locale: "en-US",
+    dateOrder: "auto",
+    profile: "",
+    term: EMPTY_TERM,
+    events: [],
+    rejected: [],
+  };
+}
+
+/** Label for a tab: the code, the name, or its position */
+export function courseLabel(course: Course, index: number) {
+  return course.code.trim() || course.name?.trim() || `Course ${index + 1}`;
+}
+
+type Props = {
+  courses: Course[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onChange: (id: string, patch: Partial<Course>) => void;
+};
+
+/** Tabs for switching courses, plus code, name and color of the selected one */
+export default function CourseTabs({
+  courses,
+  activeId,
+  onSelect,
+  onAdd,
+  onRemove,
+  onChange,
+}: Props) {
+  const active = courses.find((c) => c.id === activeId) ?? courses[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2" role="tablist">
+        {courses.map((c, i) => (
+          <button
+            key={c.id}
+            role="tab"
+            aria-selected={c.id === active.id}
+            className={`border rounded px-3 py-1 text-sm inline-flex items-center gap-2 ${
+              c.id === active.id ? "bg-black/10 font-medium" : ""
+            }`}
+            onClick={() => onSelect(c.id)}
+          >
+            <span className="inline-block w-3 h-3 rounded-full" style={{ background: c.color }} />
+            {courseLabel(c, i)}
+            {c.events.length > 0 && <span className="opacity-60">{c.events.length}</span>}
+          </button>
+        ))}
+        <button className="border rounded px-3 py-1 text-sm" onClick={onAdd}>
+          + Add course
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[8rem_1fr_9rem_auto] gap-2 items-end">
+        <label className="space-y-1 text-xs">
+          <span className="block">Course code</span>
+          <input
+            className="w-full border rounded px-2 py-1 bg-transparent text-sm"
+            placeholder="CS 101"
+            value={active.code}
+            onChange={(ev) => onChange(active.id, { code: ev.target.value })}
+          />
+        </label>
+        <label className="space-y-1 text-xs">
+          <span className="block">Course name</span>
+          <input
+            className="w-full border rounded px-2 py-1 bg-transparent text-sm"
+            placeholder="Intro to Programming"
+            value={active.name ?? ""}
+            onChange={(ev) => onChange(active.id, { name: ev.target.value })}
+          />
+        </label>
+        <label className="space-y-1 text-xs">
+          <span className="block">Color</span>
+          <select
+            className="w-full border rounded px-2 py-1 bg-transparent text-sm"
+            value={active.color}
+            onChange={(ev) => onChange(active.id, { color: ev.target.value })}
+          >
+            {!COLOR_CHOICES.includes(active.color) && (
+              <option value={active.color}>{active.color}</option>
+            )}
+            {COLOR_CHOICES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="text-sm underline disabled:opacity-50 pb-1"
+          onClick={() => onRemove(active.id)}
+          disabled={courses.length === 1}
+        >
+          Remove
+        </button>
+      </div>
+      <div className="text-xs opacity-70">
+        Exported titles start with the course code (e.g. &quot;CS 101: Midterm&quot;).
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+// src/components/DraftsPanel.tsx
+"use client";
+
+import { useState } from "react";
+import { newCourse, type Course } from "@/components/CourseTabs";
+import { encodeShare, reviveEvent, type SerializedEvent } from "@/lib/share";
+
+// The workspace is autosaved on every change; named drafts are snapshots of it
+const WORKSPACE_KEY = "syllabus:workspace";
+const DRAFTS_KEY = "syllabus:drafts";
+
+/** Everything needed to pick up where the user left off */
+export type Workspace = {
+  calName: string;
+  activeId: string;
+  courses: Course[];
+};
+
+export type Draft = {
+  name: string;
+  savedAt: string; // ISO time
+  workspace: Workspace;
+};
+
+type Props = {
+  drafts: Draft[];
+  workspace: Workspace;
+  onChange: (drafts: Draft[]) => void;
+  onRestore: (workspace: Workspace) => void;
+};
+
+/** Save and restore named drafts, and make a share link for the current events */
+export default function DraftsPanel({ drafts, workspace, onChange, onRestore }: Props) {
+  const [name, setName] = useState("");
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const eventCount = workspace.courses.reduce((n, c) => n + c.events.length, 0);
+
+  function store(next: Draft[]) {
+    try {
+      saveDrafts(next);
+      onChange(next);
+      return true;
+    } catch {
+      setMessage("Browser storage is full; delete an old draft and try again.");
+      return false;
+    }
+  }
+
+  function save() {
+    const draftName = name.trim() || workspace.calName.trim() || "Untitled draft";
+    const replaced = drafts.some((d) => d.name === draftName);
+    const draft = { name: draftName, savedAt: new Date().toISOString(), workspace };
+    if (!store([draft, ...drafts.filter((d) => d.name !== draftName)])) return;
+    setName("");
+    setMessage(`${replaced ? "Updated" : "Saved"} draft "${draftName}".`);
+  }
+
+  async function share() {
+    setMessage(null);
+    try {
+      const fragment = await encodeShare(workspace);
+      const url = `${location.origin}${location.pathname}${fragment}`;
+      setShareUrl(url);
+      await navigator.clipboard.writeText(url);
+      setMessage("Share link copied.");
+    } catch {
+      setMessage("Copy failed; select the link and copy it manually.");
+    }
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">Drafts</span>
+        <input
+          className="border rounded px-2 py-1 bg-transparent"
+          placeholder={workspace.calName || "Draft name"}
+          value={name}
+          onChange={(ev) => setName(ev.target.value)}
+          aria-label="Draft name"
+        />
+        <button className="border rounded px-3 py-1" onClick={save}>
+          Save draft
+        </button>
+        <button
+          className="border rounded px-3 py-1 disabled:opacity-50"
+          onClick={share}
+          disabled={eventCount === 0}
+        >
+          Share link
+        </button>
+        <span className="text-xs opacity-70">Your work is saved in this browser as you go.</span>
+      </div>
+      {message && <div className="text-xs text-amber-700">{message}</div>}
+
+      {shareUrl && (
+        <input
+          className="w-full border rounded px-2 py-1 bg-transparent text-xs font-mono"
+          value={shareUrl}
+          readOnly
+          onFocus={(ev) => ev.target.select()}
+          aria-label="Share link"
+        />
+      )}
+
+      {drafts.length > 0 && (
+        <ul className="space-y-1">
+          {drafts.map((d) => (
+            <li key={d.name} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{d.name}</span>
+              <span className="text-xs opacity-70">
+                {new Date(d.savedAt).toLocaleString()} · {summary(d.workspace)}
+              </span>
+              <button className="underline" onClick={() => onRestore(d.workspace)}>
+                Restore
+              </button>
+              <button
+                className="underline text-red-600"
+                onClick={() => store(drafts.filter((x) => x.name !== d.name))}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+export function loadWorkspace(): Workspace | null {
+  try {
+    return readWorkspace(JSON.parse(localStorage.getItem(WORKSPACE_KEY) || "null"));
+  } catch {
+    return null;
+  }
+}
+
+/** False when the browser refused (storage full or disabled) */
+export function saveWorkspace(workspace: Workspace) {
+  try {
+    localStorage.setItem(WORKSPACE_KEY, JSON.stringify(workspace));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function loadDrafts(): Draft[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(DRAFTS_KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((d) => {
+      const workspace = readWorkspace(d?.workspace);
+      if (!workspace || typeof d.name !== "string") return [];
+      return [{ name: d.name, savedAt: String(d.savedAt ?? ""), workspace }];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/** Throws when storage is full */
+export function saveDrafts(drafts: Draft[]) {
+  localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+}
+
+/** Workspace from JSON; fields missing from older saves get today's defaults */
+function readWorkspace(raw: unknown): Workspace | null {
+  const w = raw as Partial<Record<keyof Workspace, unknown>> | null;
+  if (!w || typeof w !== "object" || !Array.isArray(w.courses) || w.courses.length === 0) {
+    return null;
+  }
+  const courses = (w.courses as (Partial<Course> & { events?: SerializedEvent[] })[]).map(
+    (c, i) => ({
+      ...newCourse(i),
+      ...c,
+      events: (c.events ?? []).map(reviveEvent),
+      rejected: c.rejected ?? [],
+    })
+  );
+  const activeId = courses.some((c) => c.id === w.activeId) ? String(w.activeId) : courses[0].id;
+  return { calName: typeof w.calName === "string" ? w.calName : "", activeId, courses };
+}
+
+function summary(w: Workspace) {
+  const events = w.courses.reduce((n, c) => n + c.events.length, 0);
+  const courses = w.courses.length;
+  return `${courses} course${courses === 1 ? "" : "s"}, ${events} event${events === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,164 @@
+// src/components/FeedPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Where the edit token for a calendar name's feed is kept (it's only ever shown once)
+const FEED_KEY = "syllabus:feed:";
+
+type Feed = { id: string; token: string; feedUrl: string };
+
+type Props = {
+  calName: string;
+  timeZone: string;
+  /** Events to publish, in the same shape /api/export takes */
+  body: () => unknown;
+  disabled?: boolean;
+};
+
+/** Publish the events as a subscription URL and push later edits to it */
+export default function FeedPanel({ calName, timeZone, body, disabled }: Props) {
+  const [feed, setFeed] = useState<Feed | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFeed(loadFeed(calName));
+    setStatus(null);
+  }, [calName]);
+
+  async function send(method: "POST" | "PUT" | "DELETE") {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const params = new URLSearchParams({ calendar: calName, tz: timeZone });
+      const url = method === "POST" ? "/api/calendars" : `/api/calendars/${feed!.id}`;
+      const res = await fetch(`${url}?${params}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(feed && method !== "POST" ? { Authorization: `Bearer ${feed.token}` } : {}),
+        },
+        body: method === "DELETE" ? undefined : JSON.stringify(body()),
+      });
+
+      if (res.status === 404 || (res.status === 403 && method !== "POST")) {
+        // The feed is gone or the token no longer matches; start over with a new one
+        saveFeed(calName, null);
+        setFeed(null);
+        setStatus(
+          res.status === 404
+            ? "That feed no longer exists. Create a new subscription link."
+            : "The saved edit token was rejected. Create a new subscription link."
+        );
+        return;
+      }
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `Request failed (${res.status})`);
+      }
+
+      if (method === "POST") {
+        const created: Feed = await res.json();
+        saveFeed(calName, created);
+        setFeed(created);
+        setStatus("Feed published. Subscribe to the link in your calendar app.");
+      } else if (method === "PUT") {
+        const { events } = await res.json();
+        setStatus(`Feed updated with ${events} event${events === 1 ? "" : "s"}.`);
+      } else {
+        saveFeed(calName, null);
+        setFeed(null);
+        setStatus("Feed deleted.");
+      }
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Could not reach the server.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus("Link copied.");
+    } catch {
+      setStatus("Copy failed; select the link and copy it manually.");
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Subscription feed</div>
+      {feed ? (
+        <>
+          <div className="flex gap-2">
+            <input
+              className="flex-1 border rounded px-2 py-1 bg-transparent text-sm font-mono"
+              value={feed.feedUrl}
+              readOnly
+              onFocus={(ev) => ev.target.select()}
+              aria-label="Feed URL"
+            />
+            <button className="border rounded px-3 py-1 text-sm" onClick={() => copy(feed.feedUrl)}>
+              Copy
+            </button>
+            <a
+              className="border rounded px-3 py-1 text-sm"
+              href={feed.feedUrl.replace(/^https?:/, "webcal:")}
+            >
+              Subscribe
+            </a>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              className="border rounded px-3 py-1 text-sm disabled:opacity-50"
+              onClick={() => send("PUT")}
+              disabled={disabled || busy}
+            >
+              {busy ? "Saving..." : "Update feed"}
+            </button>
+            <button
+              className="text-sm underline disabled:opacity-50"
+              onClick={() => send("DELETE")}
+              disabled={busy}
+            >
+              Stop publishing
+            </button>
+          </div>
+        </>
+      ) : (
+        <button
+          className="border rounded px-3 py-1 text-sm disabled:opacity-50"
+          onClick={() => send("POST")}
+          disabled={disabled || busy}
+        >
+          {busy ? "Publishing..." : "Create subscription link"}
+        </button>
+      )}
+      <div className="text-xs opacity-70">
+        {status ??
+          "Calendar apps that subscribe to the link pick up changes when you update the feed."}
+      </div>
+    </div>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+function loadFeed(calName: string): Feed | null {
+  try {
+    return JSON.parse(localStorage.getItem(FEED_KEY + calName) || "null");
+  } catch {
+    return null;
+  }
+}
+
+function saveFeed(calName: string, feed: Feed | null) {
+  try {
+    if (feed) localStorage.setItem(FEED_KEY + calName, JSON.stringify(feed));
+    else localStorage.removeItem(FEED_KEY + calName);
+  } catch {
+    // storage disabled: the link still works, it just can't be updated from this browser
+  }
+}
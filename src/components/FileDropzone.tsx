@@ -0,0 +1,61 @@
+// src/components/FileDropzone.tsx
+"use client";
+
+import { useRef, useState } from "react";
+
+const ACCEPT = ".pdf,.docx,.html,.htm,.txt,.md,.ics";
+
+type Props = {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+  fileName?: string | null;
+};
+
+/** Drag-and-drop (or click-to-browse) target for syllabus files */
+export default function FileDropzone({ onFile, disabled, fileName }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  function pick(files: FileList | null) {
+    const file = files?.[0];
+    if (file && !disabled) onFile(file);
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      className={`h-48 border-2 border-dashed rounded px-3 py-2 flex flex-col items-center justify-center text-center text-sm cursor-pointer ${
+        dragging ? "bg-black/5" : ""
+      } ${disabled ? "opacity-50 cursor-wait" : ""}`}
+      onClick={() => inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" || e.key === " ") inputRef.current?.click();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        pick(e.dataTransfer.files);
+      }}
+    >
+      <div className="font-medium">Drop a syllabus file</div>
+      <div className="text-xs opacity-70">PDF, DOCX, HTML or .ics — or click to browse</div>
+      {fileName && <div className="text-xs mt-2 break-all">{fileName}</div>}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          pick(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
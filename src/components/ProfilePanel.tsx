@@ -0,0 +1,390 @@
+// src/components/ProfilePanel.tsx
+"use client";
+
+import { useState } from "react";
+import { CATEGORIES, CATEGORY_LABELS, type Category } from "@/lib/categories";
+import { DEFAULT_TITLE_TEMPLATE } from "@/lib/context";
+import {
+  DEFAULT_PROFILE,
+  isProfileError,
+  readProfile,
+  type ParserProfile,
+} from "@/lib/profiles";
+
+// Saved profiles live in the browser; export/import moves them between machines
+const PROFILES_KEY = "syllabus:profiles";
+
+type Props = {
+  profiles: ParserProfile[];
+  selected: string; // profile name; "" is the built-in default
+  onSelect: (name: string) => void;
+  onChange: (profiles: ParserProfile[]) => void;
+};
+
+// Text-field version of a profile: one entry per line, "pattern -> category" for rules
+type Form = {
+  name: string;
+  keywords: string;
+  deadlineWords: string;
+  ignore: string;
+  categoryRules: string;
+  titleCleanup: string;
+  titleTemplate: string;
+  defaultTime: string;
+  defaultDurationMinutes: string;
+  categoryDefaults: Record<Category, { time: string; duration: string }>;
+};
+
+/** Pick, edit, export and import parser profiles */
+export default function ProfilePanel({ profiles, selected, onSelect, onChange }: Props) {
+  const [form, setForm] = useState<Form | null>(null);
+  const [editing, setEditing] = useState<string | null>(null); // name being edited
+  const [message, setMessage] = useState<string | null>(null);
+
+  const current = profiles.find((p) => p.name === selected);
+
+  function store(next: ParserProfile[]) {
+    saveProfiles(next);
+    onChange(next);
+  }
+
+  function startEditing(profile: ParserProfile | undefined) {
+    setMessage(null);
+    setEditing(profile?.name ?? null);
+    setForm(toForm(profile ?? { ...DEFAULT_PROFILE, name: uniqueName("New profile") }));
+  }
+
+  function uniqueName(base: string) {
+    let name = base;
+    for (let n = 2; profiles.some((p) => p.name === name); n++) name = `${base} ${n}`;
+    return name;
+  }
+
+  function save() {
+    if (!form) return;
+    const result = readProfile(fromForm(form));
+    if (isProfileError(result)) return setMessage(result.error);
+    if (result.name !== editing && profiles.some((p) => p.name === result.name)) {
+      return setMessage(`A profile called "${result.name}" already exists.`);
+    }
+    const rest = profiles.filter((p) => p.name !== editing);
+    store([...rest, result].sort((a, b) => a.name.localeCompare(b.name)));
+    onSelect(result.name);
+    setForm(null);
+    setMessage(null);
+  }
+
+  function remove() {
+    if (!current) return;
+    store(profiles.filter((p) => p.name !== current.name));
+    onSelect("");
+    setForm(null);
+  }
+
+  function exportProfile() {
+    if (!current) return;
+    const blob = new Blob([JSON.stringify(current, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${current.name.replace(/[\\/:*?"<>|]+/g, "_")}.profile.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function importProfile(file: File) {
+    setMessage(null);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      return setMessage(`${file.name} is not valid JSON.`);
+    }
+    const result = readProfile(raw);
+    if (isProfileError(result)) return setMessage(`${file.name}: ${result.error}`);
+    // Importing a profile with a known name replaces it, so updated profiles can be shared
+    const replaced = profiles.some((p) => p.name === result.name);
+    store(
+      [...profiles.filter((p) => p.name !== result.name), result].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+    );
+    onSelect(result.name);
+    setMessage(`${replaced ? "Updated" : "Imported"} profile "${result.name}".`);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="font-medium" htmlFor="parser-profile">
+          Parser profile
+        </label>
+        <select
+          id="parser-profile"
+          className="border rounded px-2 py-1 bg-transparent"
+          value={current ? selected : ""}
+          onChange={(ev) => {
+            onSelect(ev.target.value);
+            setForm(null);
+          }}
+        >
+          <option value="">Default</option>
+          {profiles.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button className="underline" onClick={() => startEditing(undefined)}>
+          New
+        </button>
+        {current && (
+          <>
+            <button className="underline" onClick={() => startEditing(current)}>
+              Edit
+            </button>
+            <button className="underline" onClick={exportProfile}>
+              Export
+            </button>
+            <button className="underline text-red-600" onClick={remove}>
+              Delete
+            </button>
+          </>
+        )}
+        <label className="underline cursor-pointer">
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(ev) => {
+              const file = ev.target.files?.[0];
+              if (file) importProfile(file);
+              ev.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {message && <div className="text-xs text-amber-700">{message}</div>}
+
+      {form && (
+        <div className="border rounded p-3 space-y-3 text-sm">
+          <label className="block space-y-1">
+            <span className="text-xs">Name</span>
+            <input
+              className="w-full border rounded px-2 py-1 bg-transparent"
+              value={form.name}
+              onChange={(ev) => setForm({ ...form, name: ev.target.value })}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <ListField
+              label="Extra event words"
+              hint="One per line, e.g. problem set"
+              value={form.keywords}
+              onChange={(keywords) => setForm({ ...form, keywords })}
+            />
+            <ListField
+              label="Deadline words"
+              hint="One per line, e.g. hand in"
+              value={form.deadlineWords}
+              onChange={(deadlineWords) => setForm({ ...form, deadlineWords })}
+            />
+            <ListField
+              label="Ignore lines matching"
+              hint="Regular expressions, e.g. ^office hours"
+              value={form.ignore}
+              onChange={(ignore) => setForm({ ...form, ignore })}
+            />
+            <ListField
+              label="Category rules"
+              hint="pattern -> category, e.g. design review -> presentation"
+              value={form.categoryRules}
+              onChange={(categoryRules) => setForm({ ...form, categoryRules })}
+            />
+            <ListField
+              label="Title cleanup"
+              hint="pattern -> replacement, e.g. \(see canvas\) ->"
+              value={form.titleCleanup}
+              onChange={(titleCleanup) => setForm({ ...form, titleCleanup })}
+            />
+            <div className="space-y-2">
+              <label className="block space-y-1">
+                <span className="text-xs">Title template</span>
+                <input
+                  className="w-full border rounded px-2 py-1 bg-transparent font-mono text-xs"
+                  placeholder={DEFAULT_TITLE_TEMPLATE}
+                  value={form.titleTemplate}
+                  onChange={(ev) => setForm({ ...form, titleTemplate: ev.target.value })}
+                  title="Placeholders: {course}, {name}, {title}, {topic}, {section}"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs">Deadline time when none is given</span>
+                <input
+                  type="time"
+                  className="w-full border rounded px-2 py-1 bg-transparent"
+                  value={form.defaultTime}
+                  onChange={(ev) => setForm({ ...form, defaultTime: ev.target.value })}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs">Event length (minutes)</span>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full border rounded px-2 py-1 bg-transparent"
+                  value={form.defaultDurationMinutes}
+                  onChange={(ev) => setForm({ ...form, defaultDurationMinutes: ev.target.value })}
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs">Per category (used when the syllabus gives no time)</div>
+            <div className="grid grid-cols-[8rem_7rem_7rem] gap-x-2 gap-y-1 items-center">
+              {CATEGORIES.map((c) => (
+                <CategoryRow
+                  key={c}
+                  label={CATEGORY_LABELS[c]}
+                  value={form.categoryDefaults[c]}
+                  onChange={(v) =>
+                    setForm({ ...form, categoryDefaults: { ...form.categoryDefaults, [c]: v } })
+                  }
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button className="border rounded px-3 py-1" onClick={save}>
+              Save profile
+            </button>
+            <button className="underline" onClick={() => setForm(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ListField(props: {
+  label: string;
+  hint: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs">{props.label}</span>
+      <textarea
+        className="w-full h-20 border rounded px-2 py-1 bg-transparent font-mono text-xs"
+        placeholder={props.hint}
+        value={props.value}
+        onChange={(ev) => props.onChange(ev.target.value)}
+      />
+    </label>
+  );
+}
+
+function CategoryRow(props: {
+  label: string;
+  value: { time: string; duration: string };
+  onChange: (value: { time: string; duration: string }) => void;
+}) {
+  const { value, onChange } = props;
+  return (
+    <>
+      <span className="text-xs">{props.label}</span>
+      <input
+        type="time"
+        className="border rounded px-1 py-0.5 bg-transparent text-xs"
+        value={value.time}
+        onChange={(ev) => onChange({ ...value, time: ev.target.value })}
+        aria-label={`${props.label} time`}
+      />
+      <input
+        type="number"
+        min={1}
+        placeholder="minutes"
+        className="border rounded px-1 py-0.5 bg-transparent text-xs"
+        value={value.duration}
+        onChange={(ev) => onChange({ ...value, duration: ev.target.value })}
+        aria-label={`${props.label} length in minutes`}
+      />
+    </>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+export function loadProfiles(): ParserProfile[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PROFILES_KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.map(readProfile).filter((p): p is ParserProfile => !isProfileError(p));
+  } catch {
+    return [];
+  }
+}
+
+function saveProfiles(profiles: ParserProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+function toForm(p: ParserProfile): Form {
+  const categoryDefaults = {} as Form["categoryDefaults"];
+  for (const c of CATEGORIES) {
+    const d = p.categoryDefaults[c];
+    categoryDefaults[c] = { time: d?.time ?? "", duration: d?.durationMinutes?.toString() ?? "" };
+  }
+  return {
+    name: p.name,
+    keywords: p.keywords.join("\n"),
+    deadlineWords: p.deadlineWords.join("\n"),
+    ignore: p.ignore.join("\n"),
+    categoryRules: p.categoryRules.map((r) => `${r.pattern} -> ${r.category}`).join("\n"),
+    titleCleanup: p.titleCleanup.map((r) => `${r.pattern} -> ${r.replace}`).join("\n"),
+    titleTemplate: p.titleTemplate,
+    defaultTime: p.defaultTime,
+    defaultDurationMinutes: String(p.defaultDurationMinutes),
+    categoryDefaults,
+  };
+}
+
+/** Back to profile JSON; readProfile does the validating */
+function fromForm(f: Form) {
+  const lines = (s: string) => s.split("\n").filter((l) => l.trim());
+  return {
+    name: f.name,
+    keywords: lines(f.keywords),
+    deadlineWords: lines(f.deadlineWords),
+    ignore: lines(f.ignore),
+    // The category is a single word, so split at the last arrow
+    categoryRules: lines(f.categoryRules).map((l) => {
+      const at = l.lastIndexOf("->");
+      return at < 0
+        ? { pattern: l.trim(), category: "" }
+        : { pattern: l.slice(0, at).trim(), category: l.slice(at + 2).trim().toLowerCase() };
+    }),
+    // Replacements are often empty ("pattern ->"), so split at the first arrow
+    titleCleanup: lines(f.titleCleanup).map((l) => {
+      const at = l.indexOf(" ->");
+      return at < 0
+        ? { pattern: l, replace: "" }
+        : { pattern: l.slice(0, at), replace: l.slice(at + 3).replace(/^ /, "") };
+    }),
+    titleTemplate: f.titleTemplate,
+    defaultTime: f.defaultTime,
+    defaultDurationMinutes: f.defaultDurationMinutes || undefined,
+    categoryDefaults: Object.fromEntries(
+      Object.entries(f.categoryDefaults).map(([c, d]) => [
+        c,
+        { time: d.time, durationMinutes: d.duration ? Number(d.duration) : undefined },
+      ])
+    ),
+  };
+}
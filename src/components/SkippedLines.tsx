@@ -0,0 +1,171 @@
+// src/components/SkippedLines.tsx
+"use client";
+
+import { useState } from "react";
+import type { ParsedEvent, RejectedLine } from "@/types";
+import { classify } from "@/lib/categories";
+import { LOCALES, type LocaleId } from "@/lib/locales";
+import { fromZoned, toZoned } from "@/lib/tz";
+
+type Props = {
+  lines: RejectedLine[];
+  timeZone: string;
+  locale: LocaleId;
+  onPromote: (index: number, event: ParsedEvent) => void;
+  onDismiss: (index: number) => void;
+};
+
+type Editing = { index: number; title: string; when: string; allDay: boolean };
+
+/** Lines the parser skipped; suspicious ones can be turned into events by hand */
+export default function SkippedLines({ lines, timeZone, locale, onPromote, onDismiss }: Props) {
+  const [showAll, setShowAll] = useState(false);
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  const rows = lines
+    .map((l, index) => ({ l, index }))
+    .filter(({ l }) => showAll || l.suspicious);
+  const hidden = lines.length - lines.filter((l) => l.suspicious).length;
+  if (lines.length === 0) return null;
+
+  function startEditing(index: number) {
+    const { guess, line } = lines[index];
+    const allDay = guess?.allDay ?? true;
+    const start = guess?.start ? new Date(guess.start) : undefined;
+    setEditing({
+      index,
+      title: guess?.title ?? line,
+      when: start ? toInput(start, timeZone, allDay) : "",
+      allDay,
+    });
+  }
+
+  function save() {
+    if (!editing?.when) return;
+    const { index, title, when, allDay } = editing;
+    const start = fromInput(when, timeZone);
+    const source = lines[index];
+    const { category, confidence } = classify(title, source.line, LOCALES[locale].rules);
+    onPromote(index, {
+      title: title.trim() || "Course Event",
+      start,
+      end: allDay ? undefined : new Date(start.getTime() + 60 * 60000),
+      allDay,
+      sourceLine: source.line,
+      page: source.page,
+      category,
+      confidence: category ? confidence : undefined,
+    });
+    setEditing(null);
+  }
+
+  function dismiss(index: number) {
+    // Indexes shift once a line is gone, so close any open editor
+    setEditing(null);
+    onDismiss(index);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Skipped lines</div>
+        {hidden > 0 && (
+          <button className="text-xs underline" onClick={() => setShowAll((v) => !v)}>
+            {showAll ? "Only show likely events" : `Show all (${hidden} more)`}
+          </button>
+        )}
+      </div>
+      {rows.length === 0 ? (
+        <div className="text-xs opacity-70">Nothing skipped looks like an event.</div>
+      ) : (
+        <ul className="border rounded divide-y text-sm">
+          {rows.map(({ l, index }) =>
+            editing?.index === index ? (
+              <li key={index} className="p-2 space-y-2 bg-black/5">
+                <div className="text-xs opacity-70">{l.line}</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    className="flex-1 min-w-[12rem] border rounded px-2 py-1 bg-transparent"
+                    value={editing.title}
+                    onChange={(ev) => setEditing({ ...editing, title: ev.target.value })}
+                    aria-label="Title"
+                  />
+                  <input
+                    type={editing.allDay ? "date" : "datetime-local"}
+                    className="border rounded px-2 py-1 bg-transparent"
+                    value={editing.when}
+                    onChange={(ev) => setEditing({ ...editing, when: ev.target.value })}
+                    aria-label="Date"
+                  />
+                  <label className="flex items-center gap-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={editing.allDay}
+                      onChange={(ev) =>
+                        setEditing({
+                          ...editing,
+                          allDay: ev.target.checked,
+                          // keep the day when switching between date and date-time inputs
+                          when: ev.target.checked
+                            ? editing.when.slice(0, 10)
+                            : editing.when && `${editing.when.slice(0, 10)}T09:00`,
+                        })
+                      }
+                    />
+                    All-day
+                  </label>
+                  <button
+                    className="border rounded px-3 py-1 disabled:opacity-50"
+                    onClick={save}
+                    disabled={!editing.when}
+                  >
+                    Add event
+                  </button>
+                  <button className="text-xs underline" onClick={() => setEditing(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </li>
+            ) : (
+              <li key={index} className="p-2 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="break-words">{l.line}</div>
+                  <div className="text-xs opacity-70">
+                    {l.reason}
+                    {l.page ? ` · p. ${l.page}` : ""}
+                  </div>
+                </div>
+                <button className="text-xs underline shrink-0" onClick={() => startEditing(index)}>
+                  Promote to event
+                </button>
+                <button className="text-xs opacity-60 shrink-0" onClick={() => dismiss(index)}>
+                  Dismiss
+                </button>
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function toInput(d: Date, timeZone: string, allDay: boolean) {
+  const w = toZoned(d, timeZone);
+  const day = `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+  return allDay ? day : `${day}T${pad(w.hour)}:${pad(w.minute)}`;
+}
+
+/** "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm" on the wall clock of `timeZone` */
+function fromInput(value: string, timeZone: string) {
+  const [date, time = ""] = value.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return fromZoned({ year, month, day, hour: hour || 0, minute: minute || 0 }, timeZone);
+}
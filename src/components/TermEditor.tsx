@@ -0,0 +1,139 @@
+// src/components/TermEditor.tsx
+"use client";
+
+import type { Weekday } from "@/lib/recurrence";
+
+// Dates are "YYYY-MM-DD" strings straight from the date inputs
+export type BreakRow = { name: string; start: string; end: string };
+
+export type TermSettings = {
+  start: string;
+  end: string;
+  meetingDays: Weekday[];
+  breaks: BreakRow[];
+};
+
+export const EMPTY_TERM: TermSettings = { start: "", end: "", meetingDays: [], breaks: [] };
+
+const DAY_BUTTONS: { day: Weekday; label: string }[] = [
+  { day: "MO", label: "Mon" },
+  { day: "TU", label: "Tue" },
+  { day: "WE", label: "Wed" },
+  { day: "TH", label: "Thu" },
+  { day: "FR", label: "Fri" },
+  { day: "SA", label: "Sat" },
+  { day: "SU", label: "Sun" },
+];
+
+type Props = {
+  value: TermSettings;
+  onChange: (value: TermSettings) => void;
+};
+
+/** Term dates, class days and breaks used to place "Week 3" / "Lecture 7" style entries */
+export default function TermEditor({ value, onChange }: Props) {
+  function set(patch: Partial<TermSettings>) {
+    onChange({ ...value, ...patch });
+  }
+
+  function toggleDay(day: Weekday) {
+    const has = value.meetingDays.includes(day);
+    set({
+      meetingDays: has
+        ? value.meetingDays.filter((d) => d !== day)
+        : DAY_BUTTONS.map((b) => b.day).filter((d) => d === day || value.meetingDays.includes(d)),
+    });
+  }
+
+  function updateBreak(index: number, patch: Partial<BreakRow>) {
+    set({ breaks: value.breaks.map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Term start</label>
+          <input
+            type="date"
+            className="w-full border rounded px-3 py-2 bg-transparent"
+            value={value.start}
+            onChange={(e) => set({ start: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Term end</label>
+          <input
+            type="date"
+            className="w-full border rounded px-3 py-2 bg-transparent"
+            value={value.end}
+            onChange={(e) => set({ end: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Class days</label>
+        <div className="flex flex-wrap gap-1">
+          {DAY_BUTTONS.map(({ day, label }) => (
+            <button
+              key={day}
+              type="button"
+              className={`border rounded px-2 py-1 text-sm ${
+                value.meetingDays.includes(day) ? "bg-black text-white" : ""
+              }`}
+              aria-pressed={value.meetingDays.includes(day)}
+              onClick={() => toggleDay(day)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs opacity-70">
+          Leave empty to use the days of the weekly meetings found in the syllabus.
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Breaks</label>
+        {value.breaks.map((b, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              className="flex-1 border rounded px-2 py-1 bg-transparent text-sm"
+              placeholder="Spring break"
+              value={b.name}
+              onChange={(e) => updateBreak(i, { name: e.target.value })}
+            />
+            <input
+              type="date"
+              className="border rounded px-2 py-1 bg-transparent text-sm"
+              value={b.start}
+              onChange={(e) => updateBreak(i, { start: e.target.value })}
+            />
+            <span className="text-sm opacity-70">to</span>
+            <input
+              type="date"
+              className="border rounded px-2 py-1 bg-transparent text-sm"
+              value={b.end}
+              onChange={(e) => updateBreak(i, { end: e.target.value })}
+            />
+            <button
+              type="button"
+              className="border rounded px-2 py-1 text-sm"
+              onClick={() => set({ breaks: value.breaks.filter((_, j) => j !== i) })}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="border rounded px-3 py-1 text-sm"
+          onClick={() => set({ breaks: [...value.breaks, { name: "", start: "", end: "" }] })}
+        >
+          Add break
+        </button>
+      </div>
+    </div>
+  );
+}
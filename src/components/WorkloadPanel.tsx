@@ -0,0 +1,150 @@
+// src/components/WorkloadPanel.tsx
+"use client";
+
+import { useState, type ReactNode } from "react";
+import type { ParsedEvent } from "@/types";
+import type { EventRef, Holiday, WorkloadReport } from "@/lib/analysis";
+
+type Props = {
+  events: ParsedEvent[];
+  timeZone: string;
+  holidays: Holiday[];
+};
+
+// Heatmap shades for 0, 1, 2, 3 and 4+ deadlines in a week
+const LEVEL_CLASSES = [
+  "bg-black/5",
+  "bg-amber-100",
+  "bg-amber-300",
+  "bg-orange-400",
+  "bg-red-500 text-white",
+];
+
+/** Conflicts, exam clashes, deadlines per week and deadlines on days off */
+export default function WorkloadPanel({ events, timeZone, holidays }: Props) {
+  const [report, setReport] = useState<WorkloadReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function analyze() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ events, timeZone, holidays }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? `Analysis failed (${res.status})`);
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not analyze the events.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const issues = report
+    ? report.conflicts.length + report.examClashes.length + report.offDays.length
+    : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Workload</div>
+        <button
+          className="border rounded px-3 py-1 text-sm disabled:opacity-50"
+          onClick={analyze}
+          disabled={busy || events.length === 0}
+        >
+          {busy ? "Checking..." : report ? "Check again" : "Check workload"}
+        </button>
+      </div>
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+
+      {report && (
+        <div className="space-y-3 text-sm">
+          {report.weeks.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs opacity-70">Deadlines per week</div>
+              <div className="flex flex-wrap gap-1">
+                {report.weeks.map((w) => (
+                  <div
+                    key={w.weekStart}
+                    className={`w-14 rounded p-1 text-center text-xs ${LEVEL_CLASSES[w.level]}`}
+                    title={w.deadlines.map((d) => d.title).join("\n") || "No deadlines"}
+                  >
+                    <div>{dayLabel(w.weekStart, false)}</div>
+                    <div className="font-semibold">{w.deadlines.length}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {issues === 0 && <div className="opacity-70">No conflicts or off-day deadlines.</div>}
+
+          {report.examClashes.length > 0 && (
+            <Section title="Exams on the same day">
+              {report.examClashes.map((c) => (
+                <li key={c.day}>
+                  <b>{dayLabel(c.day)}</b>: {titles(c.exams)}
+                </li>
+              ))}
+            </Section>
+          )}
+
+          {report.conflicts.length > 0 && (
+            <Section title="Overlapping events">
+              {report.conflicts.map((c) => (
+                <li key={`${c.a.index}-${c.b.index}`}>
+                  <b>{dayLabel(c.days[0])}</b>: {c.a.title} overlaps {c.b.title}
+                  {c.days.length > 1 && <span className="opacity-70"> ({c.days.length} days)</span>}
+                </li>
+              ))}
+            </Section>
+          )}
+
+          {report.offDays.length > 0 && (
+            <Section title="Deadlines on weekends or holidays">
+              {report.offDays.map((d) => (
+                <li key={`${d.event.index}-${d.day}`}>
+                  <b>{dayLabel(d.day)}</b>: {d.event.title}{" "}
+                  <span className="opacity-70">
+                    ({d.reason === "holiday" ? d.holiday : "weekend"})
+                  </span>
+                </li>
+              ))}
+            </Section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs opacity-70">{title}</div>
+      <ul className="list-disc pl-5 space-y-0.5">{children}</ul>
+    </div>
+  );
+}
+
+/* ---------- helpers ---------- */
+
+/** "YYYY-MM-DD" as "Mon, Oct 6" (or "Oct 6") without shifting zones */
+function dayLabel(day: string, withWeekday = true) {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    ...(withWeekday ? { weekday: "short" } : {}),
+  });
+}
+
+function titles(refs: EventRef[]) {
+  return refs.map((r) => r.title).join(", ");
+}
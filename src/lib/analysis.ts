@@ -0,0 +1,179 @@
+// lib/analysis.ts
+// Workload report for a list of events: overlapping meetings, exams on the same day,
+// deadlines per week, and deadlines that land on weekends or holidays.
+
+import type { ParsedEvent } from "@/types";
+import { occurrences } from "@/lib/formats";
+import { withCoursePrefix } from "@/lib/courses";
+import { toZoned, wallOf, type WallTime } from "@/lib/tz";
+
+export type AnalysisEvent = Pick<
+  ParsedEvent,
+  "title" | "start" | "end" | "allDay" | "recurrence" | "exdates" | "category" | "course"
+>;
+
+// Dates are "YYYY-MM-DD", both ends inclusive (same shape as term breaks)
+export type Holiday = { name: string; start: string; end: string };
+
+export type EventRef = { index: number; title: string; start: string };
+
+export type Conflict = { a: EventRef; b: EventRef; days: string[] };
+export type ExamClash = { day: string; exams: EventRef[] };
+export type WeekLoad = { weekStart: string; deadlines: EventRef[]; level: 0 | 1 | 2 | 3 | 4 };
+export type OffDayDeadline = {
+  day: string;
+  event: EventRef;
+  reason: "weekend" | "holiday";
+  holiday?: string;
+};
+
+export type WorkloadReport = {
+  conflicts: Conflict[];
+  examClashes: ExamClash[];
+  weeks: WeekLoad[];
+  offDays: OffDayDeadline[];
+};
+
+// Things that are handed in or sat, as opposed to meetings or readings
+const DEADLINE_CATEGORIES = new Set(["exam", "quiz", "assignment", "presentation"]);
+const DUE_RE = /\b(due|deadline|submit)\b/i;
+
+// Due times aren't appointments, so they can't clash with a lecture
+const NO_CONFLICT_CATEGORIES = new Set(["assignment", "reading", "holiday"]);
+
+export function isDeadline(e: AnalysisEvent) {
+  if (e.recurrence || e.category === "holiday") return false;
+  return (!!e.category && DEADLINE_CATEGORIES.has(e.category)) || DUE_RE.test(e.title);
+}
+
+/** Everything in one pass; `timeZone` decides which day an event falls on */
+export function analyzeWorkload(
+  events: AnalysisEvent[],
+  opts: { timeZone?: string; holidays?: Holiday[] } = {}
+): WorkloadReport {
+  const { timeZone } = opts;
+  const ref = (index: number, start = events[index].start): EventRef => ({
+    index,
+    title: withCoursePrefix(events[index].title, events[index].course),
+    start: start.toISOString(),
+  });
+  const day = (d: Date) => dayKey(d, timeZone);
+
+  /* overlapping timed events, series expanded */
+  const slots = events
+    .flatMap((e, index) =>
+      e.allDay || (e.category && NO_CONFLICT_CATEGORIES.has(e.category))
+        ? []
+        : occurrences(e, timeZone).map((o) => ({ index, start: o.start, end: o.end }))
+    )
+    .filter((s): s is { index: number; start: Date; end: Date } => !!s.end && s.end > s.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const pairs = new Map<string, Conflict>();
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length && slots[j].start < slots[i].end; j++) {
+      const [x, y] = [slots[i], slots[j]];
+      if (x.index === y.index || inClassSlot(events[x.index], events[y.index])) continue;
+      const [a, b] = x.index < y.index ? [x, y] : [y, x];
+      const key = `${a.index}|${b.index}`;
+      const conflict = pairs.get(key) ?? {
+        a: ref(a.index, a.start),
+        b: ref(b.index, b.start),
+        days: [],
+      };
+      const d = day(y.start);
+      if (!conflict.days.includes(d)) conflict.days.push(d);
+      pairs.set(key, conflict);
+    }
+  }
+
+  /* two or more exams on one day */
+  const examsByDay = new Map<string, EventRef[]>();
+  events.forEach((e, index) => {
+    if (e.category !== "exam" || e.recurrence) return;
+    const d = day(e.start);
+    examsByDay.set(d, [...(examsByDay.get(d) ?? []), ref(index)]);
+  });
+  const examClashes = [...examsByDay]
+    .filter(([, exams]) => exams.length > 1)
+    .map(([d, exams]) => ({ day: d, exams }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  /* deadlines per Monday-based week, and the ones on days off */
+  const deadlines = events
+    .map((e, index) => ({ e, index }))
+    .filter(({ e }) => isDeadline(e))
+    .sort((a, b) => a.e.start.getTime() - b.e.start.getTime());
+
+  const holidays = [
+    ...(opts.holidays ?? []),
+    ...events
+      .filter((e) => e.category === "holiday" && !e.recurrence)
+      .map((e) => ({ name: e.title, start: day(e.start), end: lastDay(e, timeZone) })),
+  ];
+
+  const perWeek = new Map<string, EventRef[]>();
+  const offDays: OffDayDeadline[] = [];
+  for (const { e, index } of deadlines) {
+    const d = day(e.start);
+    const week = mondayOf(d);
+    perWeek.set(week, [...(perWeek.get(week) ?? []), ref(index)]);
+
+    const holiday = holidays.find((h) => h.start <= d && d <= (h.end || h.start));
+    const weekday = new Date(`${d}T00:00:00Z`).getUTCDay();
+    if (holiday) {
+      offDays.push({ day: d, event: ref(index), reason: "holiday", holiday: holiday.name });
+    } else if (weekday === 0 || weekday === 6) {
+      offDays.push({ day: d, event: ref(index), reason: "weekend" });
+    }
+  }
+
+  return {
+    conflicts: [...pairs.values()].sort((a, b) => a.days[0].localeCompare(b.days[0])),
+    examClashes,
+    weeks: fillWeeks(perWeek),
+    offDays,
+  };
+}
+
+/* ---------- helpers ---------- */
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function dayKey(d: Date, timeZone?: string) {
+  const w: WallTime = timeZone ? toZoned(d, timeZone) : wallOf(d);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+}
+
+/** Last day an event covers (all-day ends are the last day itself, as in ParsedEvent) */
+function lastDay(e: AnalysisEvent, timeZone?: string) {
+  return dayKey(e.end && e.end > e.start ? e.end : e.start, timeZone);
+}
+
+/** A course's own exam or quiz held in its lecture slot isn't a conflict */
+function inClassSlot(a: AnalysisEvent, b: AnalysisEvent) {
+  return !!a.course && a.course === b.course && !a.recurrence !== !b.recurrence;
+}
+
+function mondayOf(day: string) {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+/** Every week from the first deadline to the last, so quiet weeks show up in the heatmap */
+function fillWeeks(perWeek: Map<string, EventRef[]>): WeekLoad[] {
+  const keys = [...perWeek.keys()].sort();
+  if (keys.length === 0) return [];
+  const out: WeekLoad[] = [];
+  const last = keys[keys.length - 1];
+  for (const d = new Date(`${keys[0]}T00:00:00Z`); ; d.setUTCDate(d.getUTCDate() + 7)) {
+    const weekStart = d.toISOString().slice(0, 10);
+    if (weekStart > last) break;
+    const list = perWeek.get(weekStart) ?? [];
+    out.push({ weekStart, deadlines: list, level: Math.min(4, list.length) as WeekLoad["level"] });
+  }
+  return out;
+}
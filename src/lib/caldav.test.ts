@@ -0,0 +1,130 @@
+// lib/caldav.test.ts
+
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import dns from "node:dns/promises";
+import { discoverCalendars, isCalDavError, pushEvents, type PushResult } from "@/lib/caldav";
+import type { ExportHistory } from "@/lib/identity";
+
+const CALENDAR = "https://dav.example.com/cal/";
+const SERVER = { url: CALENDAR, username: "u", password: "p" };
+
+/** A calendar collection in memory; PUTs to `failing` paths answer 503 */
+function fakeServer(failing: Set<string>) {
+  const stored = new Map<string, string>();
+  mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    if (init.method === "PROPFIND") {
+      const responses = [...stored.keys()].map(
+        (p) =>
+          `<D:response><D:href>${p}</D:href><D:propstat><D:prop><D:getetag>"1"</D:getetag>` +
+          `</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`
+      );
+      return new Response(`<D:multistatus xmlns:D="DAV:">${responses.join("")}</D:multistatus>`, {
+        status: 207,
+      });
+    }
+    if (init.method === "PUT") {
+      if (failing.has(path)) return new Response(null, { status: 503 });
+      stored.set(path, String(init.body));
+      return new Response(null, { status: 201 });
+    }
+    if (init.method === "DELETE") {
+      stored.delete(path);
+      return new Response(null, { status: 204 });
+    }
+    return new Response(null, { status: 405 });
+  });
+  return stored;
+}
+
+async function push(titles: Record<string, string>, history: ExportHistory) {
+  const events = Object.entries(titles).map(([uid, title]) => ({
+    uid,
+    title,
+    start: new Date("2026-10-06T15:00:00Z"),
+  }));
+  const result = await pushEvents(SERVER, CALENDAR, { calendarName: "CS 101", events }, history);
+  if (isCalDavError(result)) assert.fail(result.error);
+  return result;
+}
+
+const counts = ({ created, updated, unchanged, deleted, failed }: PushResult) =>
+  `${created} created, ${updated} updated, ${unchanged} unchanged, ${deleted} deleted, ` +
+  `failed: ${failed.map((f) => f.uid).join(", ") || "none"}`;
+
+/** Points every host name at `address` */
+function resolveTo(address: string) {
+  mock.method(dns, "lookup", async () => [{ address, family: address.includes(":") ? 6 : 4 }]);
+}
+
+beforeEach(() => resolveTo("93.184.215.14"));
+afterEach(() => mock.restoreAll());
+
+test("a failed first PUT leaves no history, so the next push creates the event", async () => {
+  const failing = new Set(["/cal/quiz.ics"]);
+  const stored = fakeServer(failing);
+
+  const first = await push({ exam: "Midterm", quiz: "Quiz 1" }, {});
+  assert.equal(counts(first), "1 created, 0 updated, 0 unchanged, 0 deleted, failed: quiz");
+  assert.deepEqual(Object.keys(first.history), ["exam"]);
+
+  failing.clear();
+  const second = await push({ exam: "Midterm", quiz: "Quiz 1" }, first.history);
+  assert.equal(counts(second), "1 created, 0 updated, 1 unchanged, 0 deleted, failed: none");
+  assert.deepEqual(Object.keys(second.history).sort(), ["exam", "quiz"]);
+  assert.deepEqual([...stored.keys()].sort(), ["/cal/exam.ics", "/cal/quiz.ics"]);
+});
+
+test("a failed update keeps the old entry and is retried; removed events are deleted", async () => {
+  const failing = new Set<string>();
+  const stored = fakeServer(failing);
+  const first = await push({ exam: "Midterm", quiz: "Quiz 1" }, {});
+
+  failing.add("/cal/exam.ics");
+  const failed = await push({ exam: "Midterm (room change)", quiz: "Quiz 1" }, first.history);
+  assert.deepEqual(failed.failed.map((f) => f.uid), ["exam"]);
+  assert.deepEqual(failed.history.exam, first.history.exam);
+
+  failing.clear();
+  const retried = await push({ exam: "Midterm (room change)", quiz: "Quiz 1" }, failed.history);
+  assert.equal(counts(retried), "0 created, 1 updated, 1 unchanged, 0 deleted, failed: none");
+  assert.equal(retried.history.exam.sequence, 1);
+  assert.match(stored.get("/cal/exam.ics") ?? "", /SEQUENCE:1/);
+
+  const removed = await push({ exam: "Midterm (room change)" }, retried.history);
+  assert.equal(removed.deleted, 1);
+  assert.deepEqual(Object.keys(removed.history), ["exam"]);
+  assert.deepEqual([...stored.keys()], ["/cal/exam.ics"]);
+});
+
+test("servers on loopback or private addresses are refused before anything is sent", async () => {
+  const fetch = mock.method(globalThis, "fetch", async () => new Response(null, { status: 207 }));
+  const urls = ["http://127.0.0.1:5232/", "http://[::1]/", "http://[::ffff:10.0.0.1]/"];
+  for (const url of urls) {
+    const found = await discoverCalendars({ ...SERVER, url });
+    assert.ok(isCalDavError(found), url);
+    assert.equal(found.status, 400, url);
+  }
+  resolveTo("192.168.1.20");
+  const named = await discoverCalendars(SERVER);
+  assert.ok(isCalDavError(named) && named.status === 400);
+  assert.equal(fetch.mock.callCount(), 0);
+});
+
+test("credentials only go to the origin the user entered", async () => {
+  const sent: string[] = [];
+  mock.method(globalThis, "fetch", async (url: string) => {
+    sent.push(url);
+    return new Response(null, { status: 301, headers: { Location: "https://elsewhere.example/" } });
+  });
+  const found = await discoverCalendars(SERVER);
+  assert.ok(isCalDavError(found));
+  assert.match(found.error, /elsewhere\.example/);
+  assert.deepEqual(sent, [CALENDAR]);
+
+  const elsewhere = "https://elsewhere.example/cal/";
+  const pushed = await pushEvents(SERVER, elsewhere, { calendarName: "CS 101", events: [] }, {});
+  assert.ok(isCalDavError(pushed) && pushed.status === 400);
+  assert.deepEqual(sent, [CALENDAR]);
+});
@@ -0,0 +1,394 @@
+// lib/caldav.ts
+// CalDAV client: finds a user's calendars, creates one, and syncs events into it with one
+// .ics resource per UID. Server-only; credentials are used per request and never stored.
+// Requests only go to the origin the user entered, and never to loopback or private
+// addresses unless CALDAV_ALLOW_PRIVATE_HOSTS=1 (for a server on the same machine or LAN).
+
+import { randomBytes } from "node:crypto";
+import dns from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { makeICS, type EventLike } from "@/lib/ics";
+import { reviseForExport, type ExportHistory } from "@/lib/identity";
+
+export type CalDavServer = {
+  url: string; // server root, principal or calendar URL; discovery works from any of them
+  username: string;
+  password: string;
+};
+
+export type CalDavCalendar = {
+  url: string;
+  name: string;
+  color?: string;
+};
+
+export type CalDavError = { error: string; status: number };
+
+export type PushResult = {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  failed: { uid: string; title: string; status: number }[];
+  history: ExportHistory; // send back on the next push so updates and deletions sync
+};
+
+const DAV_HEADERS = { "Content-Type": "application/xml; charset=utf-8" };
+const MAX_REDIRECTS = 5;
+
+/** `{ url, username, password }` from a request body */
+export function readServer(raw: unknown): CalDavServer | CalDavError {
+  const s = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const url = typeof s.url === "string" ? s.url.trim() : "";
+  if (!/^https?:\/\//i.test(url)) {
+    return { error: "CalDAV server URL must start with http:// or https://", status: 400 };
+  }
+  try {
+    new URL(url);
+  } catch {
+    return { error: `Not a valid URL: ${url}`, status: 400 };
+  }
+  return {
+    url,
+    username: typeof s.username === "string" ? s.username : "",
+    password: typeof s.password === "string" ? s.password : "",
+  };
+}
+
+export function isCalDavError<T>(r: T | CalDavError): r is CalDavError {
+  return !!r && typeof r === "object" && "error" in r && "status" in r;
+}
+
+/** The `history` a client sends back; malformed entries are dropped (and re-pushed) */
+export function readHistory(raw: unknown): ExportHistory {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const history: ExportHistory = {};
+  for (const [uid, r] of Object.entries(raw as Record<string, ExportHistory[string]>)) {
+    if (
+      typeof r?.fingerprint === "string" &&
+      Number.isInteger(r.sequence) &&
+      typeof r.lastModified === "string" &&
+      typeof r.snapshot?.title === "string" &&
+      typeof r.snapshot.start === "string"
+    ) {
+      history[uid] = r;
+    }
+  }
+  return history;
+}
+
+/**
+ * The user's event calendars: URL → current-user-principal → calendar-home-set → its
+ * calendar collections. A calendar URL given directly is included as well. `home` is
+ * where new calendars go.
+ */
+export async function discoverCalendars(
+  server: CalDavServer
+): Promise<{ home?: string; calendars: CalDavCalendar[] } | CalDavError> {
+  let start = await propfind(server, server.url, 0, PROPS_START);
+  if (isCalDavError(start) && start.status === 404) {
+    // Bare server names: the well-known URL redirects to the real CalDAV root
+    const wellKnown = new URL("/.well-known/caldav", server.url).href;
+    start = await propfind(server, wellKnown, 0, PROPS_START);
+  }
+  if (isCalDavError(start)) return start;
+
+  const direct = start.filter(isCalendar).map(toCalendar);
+  let home = start.map((r) => hrefIn(r, "calendar-home-set")).find(Boolean);
+  if (!home) {
+    const principal = start.map((r) => hrefIn(r, "current-user-principal")).find(Boolean);
+    if (principal) {
+      const found = await propfind(server, principal, 0, PROPS_PRINCIPAL);
+      if (isCalDavError(found)) return found;
+      home = found.map((r) => hrefIn(r, "calendar-home-set")).find(Boolean);
+    }
+  }
+  if (!home) {
+    if (direct.length > 0) return { calendars: direct };
+    return { error: "No CalDAV calendars found at that URL", status: 404 };
+  }
+
+  const listed = await propfind(server, home, 1, PROPS_CALENDARS);
+  if (isCalDavError(listed)) return listed;
+  const calendars = [...direct];
+  for (const cal of listed.filter(isCalendar).map(toCalendar)) {
+    if (!calendars.some((c) => c.url === cal.url)) calendars.push(cal);
+  }
+  return { home, calendars };
+}
+
+/** MKCALENDAR an event calendar under `home`; returns its URL */
+export async function createCalendar(
+  server: CalDavServer,
+  home: string,
+  name: string
+): Promise<CalDavCalendar | CalDavError> {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "syllabus";
+  const url = new URL(`${slug}-${randomBytes(4).toString("hex")}/`, withSlash(home)).href;
+  const body =
+    `<?xml version="1.0" encoding="utf-8"?>` +
+    `<C:mkcalendar xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav"><D:set><D:prop>` +
+    `<D:displayname>${xmlEscape(name)}</D:displayname>` +
+    `<C:supported-calendar-component-set><C:comp name="VEVENT"/>` +
+    `</C:supported-calendar-component-set></D:prop></D:set></C:mkcalendar>`;
+  const res = await dav(server, "MKCALENDAR", url, body, DAV_HEADERS);
+  if (isCalDavError(res)) return res;
+  if (!res.ok) return httpError(res, "create the calendar");
+  return { url, name };
+}
+
+/**
+ * Make the calendar match `events`: new and changed events are PUT, events pushed before
+ * but gone now are deleted, and anything the server lost is put back. `history` is what
+ * the last push returned; only events this app pushed are ever deleted. Failed requests
+ * keep their old history entry, so the next push retries them. An event whose first PUT
+ * failed gets no entry: the server never had it, so the next push counts it as created.
+ */
+export async function pushEvents(
+  server: CalDavServer,
+  calendarUrl: string,
+  request: { calendarName: string; timeZone?: string; events: EventLike[] },
+  history: ExportHistory
+): Promise<PushResult | CalDavError> {
+  const base = withSlash(calendarUrl);
+  if (new URL(base).origin !== new URL(server.url).origin) {
+    return { error: "The calendar must be on the CalDAV server you signed in to", status: 400 };
+  }
+  const listing = await propfind(server, base, 1, PROPS_ETAG);
+  if (isCalDavError(listing)) return listing;
+  const onServer = new Set(listing.map((r) => pathKey(r.href)));
+
+  const withUids = request.events.filter((e): e is EventLike & { uid: string } => !!e.uid);
+  const { events, history: next } = reviseForExport(withUids, history);
+  const result: PushResult = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    deleted: 0,
+    failed: [],
+    history: {},
+  };
+  const hrefOf = (uid: string) => new URL(`${encodeURIComponent(uid)}.ics`, base).href;
+  // Back to what the last push left, so the fingerprint differs and the PUT is tried again
+  const retryLater = (uid: string) => {
+    if (history[uid]) next[uid] = history[uid];
+    else delete next[uid];
+  };
+
+  for (const e of events) {
+    const href = hrefOf(e.uid);
+    const prev = history[e.uid];
+    const exists = onServer.has(pathKey(href));
+    if (exists && prev && !prev.deleted && prev.fingerprint === next[e.uid].fingerprint) {
+      result.unchanged++;
+      continue;
+    }
+    const ics = makeICS([e], request.calendarName, { timeZone: request.timeZone });
+    const res = await dav(server, "PUT", href, ics, {
+      "Content-Type": "text/calendar; charset=utf-8",
+    });
+    if (!isCalDavError(res) && res.ok) {
+      if (exists) result.updated++;
+      else result.created++;
+    } else {
+      result.failed.push({ uid: e.uid, title: e.title, status: res.status });
+      retryLater(e.uid);
+    }
+  }
+
+  for (const [uid, record] of Object.entries(next)) {
+    if (!record.deleted) continue;
+    const href = hrefOf(uid);
+    if (!onServer.has(pathKey(href))) {
+      delete next[uid]; // already gone, e.g. deleted in the calendar app
+      continue;
+    }
+    const res = await dav(server, "DELETE", href);
+    if (!isCalDavError(res) && (res.ok || res.status === 404)) {
+      result.deleted++;
+      delete next[uid];
+    } else {
+      result.failed.push({ uid, title: record.snapshot.title, status: res.status });
+    }
+  }
+
+  result.history = next;
+  return result;
+}
+
+/* ---------- helpers ---------- */
+
+const PROPS_START =
+  "<D:resourcetype/><D:displayname/><D:current-user-principal/><C:calendar-home-set/>" +
+  "<C:supported-calendar-component-set/><A:calendar-color/>";
+const PROPS_PRINCIPAL = "<C:calendar-home-set/>";
+const PROPS_CALENDARS =
+  "<D:resourcetype/><D:displayname/><C:supported-calendar-component-set/><A:calendar-color/>";
+const PROPS_ETAG = "<D:getetag/>";
+
+type DavResponse = { href: string; props: string };
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved addresses
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+/** Redirects are followed by hand, so every hop gets the same checks before the password goes */
+async function dav(
+  server: CalDavServer,
+  method: string,
+  url: string,
+  body?: string,
+  headers: Record<string, string> = {}
+): Promise<Response | CalDavError> {
+  const auth = Buffer.from(`${server.username}:${server.password}`).toString("base64");
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const refused = await refuseTarget(server, url);
+    if (refused) return refused;
+    const res = await fetch(url, {
+      method,
+      headers: { ...headers, Authorization: `Basic ${auth}` },
+      body,
+      cache: "no-store",
+      redirect: "manual",
+    });
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location) return res;
+    await res.body?.cancel();
+    url = new URL(location, url).href;
+  }
+  return { error: "The CalDAV server redirected too many times", status: 502 };
+}
+
+/** Why `url` mustn't get the user's credentials, if it mustn't */
+async function refuseTarget(server: CalDavServer, url: string): Promise<CalDavError | null> {
+  const target = new URL(url);
+  const entered = new URL(server.url);
+  if (target.origin !== entered.origin) {
+    return {
+      error: `The CalDAV server sent us to ${target.host}; only ${entered.host} gets the password`,
+      status: 502,
+    };
+  }
+  if (process.env.CALDAV_ALLOW_PRIVATE_HOSTS === "1") return null;
+
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true }).catch(() => [])).map((a) => a.address);
+  if (addresses.length === 0) {
+    return { error: `Could not find the CalDAV server ${target.hostname}`, status: 502 };
+  }
+  const local = addresses.some((a) =>
+    PRIVATE_NETWORKS.check(a, isIP(a) === 6 ? "ipv6" : "ipv4")
+  );
+  if (local) {
+    return { error: "CalDAV servers on local or private networks aren't allowed", status: 400 };
+  }
+  return null;
+}
+
+/** PROPFIND → the `200 OK` properties of every response, with absolute hrefs */
+async function propfind(
+  server: CalDavServer,
+  url: string,
+  depth: 0 | 1,
+  props: string
+): Promise<DavResponse[] | CalDavError> {
+  const body =
+    `<?xml version="1.0" encoding="utf-8"?><D:propfind xmlns:D="DAV:" ` +
+    `xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:A="http://apple.com/ns/ical/">` +
+    `<D:prop>${props}</D:prop></D:propfind>`;
+  const res = await dav(server, "PROPFIND", url, body, { ...DAV_HEADERS, Depth: String(depth) });
+  if (isCalDavError(res)) return res;
+  if (res.status !== 207) return httpError(res, "list calendars");
+  const xml = await res.text();
+  return elements(xml, "response").map((r) => ({
+    href: new URL(xmlUnescape(text(r, "href") ?? ""), res.url || url).href,
+    props: elements(r, "propstat")
+      .filter((p) => /\s2\d\d\s/.test(text(p, "status") ?? " 200 "))
+      .join(""),
+  }));
+}
+
+function httpError(res: Response, action: string): CalDavError {
+  if (res.status === 401 || res.status === 403) {
+    return { error: "The CalDAV server rejected the username or password", status: 401 };
+  }
+  if (res.status === 404) {
+    return { error: `Could not ${action}: not found on the server`, status: 404 };
+  }
+  return { error: `Could not ${action}: the server answered ${res.status}`, status: 502 };
+}
+
+function isCalendar(r: DavResponse) {
+  const type = elements(r.props, "resourcetype")[0] ?? "";
+  if (!/<(?:[\w-]+:)?calendar[\s/>]/.test(type)) return false;
+  // Task-only or journal-only collections can't hold events
+  const comps = elements(r.props, "supported-calendar-component-set")[0];
+  return !comps || !/<(?:[\w-]+:)?comp\b/.test(comps) || /name=["']VEVENT["']/i.test(comps);
+}
+
+function toCalendar(r: DavResponse): CalDavCalendar {
+  const name = xmlUnescape(text(r.props, "displayname") ?? "").trim();
+  const color = text(r.props, "calendar-color")?.trim();
+  const last = new URL(r.href).pathname.split("/").filter(Boolean).pop() ?? "";
+  return { url: r.href, name: name || decodeURIComponent(last), color: color || undefined };
+}
+
+/** Every `<x:name>…</x:name>` in `xml`, whatever its namespace prefix */
+function elements(xml: string, name: string) {
+  const re = new RegExp(`<((?:[\\w-]+:)?${name})(?:\\s[^>]*)?>([\\s\\S]*?)</\\1>`, "g");
+  return [...xml.matchAll(re)].map((m) => m[2]);
+}
+
+function text(xml: string, name: string): string | undefined {
+  return elements(xml, name)[0]?.replace(/<[^>]*>/g, "");
+}
+
+/** Absolute URL in a property like `<C:calendar-home-set><D:href>/dav/</D:href>` */
+function hrefIn(r: DavResponse, name: string) {
+  const inner = elements(r.props, name)[0];
+  const href = inner && text(inner, "href")?.trim();
+  return href ? new URL(xmlUnescape(href), r.href).href : undefined;
+}
+
+/** Servers differ in which characters they percent-encode in hrefs */
+function pathKey(url: string) {
+  return decodeURIComponent(new URL(url).pathname);
+}
+
+function withSlash(url: string) {
+  return url.endsWith("/") ? url : `${url}/`;
+}
+
+function xmlEscape(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function xmlUnescape(s: string) {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,117 @@
+// lib/calendar.ts
+// Day grids for the month and week views, and the events that land on each day.
+
+import type { ParsedEvent } from "@/types";
+import { WEEKDAYS } from "@/lib/recurrence";
+import { fromZoned, toZoned } from "@/lib/tz";
+
+/** A calendar day as "YYYY-MM-DD", read on the wall clock of the view's zone */
+export type Day = string;
+
+/** One event on the grid: a single event, or one meeting of a weekly series */
+export type Occurrence = {
+  index: number; // row of the event in the course's list
+  event: ParsedEvent;
+  start: Date;
+  end?: Date;
+  days: Day[]; // every day it covers (all-day ranges span several)
+  series: boolean;
+};
+
+/** The day `d` falls on in `timeZone` */
+export function dayOf(d: Date, timeZone: string): Day {
+  const w = toZoned(d, timeZone);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+}
+
+export function addDays(day: Day, n: number): Day {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to` */
+export function daysBetween(from: Day, to: Day) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/** 0 for Sunday … 6 for Saturday */
+export function weekdayOf(day: Day) {
+  return new Date(`${day}T00:00:00Z`).getUTCDay();
+}
+
+/** Sunday-to-Saturday week containing `day` */
+export function weekOf(day: Day): Day[] {
+  const sunday = addDays(day, -weekdayOf(day));
+  return Array.from({ length: 7 }, (_, i) => addDays(sunday, i));
+}
+
+/** Six weeks covering the month of `day`, starting on the Sunday before the 1st */
+export function monthWeeks(day: Day): Day[][] {
+  const first = weekOf(`${day.slice(0, 7)}-01`)[0];
+  return Array.from({ length: 6 }, (_, w) => weekOf(addDays(first, w * 7)));
+}
+
+/** Minutes since midnight on the wall clock of `timeZone` */
+export function minutesOfDay(d: Date, timeZone: string) {
+  const w = toZoned(d, timeZone);
+  return w.hour * 60 + w.minute;
+}
+
+/** Instant of `minutes` past midnight on `day` in `timeZone` */
+export function atMinutes(day: Day, minutes: number, timeZone: string) {
+  const [year, month, date] = day.split("-").map(Number);
+  const hour = Math.floor(minutes / 60);
+  return fromZoned({ year, month, day: date, hour, minute: minutes - hour * 60 }, timeZone);
+}
+
+/**
+ * Everything on the grid from `first` to `last` (inclusive), in start order. Weekly series
+ * become one occurrence per meeting, minus their skipped dates.
+ */
+export function occurrences(
+  rows: { e: ParsedEvent; i: number }[],
+  first: Day,
+  last: Day,
+  timeZone: string
+): Occurrence[] {
+  const out: Occurrence[] = [];
+  const within = (d: Day) => d >= first && d <= last;
+
+  for (const { e, i } of rows) {
+    if (Number.isNaN(e.start.getTime())) continue;
+    if (!e.recurrence) {
+      const days = spanDays(e, timeZone).filter(within);
+      if (days.length) {
+        out.push({ index: i, event: e, start: e.start, end: e.end, days, series: false });
+      }
+      continue;
+    }
+
+    const length = e.end ? e.end.getTime() - e.start.getTime() : undefined;
+    const startDay = dayOf(e.start, timeZone);
+    const until = dayOf(e.recurrence.until, timeZone);
+    const skipped = new Set(e.exdates?.map((d) => dayOf(d, timeZone)));
+    const minutes = minutesOfDay(e.start, timeZone);
+    for (let d = startDay > first ? startDay : first; d <= last && d <= until; d = addDays(d, 1)) {
+      const onDay = d === startDay || e.recurrence.byDay.includes(WEEKDAYS[weekdayOf(d)]);
+      if (!onDay || skipped.has(d)) continue;
+      const start = d === startDay ? e.start : atMinutes(d, minutes, timeZone);
+      const end = length === undefined ? undefined : new Date(start.getTime() + length);
+      out.push({ index: i, event: e, start, end, days: [d], series: true });
+    }
+  }
+  return out.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/** Days an event covers: all-day ends are inclusive, timed events sit on their start day */
+function spanDays(e: ParsedEvent, timeZone: string): Day[] {
+  const first = dayOf(e.start, timeZone);
+  if (!e.allDay || !e.end || e.end <= e.start) return [first];
+  const count = daysBetween(first, dayOf(e.end, timeZone));
+  return Array.from({ length: count + 1 }, (_, n) => addDays(first, n));
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
@@ -0,0 +1,134 @@
+// lib/categories.ts
+// Classifies events (exam, quiz, assignment, …) with a confidence score, plus display colors.
+
+export type Category =
+  | "exam"
+  | "quiz"
+  | "assignment"
+  | "reading"
+  | "lab"
+  | "presentation"
+  | "lecture"
+  | "holiday";
+
+// Also the tie-break order when two categories score the same
+export const CATEGORIES: Category[] = [
+  "exam",
+  "quiz",
+  "assignment",
+  "presentation",
+  "lab",
+  "reading",
+  "lecture",
+  "holiday",
+];
+
+export const CATEGORY_LABELS: Record<Category, string> = {
+  exam: "Exam",
+  quiz: "Quiz",
+  assignment: "Assignment",
+  reading: "Reading",
+  lab: "Lab",
+  presentation: "Presentation",
+  lecture: "Lecture",
+  holiday: "Holiday",
+};
+
+// iCalendar COLOR (RFC 7986) takes CSS3 color names, not hex
+export const CATEGORY_COLORS: Record<Category, string> = {
+  exam: "crimson",
+  quiz: "darkorange",
+  assignment: "royalblue",
+  reading: "seagreen",
+  lab: "darkviolet",
+  presentation: "goldenrod",
+  lecture: "slategray",
+  holiday: "teal",
+};
+
+export const COLOR_CHOICES = [
+  "crimson", "tomato", "darkorange", "goldenrod", "gold", "olivedrab", "seagreen",
+  "teal", "steelblue", "royalblue", "navy", "darkviolet", "orchid", "hotpink",
+  "sienna", "slategray", "black",
+];
+
+export function isCategory(v: unknown): v is Category {
+  return typeof v === "string" && (CATEGORIES as string[]).includes(v);
+}
+
+/** CSS color names only (what COLOR allows); anything else is dropped */
+export function isColorName(v: unknown): v is string {
+  return typeof v === "string" && /^[a-z]{3,20}$/i.test(v);
+}
+
+// Keyword → category with how sure that keyword alone makes us
+export type CategoryRule = { category: Category; re: RegExp; weight: number };
+
+const RULES: CategoryRule[] = [
+  { category: "exam", re: /\b(midterm|final exam|exam(ination)?s?)\b/i, weight: 0.95 },
+  { category: "exam", re: /\b(finals?|tests?)\b/i, weight: 0.6 },
+  { category: "quiz", re: /\bquiz(zes)?\b/i, weight: 0.95 },
+  {
+    category: "assignment",
+    re: /\b(hw|homework|assignments?|problem sets?|psets?|projects?|papers?|essays?|reports?)\b/i,
+    weight: 0.85,
+  },
+  { category: "assignment", re: /\b(due|deadline|submit|submission)\b/i, weight: 0.6 },
+  { category: "reading", re: /\b(readings?|read|chapters?|ch\.\s*\d+|pp\.)/i, weight: 0.8 },
+  { category: "lab", re: /\b(labs?|laboratory|practicum)\b/i, weight: 0.85 },
+  {
+    category: "presentation",
+    re: /\b(presentations?|present|poster|talks?|demo|pitch|defen[cs]e)\b/i,
+    weight: 0.85,
+  },
+  {
+    category: "lecture",
+    re: /\b(lectures?|class(es)?|seminars?|discussions?|recitations?|sections?|tutorials?)\b/i,
+    weight: 0.6,
+  },
+  {
+    category: "holiday",
+    re: /\b(holidays?|break|no class(es)?|recess|thanksgiving|reading (day|week)|day off)\b/i,
+    weight: 0.9,
+  },
+];
+
+export type Classification = {
+  category?: Category;
+  confidence: number; // 0–1
+};
+
+/**
+ * Score every category by its strongest keyword (title hits count fully, source-only
+ * hits a bit less). A close runner-up lowers the confidence of the winner.
+ * `extra` adds keywords, e.g. a syllabus language's (see lib/locales).
+ */
+export function classify(
+  title: string,
+  sourceLine = "",
+  extra: CategoryRule[] = []
+): Classification {
+  const scores = new Map<Category, number>();
+  for (const rule of [...RULES, ...extra]) {
+    const score = rule.re.test(title)
+      ? rule.weight
+      : rule.re.test(sourceLine)
+        ? rule.weight * 0.8
+        : 0;
+    if (score > (scores.get(rule.category) ?? 0)) scores.set(rule.category, score);
+  }
+  // "No class" / "Reading day" are days off, not lectures or readings
+  if (scores.has("holiday")) {
+    scores.delete("lecture");
+    scores.delete("reading");
+  }
+
+  const ranked = Array.from(scores.entries()).sort(
+    (a, b) => b[1] - a[1] || CATEGORIES.indexOf(a[0]) - CATEGORIES.indexOf(b[0])
+  );
+  if (ranked.length === 0) return { confidence: 0 };
+
+  const [[category, top], runnerUp] = ranked;
+  const confidence = runnerUp ? top * (1 - 0.4 * (runnerUp[1] / top)) : top;
+  return { category, confidence: Math.round(confidence * 100) / 100 };
+}
@@ -0,0 +1,177 @@
+// lib/context.ts
+// What surrounds an event line: the course named at the top of the syllabus, the unit or
+// week heading it sits under and the topic of that section. Turns vague titles into
+// "CHEM 201 – Quiz 4 (Thermodynamics)".
+
+import { withCoursePrefix } from "@/lib/courses";
+
+/** Course code and name from the syllabus header */
+export type CourseHeader = { code: string; name?: string };
+
+/** A section heading: "Unit 4: Thermodynamics" is { label: "Unit 4", topic: "Thermodynamics" } */
+export type Heading = { level: number; label: string; topic?: string };
+
+/** Context a line was read in; a new value whenever it changes, so lines can keep theirs */
+export type SyllabusContext = {
+  course?: CourseHeader;
+  headings: Heading[]; // outermost first: unit, then week
+  topic?: string; // from a "Topic: …" line, until the next heading
+};
+
+export const DEFAULT_TITLE_TEMPLATE = "{course} – {title} ({topic})";
+export const TITLE_PLACEHOLDERS = ["course", "name", "title", "topic", "section"] as const;
+
+// How many lines at the top may hold the course code
+const HEADER_LINES = 15;
+const MAX_TOPIC_LENGTH = 60;
+
+// "CHEM 201", "CS-101", "MATH 2010A"; not "FALL 2026"
+const CODE_RE = /\b([A-Z]{2,5})[ -]?(\d{3,4}[A-Z]?)\b/;
+const NOT_CODES = new RegExp(
+  "^(FALL|SPRING|SUMMER|WINTER|TERM|SEM|JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEPT?|OCT|NOV|DEC" +
+    "|ROOM|RM|BLDG|BOX|SUITE|HALL)$"
+);
+// "Unit 4: Thermodynamics", "## Module II – Kinetics", "Woche 3"; weeks sit inside units
+const HEADING_WORDS: { level: number; re: RegExp }[] = [
+  {
+    level: 0,
+    re: /^(unit|module|chapter|section|theme|topic|einheit|kapitel|thema|chapitre|unité|unidad|capítulo|tema)$/i,
+  },
+  { level: 1, re: /^(week|wk|woche|semaine|semana)$/i },
+];
+const HEADING_RE =
+  /^(?:#{1,6}\s*)?(\p{L}+)\.?\s*#?\s*(\d{1,2}|[IVX]{1,5})\b\.?(?:\s*[:.–—-]\s*(.*))?$/u;
+const TOPIC_LINE_RE = /^(?:topics?|themes?|focus|subject|thema|sujet)\s*[:–—-]\s*(.+)$/i;
+// One word and maybe a number: "Due", "Quiz 4", "HW #3"
+const VAGUE_TITLE_RE = /^\p{L}+\.?(?:\s*#?\d{1,3}[a-z]?)?$/u;
+
+/** Course code and name from the first lines, before anything looks like an event */
+export function courseHeader(lines: string[], isEvent: (line: string) => boolean) {
+  for (const line of lines.slice(0, HEADER_LINES)) {
+    const m = CODE_RE.exec(line);
+    if (m && !NOT_CODES.test(m[1])) {
+      const code = `${m[1]} ${m[2]}`;
+      const name = line
+        .slice(m.index + m[0].length)
+        .replace(/\b(?:course\s+)?syllabus\b/gi, "")
+        .replace(/[,(]?\s*\b(?:fall|spring|summer|winter)\s+\d{4}\)?/gi, "")
+        .replace(/^[\s:,.|–—-]+|[\s:,.|–—-]+$/g, "");
+      return { code, name: name && name.length <= MAX_TOPIC_LENGTH ? name : undefined };
+    }
+    if (isEvent(line)) break;
+  }
+  return undefined;
+}
+
+/**
+ * Context after `line`: a heading opens a section (and closes the ones under it), a topic
+ * line names the current one. `isEvent` keeps "Week 6: Quiz 4 due" from becoming a topic.
+ */
+export function nextContext(
+  context: SyllabusContext,
+  line: string,
+  isEvent: (text: string) => boolean
+): SyllabusContext {
+  const text = line.trim();
+  const topicLine = TOPIC_LINE_RE.exec(text);
+  if (topicLine) {
+    const topic = topicText(topicLine[1], isEvent);
+    return topic ? { ...context, topic } : context;
+  }
+
+  const m = HEADING_RE.exec(text);
+  const level = m ? HEADING_WORDS.find((w) => w.re.test(m[1]))?.level : undefined;
+  if (!m || level === undefined) return context;
+  const label = `${capitalize(m[1])} ${m[2]}`;
+  const heading: Heading = { level, label, topic: m[3] ? topicText(m[3], isEvent) : undefined };
+  return {
+    course: context.course,
+    headings: [...context.headings.filter((h) => h.level < level), heading],
+  };
+}
+
+/** Title from the context alone, for lines with nothing left after the date */
+export function contextTitle(context: SyllabusContext | undefined) {
+  if (!context) return undefined;
+  const inner = context.headings[context.headings.length - 1];
+  return topicOf(context) ?? inner?.label;
+}
+
+/**
+ * Fill the title template. {topic} only fills in for vague titles like "Quiz 4", where it
+ * says which one; the description has it for the rest. Placeholders without a value drop
+ * out with the brackets and dashes around them, and so does context the title mentions.
+ */
+export function renderTitle(
+  template: string,
+  title: string,
+  context: SyllabusContext | undefined
+) {
+  if (!context) return title;
+  const inner = context.headings[context.headings.length - 1];
+  const mentions = (s: string | undefined) =>
+    !!s && title.toLowerCase().includes(s.toLowerCase());
+  // "Quiz" under a bare "Week 6" heading still says which quiz
+  const topic = VAGUE_TITLE_RE.test(title) ? (topicOf(context) ?? inner?.label) : undefined;
+  const code = context.course?.code;
+  const values: Record<string, string | undefined> = {
+    course: code && withCoursePrefix(title, code) !== title ? code : undefined,
+    name: mentions(context.course?.name) ? undefined : context.course?.name,
+    title,
+    topic: mentions(topic) ? undefined : topic,
+    section: mentions(inner?.label) ? undefined : inner?.label,
+  };
+  const filled = template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? "");
+  return tidy(filled) || title;
+}
+
+/** Lines for the event description: the course, then the section and its topic */
+export function describeContext(context: SyllabusContext | undefined) {
+  if (!context) return undefined;
+  const lines: string[] = [];
+  const { course } = context;
+  if (course) lines.push(course.name ? `${course.code} – ${course.name}` : course.code);
+  const sections = context.headings.map((h) => (h.topic ? `${h.label}: ${h.topic}` : h.label));
+  if (sections.length) lines.push(sections.join(" › "));
+  if (context.topic) lines.push(`Topic: ${context.topic}`);
+  return lines.length ? lines.join("\n") : undefined;
+}
+
+/** Why a title template can't be used, or null */
+export function templateProblem(template: string) {
+  const unknown = [...template.matchAll(/\{(\w*)\}/g)]
+    .map((m) => m[1])
+    .find((key) => !(TITLE_PLACEHOLDERS as readonly string[]).includes(key));
+  if (unknown !== undefined) {
+    const known = TITLE_PLACEHOLDERS.map((p) => `{${p}}`).join(", ");
+    return `Unknown placeholder {${unknown}} in the title template (use ${known})`;
+  }
+  if (!template.includes("{title}")) return "The title template must include {title}";
+  return null;
+}
+
+/* ---------- helpers ---------- */
+
+function topicOf(context: SyllabusContext) {
+  return context.topic ?? [...context.headings].reverse().find((h) => h.topic)?.topic;
+}
+
+function topicText(raw: string, isEvent: (text: string) => boolean) {
+  const topic = raw.replace(/[\s:.,;–—-]+$/, "").trim();
+  if (!topic || topic.length > MAX_TOPIC_LENGTH || isEvent(topic)) return undefined;
+  return topic;
+}
+
+/** Drop what empty placeholders leave behind: "()", "[]" and dangling separators */
+function tidy(s: string) {
+  return s
+    .replace(/\(\s*\)|\[\s*\]/g, "")
+    .replace(/\s+([–—:|·-])(?:\s+[–—:|·-])+\s+/g, " $1 ")
+    .replace(/^[\s–—:|·,-]+|[\s–—:|·,-]+$/g, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+function capitalize(word: string) {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
@@ -0,0 +1,47 @@
+// lib/courses.ts
+// Course codes on events: title prefixes, per-course colors and calendar names.
+
+export type CourseInfo = {
+  code: string; // "CS 101"; prefixed to titles and used to filter per-course exports
+  name?: string; // "Intro to Programming"
+  color?: string; // CSS3 color name; overrides category colors in a combined calendar
+};
+
+// Spread out across the palette so neighbouring courses don't look alike
+const COURSE_PALETTE = [
+  "royalblue", "crimson", "seagreen", "darkorange", "darkviolet", "teal", "hotpink", "sienna",
+];
+
+/** Default color for the nth course in a workspace */
+export function courseColor(index: number) {
+  return COURSE_PALETTE[index % COURSE_PALETTE.length];
+}
+
+/** "cs101", "CS-101" and "CS 101" are the same course */
+export function sameCourse(a: string | undefined, b: string | undefined) {
+  return codeKey(a) !== "" && codeKey(a) === codeKey(b);
+}
+
+/** "CS 101: Midterm", unless the title already starts with the code */
+export function withCoursePrefix(title: string, code: string | undefined) {
+  const c = code?.trim();
+  if (!c || !codeKey(c)) return title;
+  // The code's letters and digits in order, with any separators between them
+  const chars = [...codeKey(c)].map((ch) => ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const prefixed = new RegExp(`^${chars.join("[^\\p{L}\\p{N}]*")}(?![\\p{L}\\p{N}])`, "iu");
+  return prefixed.test(title.trim()) ? title : `${c}: ${title}`;
+}
+
+/** Calendar name for one course's own calendar */
+export function courseCalendarName(course: CourseInfo, fallback: string) {
+  const code = course.code.trim();
+  const name = course.name?.trim();
+  if (code && name) return `${code} – ${name}`;
+  return code || name || fallback;
+}
+
+/* ---------- helpers ---------- */
+
+function codeKey(s: string | undefined) {
+  return (s ?? "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
@@ -0,0 +1,134 @@
+// lib/details.ts
+// Rooms, meeting links and instructors on a syllabus line. They go into their own event
+// fields (LOCATION, URL, ATTENDEE) instead of the title.
+
+export type EventDetails = {
+  location?: string; // "Hall B 120"
+  url?: string; // "https://zoom.us/j/123"
+  instructor?: string; // "Dr. Smith", optionally with an email: "Jane Doe <jdoe@uni.edu>"
+};
+
+// How many lines at the top may hold the class's room and instructor
+const HEADER_LINES = 15;
+
+// Links, with or without a scheme when on a known meeting host ("zoom.us/j/123")
+const URL_RE = new RegExp(
+  "\\bhttps?://[^\\s<>\"')\\]]+|\\b(?:[\\w-]+\\.)*(?:zoom\\.us|meet\\.google\\.com" +
+    "|teams\\.microsoft\\.com|teams\\.live\\.com|webex\\.com|whereby\\.com)/[^\\s<>\"')\\]]*",
+  "i"
+);
+// "Location: Science Center B", "Where: online"
+const LABELED_LOCATION_RE =
+  /\b(?:location|where|venue|classroom|lecture hall)\s*:\s*([^,;()|]*[^,;()|\s])/i;
+// "Smith Hall 120", "Hall B 120", "Science Building Room 2" after a comma, "in", "at"…
+const BUILDING_RE = new RegExp(
+  "(?:^|(?<=[,;(@|–—]\\s*)|(?<=\\b(?:in|at|im|dans|en)\\s+))" +
+    "(?:[A-Z][\\p{L}.'&-]*\\s+){0,3}" +
+    "(?:Hall|Building|Bldg\\.?|Center|Centre|Auditorium|Library|Gym|Gymnasium|Theater|Theatre" +
+    "|Annex|Pavilion|Tower|Hörsaal|Amphi)" +
+    "(?:\\s+[A-Z](?![\\p{L}]))?(?:\\s+(?:Room|Rm\\.?)?\\s*#?[A-Z]?\\d{1,4}[A-Z]?\\b)?",
+  "u"
+);
+// "Room 120", "Rm. 3B", "Raum 2.14", "Salle 104"
+const ROOM_RE = /\b(?:Room|Rm\.?|Raum|Salle|Aula)\s*#?\s*[A-Z]?\d{1,4}(?:\.\d{1,3})?[A-Z]?\b/i;
+
+const NAME = "[A-Z][\\p{L}'’-]+(?:\\s+[A-Z]\\.)?(?:\\s+[A-Z][\\p{L}'’-]+)?";
+const HONORIFIC = "(?:Dr|Prof|Professor|Mr|Mrs|Ms|Mx)\\.?";
+const ROLE = "(?:[Ii]nstructor|[Ll]ecturer|[Tt]eacher|TAs?|[Tt]utor|[Tt]eaching [Aa]ssistant)";
+// "TA Review Session" is an event, not a TA called Review
+const NOT_NAMES = "(?!(?:Review|Sessions?|Office|Hours|Labs?|Exams?|Quiz|Meetings?|Lectures?)\\b)";
+const EMAIL = "[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+";
+// "with TA Maria Lopez", "Instructor: Dr. Smith (smith@uni.edu)", "by Prof. Lee"
+const INSTRUCTOR_RE = new RegExp(
+  `(?:\\b(?:with|by)\\s+)?(?:\\b${ROLE}\\s*:?\\s+${NOT_NAMES}((?:${HONORIFIC}\\s+)?${NAME})` +
+    `|\\b(${HONORIFIC}\\s+${NAME}))(?:\\s*[<(]?(${EMAIL})[>)]?)?`,
+  "u"
+);
+// Header lines that describe the class itself, not an office or a TA's hours
+const CLASS_LOCATION_RE = /^(?:class\s*)?(?:location|room|classroom|where|venue|lecture hall)\s*:/i;
+const CLASS_INSTRUCTOR_RE = /^(?:instructor|professor|lecturer|teacher)\s*:/i;
+
+/**
+ * Room, link and instructor named on `line`, and the text each was read from (to take
+ * out of the title with `withoutDetails`).
+ */
+export function lineDetails(line: string): { details: EventDetails; found: string[] } {
+  const details: EventDetails = {};
+  const found: string[] = [];
+  let rest = line;
+  const take = (text: string) => {
+    found.push(text);
+    rest = rest.replace(text, " ");
+  };
+
+  const url = URL_RE.exec(rest)?.[0].replace(/[.,;:!?]+$/, "");
+  if (url) {
+    details.url = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+    take(url);
+  }
+
+  const instructor = INSTRUCTOR_RE.exec(rest);
+  if (instructor) {
+    const name = instructor[1] ?? instructor[2];
+    details.instructor = instructor[3] ? `${name} <${instructor[3]}>` : name;
+    take(instructor[0]);
+  }
+
+  const labeled = LABELED_LOCATION_RE.exec(rest);
+  const place = labeled ? undefined : (BUILDING_RE.exec(rest) ?? ROOM_RE.exec(rest));
+  if (labeled) {
+    details.location = labeled[1].trim();
+    take(labeled[0]);
+  } else if (place) {
+    details.location = place[0].trim();
+    take(place[0]);
+  }
+
+  return { details, found };
+}
+
+/** `title` without the details' text and the "in", "at" or comma that led up to it */
+export function withoutDetails(title: string, found: string[]) {
+  let out = title;
+  for (const text of found) {
+    const escaped = text.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    out = out.replace(
+      new RegExp(`\\s*(?:[,;|@–—]|\\s-|\\b(?:in|at|on|via|with|by)\\b)?\\s*${escaped}`, "iu"),
+      " "
+    );
+  }
+  const cleaned = out
+    .replace(/\(\s*\)|\[\s*\]/g, "")
+    .replace(/\s+[.,;:!?]+(?=\s|$)/g, "")
+    .replace(/\s{2,}/g, " ")
+    .replace(/[\s,;:|@–—-]+$/, "")
+    .trim();
+  return cleaned || title;
+}
+
+/** "Jane Doe <jdoe@uni.edu>" → name and email */
+export function splitInstructor(instructor: string) {
+  const m = /^(.*?)\s*<([^<>\s]+@[^<>\s]+)>\s*$/.exec(instructor.trim());
+  return m ? { name: m[1] || m[2], email: m[2] } : { name: instructor.trim() };
+}
+
+/** Room and instructor of the class itself, from "Location:" and "Instructor:" header lines */
+export function classDetails(lines: string[], isEvent: (line: string) => boolean) {
+  const details: EventDetails = {};
+  for (const line of lines.slice(0, HEADER_LINES)) {
+    const text = line.trim();
+    if (CLASS_LOCATION_RE.test(text) && !details.location) {
+      const value = text.replace(CLASS_LOCATION_RE, "").trim();
+      // "Room: 120" says Room 120
+      const room = /^\d/.test(value) && /^room/i.test(text);
+      if (value) details.location = room ? `Room ${value}` : value;
+    } else if (CLASS_INSTRUCTOR_RE.test(text) && !details.instructor) {
+      // "Professor: Jane Doe" has no honorific to go by, so fall back to the label's value
+      const value = text.replace(CLASS_INSTRUCTOR_RE, "").split(/[,;|]/)[0].trim();
+      details.instructor = lineDetails(text).details.instructor ?? (value || undefined);
+    } else if (isEvent(text)) {
+      break;
+    }
+  }
+  return details;
+}
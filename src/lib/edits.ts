@@ -0,0 +1,102 @@
+// lib/edits.ts
+// Edits from the preview table and calendar views: moving events by whole days or onto a
+// time slot, setting a time, sorting rows.
+
+import type { ParsedEvent } from "@/types";
+import { CATEGORIES } from "@/lib/categories";
+import { fromZoned, toZoned } from "@/lib/tz";
+import { atMinutes, dayOf, daysBetween, type Day } from "@/lib/calendar";
+
+export type SortKey = "title" | "category" | "start";
+export type Sort = { key: SortKey; descending: boolean };
+
+// A date changed by hand no longer needs the parser's notes about it
+const DATE_NOTES = { match: undefined, outsideTerm: undefined, altStart: undefined };
+
+/** Same wall-clock time `days` later in `timeZone` (earlier when negative), series included */
+export function shiftDays(e: ParsedEvent, days: number, timeZone: string): ParsedEvent {
+  const move = (d: Date) => {
+    const w = toZoned(d, timeZone);
+    return fromZoned({ ...w, day: w.day + days }, timeZone);
+  };
+  return {
+    ...e,
+    ...DATE_NOTES,
+    start: move(e.start),
+    end: e.end && move(e.end),
+    recurrence: e.recurrence && { ...e.recurrence, until: move(e.recurrence.until) },
+    exdates: e.exdates?.map(move),
+  };
+}
+
+/**
+ * Start at "HH:mm" on the same day. Timed events keep their length; all-day ones become
+ * `durationMinutes` long (multi-day ranges collapse to their first day).
+ */
+export function setTime(
+  e: ParsedEvent,
+  time: string,
+  timeZone: string,
+  durationMinutes = 60
+): ParsedEvent {
+  const [hour, minute] = time.split(":").map(Number);
+  if (!Number.isInteger(hour) || !Number.isInteger(minute)) return e;
+  const w = toZoned(e.start, timeZone);
+  const start = fromZoned({ ...w, hour, minute, second: 0 }, timeZone);
+  const length =
+    !e.allDay && e.end ? e.end.getTime() - e.start.getTime() : durationMinutes * 60000;
+  return { ...e, ...DATE_NOTES, start, end: new Date(start.getTime() + length), allDay: false };
+}
+
+/** Dropped on another day: same time (or still all-day) there, series and ranges included */
+export function moveToDay(e: ParsedEvent, day: Day, timeZone: string): ParsedEvent {
+  return shiftDays(e, daysBetween(dayOf(e.start, timeZone), day), timeZone);
+}
+
+/**
+ * Dropped on a time slot: starts `minutes` past midnight on `day`. Timed events keep their
+ * length (deadlines stay without an end); all-day ones become `durationMinutes` long.
+ */
+export function moveToTime(
+  e: ParsedEvent,
+  day: Day,
+  minutes: number,
+  timeZone: string,
+  durationMinutes = 60
+): ParsedEvent {
+  const moved = moveToDay(e, day, timeZone);
+  const start = atMinutes(day, minutes, timeZone);
+  const length = e.allDay ? durationMinutes * 60000 : e.end && e.end.getTime() - e.start.getTime();
+  return {
+    ...moved,
+    start,
+    end: length === undefined ? undefined : new Date(start.getTime() + length),
+    allDay: false,
+  };
+}
+
+/** Dropped in the all-day row: a single all-day event on `day` */
+export function moveToAllDay(e: ParsedEvent, day: Day, timeZone: string): ParsedEvent {
+  const moved = moveToDay(e, day, timeZone);
+  if (e.allDay) return moved;
+  return { ...moved, start: atMinutes(day, 0, timeZone), end: undefined, allDay: true };
+}
+
+/** Copy of an event as a new one (it gets its own UID on export) */
+export function duplicate(e: ParsedEvent): ParsedEvent {
+  return { ...e, uid: undefined };
+}
+
+/** Row order for the table; events without a category sort last */
+export function compareEvents(a: ParsedEvent, b: ParsedEvent, sort: Sort) {
+  const rank = (e: ParsedEvent) =>
+    e.category ? CATEGORIES.indexOf(e.category) : CATEGORIES.length;
+  const diff =
+    sort.key === "title"
+      ? a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: "base" })
+      : sort.key === "category"
+        ? rank(a) - rank(b)
+        : a.start.getTime() - b.start.getTime();
+  // Ties stay in start order either way, so same-category rows read chronologically
+  return (sort.descending ? -diff : diff) || a.start.getTime() - b.start.getTime();
+}
@@ -0,0 +1,269 @@
+// lib/export.ts
+// Reads an export request (events + options) into normalized events, shared by every
+// export format so .ics, CSV, JSON and agendas all see the same data.
+
+import type { EventLike } from "@/lib/ics";
+import { assignUids } from "@/lib/identity";
+import { cleanMinutes, normalizeRules, remindersFor } from "@/lib/reminders";
+import {
+  CATEGORY_COLORS,
+  CATEGORY_LABELS,
+  isCategory,
+  isColorName,
+  type Category,
+} from "@/lib/categories";
+import { WEEKDAYS, type Weekday } from "@/lib/recurrence";
+import { isValidTimeZone } from "@/lib/tz";
+import { sameCourse, withCoursePrefix, type CourseInfo } from "@/lib/courses";
+
+export type IncomingEvent = {
+  uid?: string;
+  sequence?: number;
+  lastModified?: string | Date;
+  title: string;
+  start: string | Date;
+  end?: string | Date;
+  allDay?: boolean;
+  description?: string;
+  location?: string;
+  url?: string;
+  instructor?: string; // "Dr. Smith" or "Jane Doe <jdoe@uni.edu>"
+  sourceLine?: string;
+  recurrence?: { freq: "WEEKLY"; byDay: Weekday[]; until: string | Date };
+  exdates?: (string | Date)[];
+  reminders?: number[]; // per-event override, minutes before start
+  category?: Category;
+  course?: string; // course code, see lib/courses.ts
+};
+
+export type ExportRequest = {
+  calendarName: string;
+  timeZone?: string;
+  method: "PUBLISH" | "CANCEL";
+  events: EventLike[];
+};
+
+/** What is wrong with one field of one event, e.g. `events[2].start` */
+export type FieldProblem = { index: number; field: string; message: string };
+
+export type ExportError = { error: string; status: number; problems?: FieldProblem[] };
+
+/**
+ * Accepts a body that is either `[...events]` or `{ events, calendarName?, timeZone?,
+ * method?, reminders?, colors?, categories?, courses? }`, where reminders = { exam: [10080,
+ * 1440] } (minutes before), colors = { exam: "crimson" }, categories limits which categories
+ * are exported and courses = [{ code: "CS 101", color: "teal" }] colors each course.
+ * `?calendar`, `?tz`, `?method` and `?category` override the body; `?course=CS 101` exports
+ * just that course's events (titles get the course code either way). Malformed events are
+ * a 400 listing every bad field in `problems`.
+ */
+export function readExportRequest(
+  raw: unknown,
+  params: URLSearchParams
+): ExportRequest | ExportError {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const bodyArray = Array.isArray(raw) ? raw : Array.isArray(body.events) ? body.events : [];
+  const calendarName =
+    params.get("calendar") || (typeof body.calendarName === "string" && body.calendarName) ||
+    "Syllabus";
+  const timeZone = params.get("tz") || (body.timeZone as string | undefined) || undefined;
+
+  const problems = bodyArray.flatMap(eventProblems);
+  if (problems.length > 0) {
+    const [first] = problems;
+    const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : "";
+    return {
+      error: `events[${first.index}]${first.field && `.${first.field}`} ${first.message}${more}`,
+      status: 400,
+      problems,
+    };
+  }
+
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return { error: `Unknown time zone: ${timeZone}`, status: 400 };
+  }
+
+  // METHOD:CANCEL exports tell calendar apps to remove previously exported events
+  const method = String(params.get("method") ?? body.method ?? "PUBLISH").toUpperCase();
+  if (method !== "PUBLISH" && method !== "CANCEL") {
+    return { error: `Unsupported method: ${method}`, status: 400 };
+  }
+
+  // Only export some categories: ?category=exam&category=quiz or body.categories
+  const categoryFilter = [
+    ...params.getAll("category"),
+    ...(Array.isArray(body.categories) ? body.categories : []),
+  ].filter(isCategory);
+  const courseFilter = params.getAll("course").filter((c) => c.trim());
+  const events = (bodyArray as IncomingEvent[]).filter(
+    (e) =>
+      (categoryFilter.length === 0 || (e.category && categoryFilter.includes(e.category))) &&
+      (courseFilter.length === 0 || courseFilter.some((c) => sameCourse(c, e.course)))
+  );
+
+  if (events.length === 0) {
+    return { error: "No events provided", status: 400 };
+  }
+
+  const reminderRules = normalizeRules(body.reminders);
+  const colors: Record<Category, string> = { ...CATEGORY_COLORS };
+  for (const [k, v] of Object.entries(body.colors ?? {})) {
+    if (isCategory(k) && isColorName(v)) colors[k] = v;
+  }
+  const courses = readCourses(body.courses);
+  const courseOf = (e: IncomingEvent) =>
+    typeof e.course === "string" ? courses.find((c) => sameCourse(c.code, e.course)) : undefined;
+
+  // UIDs come from the source line, so they survive title edits and date changes
+  const withUids = assignUids(events, calendarName);
+
+  const normalized: EventLike[] = withUids.map((e) => {
+    const course = courseOf(e);
+    const code = typeof e.course === "string" ? e.course.trim() : "";
+    const labels = [
+      ...(code ? [code] : []),
+      ...(isCategory(e.category) ? [CATEGORY_LABELS[e.category]] : []),
+    ];
+    return {
+      uid: e.uid,
+      sequence: Number.isInteger(e.sequence) ? e.sequence : undefined,
+      lastModified: e.lastModified ? new Date(e.lastModified) : undefined,
+      title: withCoursePrefix(e.title ?? "Untitled", code),
+      start: new Date(e.start),
+      end: e.end ? new Date(e.end) : undefined,
+      allDay: !!e.allDay,
+      description: description(e),
+      location: e.location?.trim() || undefined,
+      url: e.url?.trim() || undefined,
+      instructor: e.instructor?.trim() || undefined,
+      recurrence: e.recurrence
+        ? { freq: "WEEKLY", byDay: e.recurrence.byDay, until: new Date(e.recurrence.until) }
+        : undefined,
+      exdates: e.exdates?.map((d) => new Date(d)),
+      alarms: remindersFor(
+        {
+          title: e.title ?? "",
+          category: isCategory(e.category) ? e.category : undefined,
+          reminders: Array.isArray(e.reminders) ? cleanMinutes(e.reminders) : undefined,
+        },
+        reminderRules
+      ),
+      categories: labels.length ? labels : undefined,
+      // In a combined calendar the course is what tells events apart at a glance
+      color: course?.color ?? (isCategory(e.category) ? colors[e.category] : undefined),
+    };
+  });
+
+  return { calendarName, timeZone, method, events: normalized };
+}
+
+export function isExportError<T>(r: T | ExportError): r is ExportError {
+  return !!r && typeof r === "object" && "error" in r;
+}
+
+/** Everything that would otherwise end up as "NaN" or garbage in an export */
+function eventProblems(raw: unknown, index: number): FieldProblem[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return [{ index, field: "", message: "must be an object" }];
+  }
+  const e = raw as Record<string, unknown>;
+  const problems: FieldProblem[] = [];
+  const add = (field: string, message: string) => problems.push({ index, field, message });
+  const isDate = (v: unknown) =>
+    (typeof v === "string" || v instanceof Date) && !Number.isNaN(new Date(v).getTime());
+
+  if (e.title !== undefined && typeof e.title !== "string") add("title", "must be a string");
+  if (e.start === undefined) add("start", "is required");
+  else if (!isDate(e.start)) add("start", "is not a valid date");
+  if (e.end !== undefined && e.end !== null) {
+    if (!isDate(e.end)) add("end", "is not a valid date");
+    else if (isDate(e.start) && new Date(e.end as string) < new Date(e.start as string)) {
+      add("end", "is before start");
+    }
+  }
+  if (e.lastModified !== undefined && !isDate(e.lastModified)) {
+    add("lastModified", "is not a valid date");
+  }
+  if (e.sequence !== undefined && !(Number.isInteger(e.sequence) && Number(e.sequence) >= 0)) {
+    add("sequence", "must be a whole number of 0 or more");
+  }
+  for (const field of ["description", "location", "instructor", "sourceLine", "uid", "course"]) {
+    if (e[field] !== undefined && typeof e[field] !== "string") add(field, "must be a string");
+  }
+  if (e.url !== undefined && e.url !== "") {
+    if (typeof e.url !== "string" || !/^https?:\/\/\S+$/i.test(e.url.trim())) {
+      add("url", "must be an http(s) link");
+    }
+  }
+
+  if (e.recurrence !== undefined && e.recurrence !== null) {
+    const r = e.recurrence as Record<string, unknown>;
+    if (typeof r !== "object") add("recurrence", "must be an object");
+    else {
+      if (r.freq !== "WEEKLY") add("recurrence.freq", `must be "WEEKLY"`);
+      const days = r.byDay;
+      if (!Array.isArray(days) || days.length === 0) {
+        add("recurrence.byDay", "must list at least one weekday");
+      } else if (!days.every((d) => WEEKDAYS.includes(d))) {
+        add("recurrence.byDay", `may only contain ${WEEKDAYS.join(", ")}`);
+      }
+      if (!isDate(r.until)) add("recurrence.until", "is not a valid date");
+    }
+  }
+  if (e.exdates !== undefined) {
+    if (!Array.isArray(e.exdates)) add("exdates", "must be a list of dates");
+    else {
+      e.exdates.forEach((d, i) => {
+        if (!isDate(d)) add(`exdates[${i}]`, "is not a valid date");
+      });
+    }
+  }
+  if (e.reminders !== undefined && !Array.isArray(e.reminders)) {
+    add("reminders", "must be a list of minutes");
+  }
+  return problems;
+}
+
+/** `[{ code, name?, color? }]`, dropping entries without a code or with unusable colors */
+function readCourses(raw: unknown): CourseInfo[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((c) => c && typeof c.code === "string" && c.code.trim())
+    .map((c) => ({
+      code: c.code.trim(),
+      name: typeof c.name === "string" ? c.name : undefined,
+      color: isColorName(c.color) ? c.color : undefined,
+    }));
+}
+
+/** The event's own description, then the line it was parsed from */
+function description(e: IncomingEvent) {
+  const parts = [
+    e.description?.trim(),
+    e.sourceLine ? `From syllabus: ${e.sourceLine}` : undefined,
+  ].filter(Boolean);
+  return parts.length ? parts.join("\n") : undefined;
+}
+
+/** Safe download file name (without extension) */
+export function sanitize(name: string) {
+  return String(name).replace(/[\\/:*?"<>|]+/g, "_").trim() || "calendar";
+}
+
+/**
+ * Content-Disposition for a download. Header values are bytes, so "CS 101 – Exams" goes in
+ * as an ASCII `filename` plus the full name as RFC 5987 `filename*`.
+ */
+export function contentDisposition(type: "attachment" | "inline", name: string, ext: string) {
+  const file = `${sanitize(name)}.${ext}`;
+  const ascii = file
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7e]/g, "_");
+  const encoded = encodeURIComponent(file).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
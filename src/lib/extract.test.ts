@@ -0,0 +1,17 @@
+// lib/extract.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { htmlToText, textLines } from "@/lib/extract";
+
+test("htmlToText keeps block structure and decodes entities", () => {
+  const text = htmlToText("<p>Quiz&nbsp;1 &ndash; Oct&#160;6</p><p>Tom &amp; Jerry&#x2019;s</p>");
+  assert.deepEqual(
+    textLines(text).map((l) => l.text),
+    ["Quiz 1 – Oct 6", "Tom & Jerry’s"]
+  );
+});
+
+test("out-of-range numeric entities become U+FFFD instead of throwing", () => {
+  assert.equal(htmlToText("a&#x110000;b&#99999999999;c"), "a�b�c");
+});
@@ -0,0 +1,142 @@
+// lib/extract.ts
+// Pulls plain text lines out of uploaded syllabus files (PDF, DOCX, HTML, text).
+
+import { extractTextItems } from "unpdf";
+import mammoth from "mammoth";
+
+export type SourceLine = {
+  text: string;
+  page?: number; // 1-based page number (PDF only)
+  raw?: string; // the line before whitespace was collapsed: keeps indentation and aligned columns
+};
+
+export type FileKind = "pdf" | "docx" | "html" | "text";
+
+/** Work out what kind of file we were given from its name and MIME type */
+export function detectKind(name: string, type = ""): FileKind | null {
+  const n = name.toLowerCase();
+  const t = type.toLowerCase();
+  if (t === "application/pdf" || n.endsWith(".pdf")) return "pdf";
+  if (
+    t === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+    n.endsWith(".docx")
+  ) {
+    return "docx";
+  }
+  if (t === "text/html" || /\.html?$/.test(n)) return "html";
+  if (t.startsWith("text/") || /\.(txt|md)$/.test(n)) return "text";
+  return null;
+}
+
+/** Extract non-empty lines from a file's bytes, keeping page numbers where known */
+export async function extractLines(bytes: Uint8Array, kind: FileKind): Promise<SourceLine[]> {
+  switch (kind) {
+    case "pdf":
+      return pdfLines(bytes);
+    case "docx": {
+      const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(bytes) });
+      return textLines(htmlToText(value));
+    }
+    case "html":
+      return textLines(htmlToText(new TextDecoder().decode(bytes)));
+    case "text":
+      return textLines(new TextDecoder().decode(bytes));
+  }
+}
+
+/** Split plain text into trimmed, non-empty lines */
+export function textLines(text: string, page?: number): SourceLine[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw) => ({ raw: raw.replace(/\u00a0/g, " ").trimEnd(), text: collapse(raw) }))
+    .filter((l) => l.text)
+    .map((l) => (page ? { ...l, page } : l));
+}
+
+function collapse(line: string) {
+  return line.replace(/[ \u00a0]+/g, " ").trim();
+}
+
+/* ---------- PDF ---------- */
+
+async function pdfLines(bytes: Uint8Array): Promise<SourceLine[]> {
+  const { items } = await extractTextItems(bytes);
+  const out: SourceLine[] = [];
+
+  items.forEach((pageItems, i) => {
+    const left = Math.min(...pageItems.filter((it) => it.str.trim()).map((it) => it.x));
+    // Group text runs that share a baseline (PDF y grows upwards)
+    const rows: { y: number; size: number; runs: typeof pageItems }[] = [];
+    for (const item of pageItems) {
+      if (!item.str.trim()) continue;
+      const row = rows.find((r) => Math.abs(r.y - item.y) <= Math.max(2, r.size * 0.4));
+      if (row) row.runs.push(item);
+      else rows.push({ y: item.y, size: item.fontSize || 10, runs: [item] });
+    }
+    rows.sort((a, b) => b.y - a.y);
+
+    for (const row of rows) {
+      row.runs.sort((a, b) => a.x - b.x);
+      let text = "";
+      let lastEnd: number | null = null;
+      for (const run of row.runs) {
+        if (lastEnd !== null) {
+          const gap = run.x - lastEnd;
+          // Wide gaps are table columns; small ones are word spaces
+          if (gap > row.size * 2) text += "\t";
+          else if (gap > row.size * 0.15 && !/\s$/.test(text)) text += " ";
+        }
+        text += run.str;
+        lastEnd = run.x + run.width;
+      }
+      // Indent relative to the page margin, in rough character widths
+      const indent = Math.max(0, Math.round((row.runs[0].x - left) / (row.size * 0.5)));
+      const line = collapse(text);
+      if (line) out.push({ text: line, page: i + 1, raw: " ".repeat(indent) + text.trim() });
+    }
+  });
+
+  return out;
+}
+
+/* ---------- HTML ---------- */
+
+const BLOCK_TAGS =
+  "p|div|li|ul|ol|tr|table|thead|tbody|section|article|header|footer|h[1-6]|blockquote|pre|dt|dd";
+const BLOCK_RE = new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, "gi");
+
+/** Flatten HTML into text: blocks become lines, table cells become tab-separated */
+export function htmlToText(html: string) {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      // Source whitespace (indentation, newlines between cells) means nothing in HTML
+      .replace(/\s+/g, " ")
+      // Paragraphs inside a cell (as Word emits) must not split the row
+      .replace(/<(td|th)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, inner: string) =>
+        `${inner.replace(BLOCK_RE, " ").replace(/<br\s*\/?>/gi, " ").trim()}\t`
+      )
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(BLOCK_RE, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .split("\n")
+    .map((l) => l.replace(/\t+\s*$/, "").replace(/^ +/, ""))
+    .join("\n");
+}
+
+function decodeEntities(s: string) {
+  const named: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+    ndash: "–", mdash: "—", rsquo: "’", lsquo: "‘", rdquo: "”", ldquo: "“",
+  };
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      // String.fromCodePoint throws past U+10FFFF ("&#x110000;")
+      return n <= 0x10ffff ? String.fromCodePoint(n) : "\ufffd";
+    }
+    return named[code.toLowerCase()] ?? m;
+  });
+}
@@ -0,0 +1,297 @@
+// lib/formats.ts
+// Non-iCalendar exports: Google/Outlook CSV, JSON and a week-by-week agenda (Markdown or
+// printable HTML). All take the normalized events from `readExportRequest`.
+
+import type { EventLike } from "@/lib/ics";
+import { WEEKDAYS, type Weekday } from "@/lib/recurrence";
+import { fromZoned, toZoned, wallOf, type WallTime } from "@/lib/tz";
+
+export type ExportFormat = "ics" | "csv" | "outlook-csv" | "json" | "md" | "html";
+
+export const EXPORT_FORMATS: {
+  format: ExportFormat;
+  label: string;
+  ext: string;
+  type: string;
+}[] = [
+  { format: "ics", label: "iCalendar (.ics)", ext: "ics", type: "text/calendar" },
+  { format: "csv", label: "Google Calendar CSV", ext: "csv", type: "text/csv" },
+  { format: "outlook-csv", label: "Outlook CSV", ext: "csv", type: "text/csv" },
+  { format: "json", label: "JSON", ext: "json", type: "application/json" },
+  { format: "md", label: "Markdown agenda", ext: "md", type: "text/markdown" },
+  { format: "html", label: "Printable agenda (HTML)", ext: "html", type: "text/html" },
+];
+
+export function isExportFormat(v: unknown): v is ExportFormat {
+  return EXPORT_FORMATS.some((f) => f.format === v);
+}
+
+type Occurrence = { event: EventLike; start: Date; end?: Date };
+
+/** Calendar fields in `timeZone`, or server-local time when no zone is given (as in ics.ts) */
+function wall(d: Date, timeZone?: string): WallTime {
+  return timeZone ? toZoned(d, timeZone) : wallOf(d);
+}
+
+function unwall(w: WallTime, timeZone?: string) {
+  return timeZone
+    ? fromZoned(w, timeZone)
+    : new Date(w.year, w.month - 1, w.day, w.hour, w.minute, w.second ?? 0);
+}
+
+/** Every occurrence of the event: weekly series are expanded, skipping EXDATEs */
+export function occurrences(e: EventLike, timeZone?: string): Occurrence[] {
+  if (!e.recurrence) return [{ event: e, start: e.start, end: e.end }];
+
+  const first = wall(e.start, timeZone);
+  const duration = e.end ? e.end.getTime() - e.start.getTime() : undefined;
+  const skipped = new Set((e.exdates ?? []).map((d) => d.getTime()));
+  const out: Occurrence[] = [];
+  for (let i = 0; i < 366 * 2; i++) {
+    const day = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+    const start = unwall(
+      { ...first, year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() },
+      timeZone
+    );
+    if (start > e.recurrence.until) break;
+    if (!e.recurrence.byDay.includes(WEEKDAYS[day.getUTCDay()])) continue;
+    if (skipped.has(start.getTime())) continue;
+    out.push({
+      event: e,
+      start,
+      end: duration !== undefined ? new Date(start.getTime() + duration) : undefined,
+    });
+  }
+  return out;
+}
+
+/* ---------- CSV ---------- */
+
+function csvField(v: string) {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+function csvRow(values: string[]) {
+  return values.map(csvField).join(",");
+}
+
+function usDate(w: WallTime) {
+  return `${pad(w.month)}/${pad(w.day)}/${w.year}`;
+}
+
+function usTime(w: WallTime) {
+  const h = w.hour % 12 || 12;
+  return `${h}:${pad(w.minute)} ${w.hour < 12 ? "AM" : "PM"}`;
+}
+
+/**
+ * Google Calendar's import CSV, or Outlook's (which adds a reminder and categories).
+ * CSV has no recurrence, so series are written out occurrence by occurrence.
+ */
+export function toCSV(events: EventLike[], flavor: "google" | "outlook", timeZone?: string) {
+  const when = ["Subject", "Start Date", "Start Time", "End Date", "End Time"];
+  const header =
+    flavor === "google"
+      ? [...when, "All Day Event", "Description", "Location", "Private"]
+      : [...when, "All day event", "Reminder on/off", "Reminder Date", "Reminder Time",
+         "Categories", "Description", "Location"];
+
+  const all = events.flatMap((e) => occurrences(e, timeZone));
+  const rows = all.map(({ event: e, start, end }) => {
+    const s = wall(start, timeZone);
+    const f = wall(end ?? (e.allDay ? start : new Date(start.getTime() + 60 * 60000)), timeZone);
+    const times = e.allDay
+      ? [e.title, usDate(s), "", usDate(f), "", "True"]
+      : [e.title, usDate(s), usTime(s), usDate(f), usTime(f), "False"];
+    if (flavor === "google") {
+      return csvRow([...times, e.description ?? "", e.location ?? "", "False"]);
+    }
+
+    // Outlook takes one reminder; use the closest one
+    const alarm = e.alarms?.length ? Math.min(...e.alarms) : undefined;
+    const remind =
+      alarm !== undefined ? wall(new Date(start.getTime() - alarm * 60000), timeZone) : undefined;
+    return csvRow([
+      ...times,
+      remind ? "True" : "False",
+      remind ? usDate(remind) : "",
+      remind ? usTime(remind) : "",
+      (e.categories ?? []).join(";"),
+      e.description ?? "",
+      e.location ?? "",
+    ]);
+  });
+
+  return [csvRow(header), ...rows].join("\r\n") + "\r\n";
+}
+
+/* ---------- JSON ---------- */
+
+export function toJSON(events: EventLike[], calendarName: string, timeZone?: string) {
+  return JSON.stringify({ calendarName, timeZone, events }, null, 2);
+}
+
+/* ---------- agenda ---------- */
+
+type AgendaDay = { label: string; items: Occurrence[] };
+type AgendaWeek = { label: string; days: AgendaDay[] };
+
+const DAY_NAMES: Record<Weekday, string> = {
+  SU: "Sun", MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat",
+};
+
+/** Label a calendar day (given as a UTC date) without any zone shifting */
+function dayLabel(d: Date, withYear = false) {
+  return d.toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...(withYear ? { year: "numeric" } : {}),
+  });
+}
+
+function timeLabel(o: Occurrence, timeZone?: string) {
+  if (o.event.allDay) return "All day";
+  const s = usTime(wall(o.start, timeZone));
+  return o.end ? `${s}–${usTime(wall(o.end, timeZone))}` : s;
+}
+
+/** Calendar day of an instant in `timeZone`, as a UTC-midnight Date */
+function dayOf(d: Date, timeZone?: string) {
+  const w = wall(d, timeZone);
+  return new Date(Date.UTC(w.year, w.month - 1, w.day));
+}
+
+/** One-off events grouped into Monday-based weeks and days; series are listed apart */
+function agenda(events: EventLike[], timeZone?: string) {
+  const weeks: AgendaWeek[] = [];
+  const dated = events
+    .filter((e) => !e.recurrence)
+    .map((e) => ({ event: e, start: e.start, end: e.end }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  let monday: number | undefined;
+  let day: number | undefined;
+  for (const o of dated) {
+    const d = dayOf(o.start, timeZone);
+    const m = d.getTime() - ((d.getUTCDay() + 6) % 7) * 86400000;
+    if (m !== monday) {
+      weeks.push({ label: `Week of ${dayLabel(new Date(m), true)}`, days: [] });
+      monday = m;
+    }
+    const week = weeks[weeks.length - 1];
+    if (d.getTime() !== day || week.days.length === 0) {
+      week.days.push({ label: dayLabel(d), items: [] });
+      day = d.getTime();
+    }
+    week.days[week.days.length - 1].items.push(o);
+  }
+
+  const series = events
+    .filter((e) => e.recurrence)
+    .map((e) => {
+      const range = `${dayLabel(dayOf(e.start, timeZone))} – ${dayLabel(
+        dayOf(e.recurrence!.until, timeZone)
+      )}`;
+      const days = e.recurrence!.byDay.map((d) => DAY_NAMES[d]).join(", ");
+      const time = timeLabel({ event: e, start: e.start, end: e.end }, timeZone);
+      const skipped = e.exdates?.length ? ` (${e.exdates.length} skipped)` : "";
+      return { event: e, text: `${days} ${time}, ${range}${skipped}` };
+    });
+
+  return { series, weeks };
+}
+
+export function toMarkdown(events: EventLike[], calendarName: string, timeZone?: string) {
+  const { series, weeks } = agenda(events, timeZone);
+  const lines = [`# ${calendarName}`, ""];
+  if (timeZone) lines.push(`_Times in ${timeZone}_`, "");
+  if (series.length) {
+    lines.push("## Every week", "");
+    for (const s of series) lines.push(`- **${mdEscape(s.event.title)}** — ${s.text}`);
+    lines.push("");
+  }
+  for (const w of weeks) {
+    lines.push(`## ${w.label}`, "");
+    for (const d of w.days) {
+      lines.push(`### ${d.label}`, "");
+      for (const o of d.items) {
+        const cat = o.event.categories?.length ? ` _(${o.event.categories.join(", ")})_` : "";
+        lines.push(`- ${timeLabel(o, timeZone)} — ${mdEscape(o.event.title)}${cat}`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+export function toAgendaHTML(events: EventLike[], calendarName: string, timeZone?: string) {
+  const { series, weeks } = agenda(events, timeZone);
+  const swatch = (e: EventLike) =>
+    e.color ? `<span class="dot" style="background:${e.color}"></span>` : "";
+  const item = (time: string, e: EventLike) =>
+    `<li><span class="time">${esc(time)}</span> ${swatch(e)}${esc(e.title)}${
+      e.categories?.length ? ` <span class="cat">${esc(e.categories.join(", "))}</span>` : ""
+    }</li>`;
+
+  const body = [
+    `<h1>${esc(calendarName)}</h1>`,
+    timeZone ? `<p class="tz">Times in ${esc(timeZone)}</p>` : "",
+    series.length
+      ? `<section><h2>Every week</h2><ul>${series
+          .map((s) => `<li>${swatch(s.event)}<b>${esc(s.event.title)}</b> — ${esc(s.text)}</li>`)
+          .join("")}</ul></section>`
+      : "",
+    ...weeks.map(
+      (w) =>
+        `<section><h2>${esc(w.label)}</h2>${w.days
+          .map(
+            (d) =>
+              `<h3>${esc(d.label)}</h3><ul>${d.items
+                .map((o) => item(timeLabel(o, timeZone), o.event))
+                .join("")}</ul>`
+          )
+          .join("")}</section>`
+    ),
+  ].join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(calendarName)}</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; max-width: 48rem; margin: 2rem auto;
+         padding: 0 1rem; }
+  h2 { border-bottom: 1px solid #ccc; margin-top: 1.5rem; }
+  h3 { font-size: 1rem; margin: 0.75rem 0 0.25rem; }
+  ul { list-style: none; padding: 0; margin: 0; }
+  li { padding: 0.15rem 0; }
+  .time { display: inline-block; min-width: 9rem; color: #555; }
+  .cat, .tz { color: #777; font-size: 0.85em; }
+  .dot { display: inline-block; width: 0.6rem; height: 0.6rem; border-radius: 50%;
+         margin-right: 0.35rem; }
+  @media print { body { margin: 0; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/* ---------- helpers ---------- */
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function esc(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function mdEscape(s: string) {
+  return s.replace(/([\\`*_[\]#|])/g, "\\$1");
+}
@@ -0,0 +1,47 @@
+// lib/history.ts
+// Undo/redo stacks of snapshots; quick repeats of the same edit fold into one step.
+
+export type History<T> = {
+  past: T[];
+  future: T[];
+  lastKey?: string; // what the newest step was for, e.g. "title:3"
+  lastAt?: number;
+};
+
+const LIMIT = 100;
+// Typing a title is one step, not one per keystroke
+const FOLD_MS = 1500;
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+/** Remember `before` as an undo step (clearing redo); a repeat of `key` extends the last step */
+export function record<T>(h: History<T>, before: T, key?: string, now = Date.now()): History<T> {
+  if (key && key === h.lastKey && h.lastAt && now - h.lastAt < FOLD_MS) {
+    return { ...h, future: [], lastAt: now };
+  }
+  return { past: [...h.past, before].slice(-LIMIT), future: [], lastKey: key, lastAt: now };
+}
+
+/**
+ * Step back: the newest snapshot comes out, and `present` (the current state of whatever
+ * that snapshot covers) goes onto the redo stack. Null when there is nothing to undo.
+ */
+export function undo<T>(h: History<T>, present: (step: T) => T) {
+  const step = h.past[h.past.length - 1];
+  if (step === undefined) return null;
+  return {
+    history: { past: h.past.slice(0, -1), future: [present(step), ...h.future] },
+    value: step,
+  };
+}
+
+export function redo<T>(h: History<T>, present: (step: T) => T) {
+  const step = h.future[0];
+  if (step === undefined) return null;
+  return {
+    history: { past: [...h.past, present(step)], future: h.future.slice(1) },
+    value: step,
+  };
+}
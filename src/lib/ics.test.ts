@@ -0,0 +1,70 @@
+// lib/ics.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fold, makeICS, parseICS, type EventLike } from "@/lib/ics";
+
+const ZONE = "America/Chicago";
+
+function vevent(...props: string[]) {
+  const event = ["BEGIN:VEVENT", "UID:x@example.com", ...props, "END:VEVENT"];
+  return ["BEGIN:VCALENDAR", ...event, "END:VCALENDAR"].join("\r\n");
+}
+
+test("fold keeps lines within 75 octets without splitting characters", () => {
+  const folded = fold(`SUMMARY:${"é".repeat(60)}`);
+  const lines = folded.split("\r\n");
+  assert.ok(lines.length > 1);
+  for (const line of lines) assert.ok(Buffer.byteLength(line) <= 75);
+  assert.equal(lines.map((l, i) => (i ? l.slice(1) : l)).join(""), `SUMMARY:${"é".repeat(60)}`);
+});
+
+test("a timed series with skipped days comes back as it went out", () => {
+  const event: EventLike = {
+    uid: "lectures@example.com",
+    title: "Lectures; intro, part 1",
+    start: new Date("2026-08-24T15:00:00Z"), // 10:00 in Chicago
+    end: new Date("2026-08-24T15:50:00Z"),
+    recurrence: {
+      freq: "WEEKLY",
+      byDay: ["MO", "WE", "FR"],
+      until: new Date("2026-12-12T05:59:59Z"),
+    },
+    exdates: [new Date("2026-11-27T16:00:00Z")],
+    location: "Hall B 120",
+  };
+  const [back] = parseICS(makeICS([event], "CS 101", { timeZone: ZONE }), ZONE).events;
+  assert.equal(back.title, event.title);
+  assert.equal(back.start.toISOString(), "2026-08-24T15:00:00.000Z");
+  assert.equal(back.end?.toISOString(), "2026-08-24T15:50:00.000Z");
+  assert.deepEqual(back.recurrence?.byDay, ["MO", "WE", "FR"]);
+  assert.deepEqual(back.exdates?.map((d) => d.toISOString()), ["2026-11-27T16:00:00.000Z"]);
+  assert.equal(back.location, "Hall B 120");
+});
+
+test("only our own marker makes a description a source line", () => {
+  const ours = parseICS(
+    vevent(
+      "SUMMARY:Quiz 1",
+      "DTSTART;VALUE=DATE:20261006",
+      "DESCRIPTION:Unit 2\\nFrom syllabus: Quiz 1 Oct 6"
+    ),
+    ZONE
+  ).events[0];
+  assert.equal(ours.sourceLine, "Quiz 1 Oct 6");
+  assert.equal(ours.description, "Unit 2");
+
+  const theirs = parseICS(
+    vevent("SUMMARY:Dentist", "DTSTART;VALUE=DATE:20261006", "DESCRIPTION:Bring the forms"),
+    ZONE
+  ).events[0];
+  assert.equal(theirs.sourceLine, "");
+  assert.equal(theirs.description, "Bring the forms");
+});
+
+test("an empty calendar still exports, without a VTIMEZONE", () => {
+  const ics = makeICS([], "Empty", { timeZone: ZONE });
+  assert.match(ics, /X-WR-TIMEZONE:America\/Chicago/);
+  assert.doesNotMatch(ics, /BEGIN:VTIMEZONE/);
+  assert.deepEqual(parseICS(ics, ZONE), { name: "Empty", events: [] });
+});
@@ -1,74 +1,545 @@
-import { addDays, addMinutes } from "date-fns";
+import { addMinutes } from "date-fns";
+import type { ParsedEvent } from "@/types";
+import { assignUids } from "@/lib/identity";
+import { cleanMinutes, toTrigger } from "@/lib/reminders";
+import { toRRule, WEEKDAYS, type Recurrence, type Weekday } from "@/lib/recurrence";
+import { CATEGORIES, CATEGORY_LABELS, classify, type Category } from "@/lib/categories";
+import { splitInstructor } from "@/lib/details";
+import {
+  fromZoned,
+  isValidTimeZone,
+  offsetMinutes,
+  toZoned,
+  transitions,
+  wallOf,
+  zoneAbbreviation,
+  type WallTime,
+} from "@/lib/tz";
 
 function pad(n: number) {
   return String(n).padStart(2, "0");
 }
 
-function fmtDate(d: Date) {
-  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+/** Calendar fields of `d` in `timeZone`, or in server-local time when no zone is given */
+function wall(d: Date, timeZone?: string): WallTime {
+  return timeZone ? toZoned(d, timeZone) : wallOf(d);
 }
 
-function fmtDateTime(d: Date) {
-  // local time, e.g. 20251016T090000
-  return `${fmtDate(d)}T${pad(d.getHours())}${pad(d.getMinutes())}00`;
+function fmtDay(w: WallTime) {
+  return `${w.year}${pad(w.month)}${pad(w.day)}`;
 }
 
+function fmtWall(w: WallTime) {
+  // wall-clock time, e.g. 20251016T090000
+  return `${fmtDay(w)}T${pad(w.hour)}${pad(w.minute)}${pad(w.second ?? 0)}`;
+}
+
+function fmtUTC(d: Date) {
+  // absolute time, e.g. 20251016T140000Z
+  return `${fmtWall({
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+    second: d.getUTCSeconds(),
+  })}Z`;
+}
+
+function nextDay(w: WallTime): WallTime {
+  const d = new Date(Date.UTC(w.year, w.month - 1, w.day + 1));
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: 0,
+    minute: 0,
+  };
+}
+
+function fmtOffset(minutes: number) {
+  const sign = minutes < 0 ? "-" : "+";
+  const m = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(m / 60))}${pad(m % 60)}`;
+}
+
+// RFC 5545 TEXT allows no control characters except tab; line breaks are escaped first
+const CONTROL_RE = /[\u0000-\u0008\u000a-\u001f\u007f]/g;
+
+/** TEXT value: backslashes, line breaks (any style), commas and semicolons escaped */
 function esc(s: string) {
-  // escape per iCalendar rules
   return s
     .replace(/\\/g, "\\\\")
-    .replace(/\n/g, "\\n")
+    .replace(/\r\n?|\n/g, "\\n")
     .replace(/,/g, "\\,")
-    .replace(/;/g, "\\;");
+    .replace(/;/g, "\\;")
+    .replace(CONTROL_RE, "");
+}
+
+/** Parameter value: quoted when it holds , ; or :, and never containing a DQUOTE */
+function paramValue(s: string) {
+  const v = s.replace(/"/g, "'").replace(CONTROL_RE, "");
+  return /[,;:]/.test(v) ? `"${v}"` : v;
+}
+
+/**
+ * Content lines are at most 75 octets; the rest continues on lines starting with a space.
+ * Splits fall between characters, never inside a UTF-8 sequence or a surrogate pair.
+ */
+export function fold(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = utf8Length(ch);
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** Octets of one code point in UTF-8 */
+function utf8Length(ch: string) {
+  const code = ch.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
 }
 
 export type EventLike = {
+  uid?: string; // stable identity; derived from the title when missing
+  sequence?: number; // revision number, bumped each time the event changes
+  lastModified?: Date;
   title: string;
   start: Date;
   end?: Date;
   allDay?: boolean;
   description?: string;
+  location?: string;
+  url?: string; // http(s) link, e.g. the online meeting
+  instructor?: string; // "Dr. Smith"; "Jane Doe <jdoe@uni.edu>" also becomes an ATTENDEE
+  recurrence?: Recurrence;
+  exdates?: Date[]; // occurrences of the series to skip
+  alarms?: number[]; // reminders, in minutes before the start
+  categories?: string[];
+  color?: string; // CSS3 color name (RFC 7986)
+};
+
+export type ICSOptions = {
+  // IANA zone; timed events use TZID + VTIMEZONE. Without one they are written in UTC.
+  timeZone?: string;
+  // CANCEL marks every event as cancelled so calendar apps remove them
+  method?: "PUBLISH" | "CANCEL";
+  // How often subscribers should refetch a feed, as an iCalendar duration (e.g. "PT6H")
+  refreshInterval?: string;
 };
 
-export function makeICS(events: EventLike[], calendarName = "Syllabus") {
-  const now = new Date();
-  const dtstamp = fmtDateTime(now);
+export function makeICS(events: EventLike[], calendarName = "Syllabus", opts: ICSOptions = {}) {
+  const { timeZone, method, refreshInterval } = opts;
+  const dtstamp = fmtUTC(new Date());
 
   const lines: string[] = [
     "BEGIN:VCALENDAR",
     "VERSION:2.0",
     "PRODID:-//SyllabusToCalendar//EN",
     "CALSCALE:GREGORIAN",
+    ...(method ? [`METHOD:${method}`] : []),
     `NAME:${esc(calendarName)}`,
     `X-WR-CALNAME:${esc(calendarName)}`,
   ];
 
-  events.forEach((e, i) => {
-    const uid = `${now.getTime()}-${i}@syllabus.local`;
+  if (refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${refreshInterval}`);
+    lines.push(`X-PUBLISHED-TTL:${refreshInterval}`);
+  }
+
+  if (timeZone) {
+    lines.push(`X-WR-TIMEZONE:${timeZone}`);
+    // No events, no dates to cover
+    if (events.length) lines.push(...vtimezone(timeZone, events));
+  }
+
+  // Timed values: TZID-qualified wall time, or UTC when no zone is set
+  const dateTime = (name: string, dates: Date[]) =>
+    timeZone
+      ? `${name};TZID=${timeZone}:${dates.map((d) => fmtWall(wall(d, timeZone))).join(",")}`
+      : `${name}:${dates.map(fmtUTC).join(",")}`;
+  const date = (d: Date) => fmtDay(wall(d, timeZone));
 
+  assignUids(events, calendarName).forEach((e) => {
     lines.push("BEGIN:VEVENT");
-    lines.push(`UID:${uid}`);
+    lines.push(`UID:${esc(e.uid ?? "")}`);
+    lines.push(`SEQUENCE:${e.sequence ?? 0}`);
     lines.push(`SUMMARY:${esc(e.title)}`);
     lines.push(`DTSTAMP:${dtstamp}`);
+    if (e.lastModified) lines.push(`LAST-MODIFIED:${fmtUTC(e.lastModified)}`);
 
     if (e.allDay) {
       // All-day events use VALUE=DATE; DTEND is the next day
-      const startDate = fmtDate(e.start);
-      const endDate = fmtDate(addDays(e.end ?? e.start, 1));
-      lines.push(`DTSTART;VALUE=DATE:${startDate}`);
-      lines.push(`DTEND;VALUE=DATE:${endDate}`);
+      lines.push(`DTSTART;VALUE=DATE:${date(e.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${fmtDay(nextDay(wall(e.end ?? e.start, timeZone)))}`);
     } else {
-      const startDT = fmtDateTime(e.start);
-      const endDT = fmtDateTime(e.end ?? addMinutes(e.start, 60));
-      lines.push(`DTSTART:${startDT}`);
-      lines.push(`DTEND:${endDT}`);
+      lines.push(dateTime("DTSTART", [e.start]));
+      lines.push(dateTime("DTEND", [e.end ?? addMinutes(e.start, 60)]));
     }
 
-    if (e.description) lines.push(`DESCRIPTION:${esc(e.description)}`);
-    lines.push("STATUS:CONFIRMED");
+    if (e.recurrence) {
+      // UNTIL is a DATE for all-day series and must be UTC for timed ones
+      lines.push(`RRULE:${toRRule(e.recurrence, e.allDay ? date : fmtUTC)}`);
+    }
+    if (e.exdates?.length) {
+      lines.push(
+        e.allDay
+          ? `EXDATE;VALUE=DATE:${e.exdates.map(date).join(",")}`
+          : dateTime("EXDATE", e.exdates)
+      );
+    }
+
+    // The instructor leads the description; with an email they are an attendee too
+    const instructor = e.instructor ? splitInstructor(e.instructor) : undefined;
+    const description = [instructor && `Instructor: ${instructor.name}`, e.description]
+      .filter(Boolean)
+      .join("\n");
+    if (description) lines.push(`DESCRIPTION:${esc(description)}`);
+    if (e.location) lines.push(`LOCATION:${esc(e.location)}`);
+    if (e.url) lines.push(`URL:${e.url}`);
+    if (instructor?.email) {
+      const cn = paramValue(instructor.name);
+      lines.push(`ATTENDEE;CN=${cn};ROLE=CHAIR;PARTSTAT=ACCEPTED:mailto:${instructor.email}`);
+    }
+    if (e.categories?.length) lines.push(`CATEGORIES:${e.categories.map(esc).join(",")}`);
+    if (e.color) lines.push(`COLOR:${esc(e.color)}`);
+    lines.push(method === "CANCEL" ? "STATUS:CANCELLED" : "STATUS:CONFIRMED");
+
+    if (method !== "CANCEL") {
+      for (const minutes of e.alarms ?? []) {
+        lines.push("BEGIN:VALARM");
+        lines.push("ACTION:DISPLAY");
+        lines.push(`DESCRIPTION:${esc(e.title)}`);
+        lines.push(`TRIGGER:${toTrigger(minutes)}`);
+        lines.push("END:VALARM");
+      }
+    }
     lines.push("END:VEVENT");
   });
 
   lines.push("END:VCALENDAR");
-  return lines.join("\r\n");
+  // Every content line, the last one included, ends in CRLF
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/**
+ * VTIMEZONE covering every year the events touch. Each offset change found in that
+ * span becomes its own STANDARD/DAYLIGHT observance, so no tz database is needed.
+ */
+function vtimezone(timeZone: string, events: EventLike[]) {
+  const instants = events.flatMap((e) => [
+    e.start,
+    ...(e.end ? [e.end] : []),
+    ...(e.recurrence ? [e.recurrence.until] : []),
+  ]);
+  const years = instants.map((d) => d.getUTCFullYear()).filter(Number.isFinite);
+  const from = new Date(Date.UTC(Math.min(...years) - 1, 11, 1));
+  const to = new Date(Date.UTC(Math.max(...years) + 1, 0, 1));
+
+  const initial = offsetMinutes(from, timeZone);
+  const changes = transitions(timeZone, from, to);
+  const standard = Math.min(initial, ...changes.map((c) => c.to));
+
+  const observance = (at: Date, fromOffset: number, toOffset: number) => [
+    `BEGIN:${toOffset > standard ? "DAYLIGHT" : "STANDARD"}`,
+    // Observance start is wall time in the offset being left
+    `DTSTART:${fmtUTC(new Date(at.getTime() + fromOffset * 60000)).slice(0, -1)}`,
+    `TZOFFSETFROM:${fmtOffset(fromOffset)}`,
+    `TZOFFSETTO:${fmtOffset(toOffset)}`,
+    ...[zoneAbbreviation(at, timeZone)].filter(Boolean).map((n) => `TZNAME:${n}`),
+    `END:${toOffset > standard ? "DAYLIGHT" : "STANDARD"}`,
+  ];
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observance(from, initial, initial),
+    ...changes.flatMap((c) => observance(c.at, c.from, c.to)),
+    "END:VTIMEZONE",
+  ];
+}
+
+/* ---------- reading ---------- */
+
+export type ImportedCalendar = {
+  name?: string; // X-WR-CALNAME / NAME
+  events: ParsedEvent[];
+};
+
+// An edited occurrence of a series carries the date it replaces
+type ImportedEvent = ParsedEvent & { recurrenceId?: Date };
+
+export type Property = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+/**
+ * Read an .ics file back into events, the counterpart of `makeICS`. Floating times and
+ * all-day dates are placed in `timeZone`, as are TZIDs the browser doesn't know. Only
+ * weekly RRULEs (with UNTIL or COUNT) fit a `Recurrence`; other rules keep just the first
+ * occurrence. Cancelled events are skipped.
+ */
+export function parseICS(text: string, timeZone: string): ImportedCalendar {
+  const props = unfold(text).map(parseProperty).filter((p): p is Property => !!p);
+
+  let name: string | undefined;
+  const raw: Property[][] = [];
+  const stack: string[] = [];
+  for (const p of props) {
+    if (p.name === "BEGIN") {
+      stack.push(p.value.toUpperCase());
+      if (p.value.toUpperCase() === "VEVENT") raw.push([]);
+    } else if (p.name === "END") {
+      stack.pop();
+    } else if (stack.length === 1 && (p.name === "X-WR-CALNAME" || p.name === "NAME")) {
+      name ??= unescapeText(p.value);
+    } else if (stack[stack.length - 1] === "VEVENT") {
+      raw[raw.length - 1].push(p);
+    } else if (stack[stack.length - 1] === "VALARM" && stack[stack.length - 2] === "VEVENT") {
+      // Only the trigger matters; prefix it so it can't clash with event properties
+      if (p.name === "TRIGGER") raw[raw.length - 1].push({ ...p, name: "VALARM-TRIGGER" });
+    }
+  }
+
+  const events = raw
+    .map((list) => readEvent(list, timeZone))
+    .filter((e): e is ImportedEvent => !!e);
+
+  // Edited occurrences (RECURRENCE-ID) replace theirs in the series
+  for (const e of events) {
+    if (!e.recurrenceId) continue;
+    const series = events.find((s) => s.uid === e.uid && s.recurrence && !s.recurrenceId);
+    if (series) series.exdates = [...(series.exdates ?? []), e.recurrenceId];
+    e.uid = undefined;
+  }
+
+  return {
+    name,
+    events: events.map((e) => {
+      const event: ImportedEvent = { ...e };
+      delete event.recurrenceId;
+      return event;
+    }),
+  };
+}
+
+function readEvent(props: Property[], timeZone: string): ImportedEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  if (get("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+
+  const dtstart = get("DTSTART");
+  if (!dtstart) return null;
+  const start = readDate(dtstart, timeZone);
+  if (Number.isNaN(start.date.getTime())) return null;
+  const allDay = start.allDay;
+
+  let end: Date | undefined;
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  if (dtend) end = readDate(dtend, timeZone).date;
+  else if (duration) {
+    end = new Date(start.date.getTime() + durationMinutes(duration.value) * 60000);
+  }
+  if (end && allDay) {
+    // DTEND is exclusive for dates; we keep the last day itself
+    end = addDays(end, -1, timeZone);
+    if (end <= start.date) end = undefined;
+  }
+  if (end && Number.isNaN(end.getTime())) end = undefined;
+
+  const title = unescapeText(get("SUMMARY")?.value ?? "") || "Untitled event";
+  // Our own exports start the description with the instructor and end it with the source line
+  const full = unescapeText(get("DESCRIPTION")?.value ?? "");
+  const instructorLine = /^Instructor: (.*)(?:\n|$)/.exec(full);
+  const text = instructorLine ? full.slice(instructorLine[0].length) : full;
+  // Other calendars' descriptions are just descriptions, not a line of a syllabus
+  const marker = text.lastIndexOf("From syllabus: ");
+  const sourceLine = marker < 0 ? "" : text.slice(marker + "From syllabus: ".length);
+  const description = (marker < 0 ? text : text.slice(0, marker)).trim();
+
+  const rrule = get("RRULE");
+  const recurrence = rrule ? readRRule(rrule.value, start.date, timeZone) : undefined;
+  const exdates = props
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) => p.value.split(",").map((v) => readDate({ ...p, value: v }, timeZone).date))
+    .filter((d) => !Number.isNaN(d.getTime()));
+
+  // Triggers relative to the start; absolute or RELATED=END ones have no rule equivalent
+  const reminders = props
+    .filter((p) => p.name === "VALARM-TRIGGER" && !p.params.RELATED && !p.params.VALUE)
+    .map((p) => -durationMinutes(p.value))
+    .filter((m) => m >= 0);
+
+  const labels = (get("CATEGORIES")?.value ?? "").split(",").map(unescapeText);
+  const category = labels.map(categoryFromLabel).find(Boolean);
+  const guessed = category ? undefined : classify(title, sourceLine);
+
+  // The chair is who leads the event; fall back to the first attendee
+  const attendees = props.filter((p) => p.name === "ATTENDEE");
+  const chair = attendees.find((p) => p.params.ROLE === "CHAIR") ?? attendees[0];
+  const email = chair?.value.replace(/^mailto:/i, "");
+  const instructor = chair
+    ? chair.params.CN
+      ? `${chair.params.CN} <${email}>`
+      : email
+    : instructorLine?.[1].trim();
+  const url = get("URL")?.value.trim();
+
+  const recurrenceId = get("RECURRENCE-ID");
+  return {
+    uid: get("UID")?.value || undefined,
+    title,
+    start: start.date,
+    end,
+    allDay: allDay || undefined,
+    description: description || undefined,
+    location: unescapeText(get("LOCATION")?.value ?? "") || undefined,
+    url: url && /^https?:\/\//i.test(url) ? url : undefined,
+    instructor: instructor || undefined,
+    sourceLine,
+    recurrence,
+    exdates: recurrence && exdates.length ? exdates : undefined,
+    reminders: reminders.length ? cleanMinutes(reminders) : undefined,
+    category: category ?? guessed?.category,
+    confidence: guessed?.category ? guessed.confidence : undefined,
+    recurrenceId: recurrenceId ? readDate(recurrenceId, timeZone).date : undefined,
+  };
+}
+
+/** Undo line folding: a line starting with a space or tab continues the previous one */
+function unfold(text: string) {
+  return text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter((l) => l.trim());
+}
+
+/** NAME;PARAM=a;PARAM="b:c":value — colons inside quoted parameters don't end the name */
+export function parseProperty(line: string): Property | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...params] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((p) => {
+        const eq = p.indexOf("=");
+        return [p.slice(0, eq).toUpperCase(), p.slice(eq + 1).replace(/^"|"$/g, "")];
+      })
+    ),
+    value: line.slice(colon + 1),
+  };
+}
+
+function unescapeText(s: string) {
+  return s.replace(/\\([\\;,nN])/g, (_, c: string) => (c.toLowerCase() === "n" ? "\n" : c)).trim();
+}
+
+/** DATE, UTC, TZID or floating DATE-TIME → instant */
+function readDate(p: Property, timeZone: string) {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(p.value.trim());
+  if (!m) return { date: new Date(NaN), allDay: false };
+  const w: WallTime = {
+    year: Number(m[1]),
+    month: Number(m[2]),
+    day: Number(m[3]),
+    hour: Number(m[4] ?? 0),
+    minute: Number(m[5] ?? 0),
+    second: Number(m[6] ?? 0),
+  };
+  if (!m[4] || p.params.VALUE === "DATE") return { date: fromZoned(w, timeZone), allDay: true };
+  if (m[7]) {
+    const utc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+    return { date: new Date(utc), allDay: false };
+  }
+  const zone = isValidTimeZone(p.params.TZID) ? p.params.TZID : timeZone;
+  return { date: fromZoned(w, zone), allDay: false };
+}
+
+/** "-P1DT2H", "PT30M", "P1W" → minutes (negative before the start) */
+function durationMinutes(value: string) {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim()
+  );
+  if (!m) return NaN;
+  const [, sign, w, d, h, min, s] = m.map((x) => (x === undefined ? 0 : x));
+  const total =
+    Number(w) * 7 * 24 * 60 + Number(d) * 24 * 60 + Number(h) * 60 + Number(min) + Number(s) / 60;
+  return sign === "-" ? -total : total;
+}
+
+/** FREQ=WEEKLY;BYDAY=…;UNTIL=…|COUNT=… → Recurrence; anything else isn't representable */
+function readRRule(value: string, start: Date, timeZone: string): Recurrence | undefined {
+  const parts = Object.fromEntries(
+    value.split(";").map((kv) => {
+      const [k, v = ""] = kv.split("=");
+      return [k.toUpperCase(), v.toUpperCase()];
+    })
+  );
+  if (parts.FREQ !== "WEEKLY" || (parts.INTERVAL && parts.INTERVAL !== "1")) return undefined;
+
+  const first = toZoned(start, timeZone);
+  const startDay = WEEKDAYS[new Date(Date.UTC(first.year, first.month - 1, first.day)).getUTCDay()];
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(",") : [startDay]).filter(
+    (d): d is Weekday => WEEKDAYS.includes(d as Weekday)
+  );
+  if (!byDay.length) return undefined;
+
+  if (parts.UNTIL) {
+    const until = readDate({ name: "UNTIL", params: {}, value: parts.UNTIL }, timeZone);
+    if (Number.isNaN(until.date.getTime())) return undefined;
+    // A DATE UNTIL includes that whole day
+    const end = until.allDay ? addDays(until.date, 1, timeZone) : until.date;
+    return { freq: "WEEKLY", byDay, until: new Date(end.getTime() - (until.allDay ? 1 : 0)) };
+  }
+
+  const count = Number(parts.COUNT);
+  if (!Number.isInteger(count) || count < 1) return undefined;
+  // Walk the days from DTSTART until COUNT occurrences have happened
+  let seen = 0;
+  for (let i = 0; i < 7 * count + 7; i++) {
+    const day = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+    if (!byDay.includes(WEEKDAYS[day.getUTCDay()])) continue;
+    if (++seen === count) {
+      return { freq: "WEEKLY", byDay, until: fromZoned({ ...first, ...dayOf(day) }, timeZone) };
+    }
+  }
+  return undefined;
+}
+
+/** Shift by whole calendar days in `timeZone` (keeps the wall time across DST) */
+function addDays(d: Date, days: number, timeZone: string) {
+  const w = toZoned(d, timeZone);
+  const day = dayOf(new Date(Date.UTC(w.year, w.month - 1, w.day + days)));
+  return fromZoned({ ...w, ...day }, timeZone);
+}
+
+/** Calendar day of a UTC-midnight Date */
+function dayOf(d: Date) {
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function categoryFromLabel(label: string): Category | undefined {
+  const l = label.trim().toLowerCase();
+  return CATEGORIES.find((c) => c === l || CATEGORY_LABELS[c].toLowerCase() === l);
 }
@@ -0,0 +1,42 @@
+// lib/identity.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { assignUids, identityKey } from "@/lib/identity";
+
+const quiz = (day: number) => ({
+  title: "Quiz",
+  sourceLine: `Oct ${day} Quiz`,
+  start: new Date(Date.UTC(2026, 9, day, 12)),
+});
+
+test("events that share an identity keep their UIDs when the list changes", () => {
+  const [a, b, c] = [quiz(6), quiz(13), quiz(20)];
+  const uidOf = (list: ReturnType<typeof quiz>[]) =>
+    new Map(assignUids(list, "CS 101").map((e) => [e.sourceLine, e.uid]));
+
+  const before = uidOf([a, b, c]);
+  assert.equal(new Set(before.values()).size, 3);
+  for (const list of [[c, b, a], [b, c], [a, quiz(1), c]]) {
+    for (const [line, uid] of uidOf(list)) {
+      if (before.has(line)) assert.equal(uid, before.get(line), line);
+    }
+  }
+});
+
+test("an event with its own identity keeps the plain UID", () => {
+  const [exam] = assignUids([{ title: "Midterm", sourceLine: "Oct 14 Midterm" }], "CS 101");
+  assert.match(exam.uid, /^[0-9a-f]{16}@syllabus\.local$/);
+});
+
+test("identityKey drops dates and times in every syllabus language", () => {
+  const key = (sourceLine: string) => identityKey({ title: "", sourceLine });
+  assert.equal(key("Mon, Oct 6 2pm: Quiz 1"), "quiz 1");
+  assert.equal(key("Klausur am 14. Oktober um 10 Uhr"), "klausur am");
+  assert.equal(key("Examen final le 3 mars à 14h"), "examen final le");
+  assert.equal(key("Übungsblatt 2: 03.11."), "übungsblatt 2");
+  assert.equal(key("Mo 14.10. Vorlesung"), "vorlesung");
+  assert.equal(key("中間試験 10月14日 14時"), "中間試験");
+  // Short weekday names only count at the start: "do" is a word mid-line
+  assert.equal(key("Reading: what we do"), "reading what we do");
+});
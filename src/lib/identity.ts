@@ -0,0 +1,197 @@
+// lib/identity.ts
+// Deterministic event UIDs and export history, so re-imports update events instead of duplicating them.
+
+import { LOCALES } from "@/lib/locales";
+
+export type Identifiable = {
+  title: string;
+  sourceLine?: string;
+  uid?: string;
+  course?: string;
+  start?: Date | string; // tells apart events that share an identity
+};
+
+/** Two 32-bit FNV-style hashes → 16 hex chars; same result in browser and server */
+export function hash(s: string) {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ 0x5bd1e995;
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+    h2 ^= h2 >>> 15;
+  }
+  return (h1 >>> 0).toString(16).padStart(8, "0") + (h2 >>> 0).toString(16).padStart(8, "0");
+}
+
+const WEEKDAY_RE = /\b(?:mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?|sun)(?:day)?\b\.?,?/gi;
+const MONTH_DAY_RE =
+  /\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}(?:st|nd|rd|th)?\b/gi;
+const SLASH_DATE_RE = /\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g;
+const DOTTED_DATE_RE = /(?<![\d.])\d{1,2}\.\d{1,2}\.(?:\d{2,4})?/g;
+const TIME = "\\d{1,2}(?::\\d{2})?\\s*(?:[ap]\\.?m\\.?)?";
+const TIME_RANGE_RE = new RegExp(`\\b${TIME}\\s*[–—-]\\s*${TIME}`, "gi");
+const TIME_RE = /\b\d{1,2}:\d{2}\s*(?:[ap]\.?m\.?)?|\b\d{1,2}\s*[ap]\.?m\.?/gi;
+
+// Every syllabus language's dates and times ("14. Oktober", "3 de abril", "à 14h", "10月14日");
+// weekdays only at the start of the line, where "Mo" or "Mar" can't be a word of the title
+const LOCALE_DATE_RES = Object.values(LOCALES).flatMap((l) => [
+  new RegExp(`(?<![\\p{Script=Latin}\\d])(?:${l.monthDay.source})`, "giu"),
+  new RegExp(`(?<![\\p{Script=Latin}\\d])(?:${l.time.source})`, "giu"),
+  new RegExp(`^\\s*(?:${l.weekday.source})`, "iu"),
+]);
+
+function normalize(s: string) {
+  return s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * What makes an event "the same event" across exports: its source line with dates and
+ * times removed (so a moved due date keeps its UID), or the title for hand-made events,
+ * qualified by the course code when there is one.
+ */
+export function identityKey(e: Identifiable) {
+  const source = LOCALE_DATE_RES.reduce(
+    (line, re) => line.replace(re, " "),
+    (e.sourceLine ?? "")
+      .replace(WEEKDAY_RE, " ")
+      .replace(MONTH_DAY_RE, " ")
+      .replace(SLASH_DATE_RE, " ")
+      .replace(DOTTED_DATE_RE, " ")
+      .replace(TIME_RANGE_RE, " ")
+      .replace(TIME_RE, " ")
+  );
+  const key = normalize(source) || normalize(e.title ?? "");
+  // The same line ("Lecture MWF 10am") in two courses is two different events
+  return e.course ? `${normalize(e.course)}|${key}` : key;
+}
+
+/** Stable UID from the calendar name and the event's identity */
+export function eventUid(calendarName: string, e: Identifiable) {
+  return `${hash(`${normalize(calendarName)}|${identityKey(e)}`)}@syllabus.local`;
+}
+
+/**
+ * Give every event a UID, keeping existing ones. Events that share an identity ("Quiz Oct 6"
+ * and "Quiz Nov 3") are told apart by their start date, so reordering, adding or removing
+ * events never moves a UID to another event; what still repeats gets -2, -3…
+ */
+export function assignUids<T extends Identifiable>(events: T[], calendarName: string) {
+  const uids = events.map((e) => e.uid || eventUid(calendarName, e));
+  const shared = new Set(uids.filter((uid, i) => uids.indexOf(uid) !== i));
+  const seen = new Map<string, number>();
+  return events.map((e, i) => {
+    let uid = uids[i];
+    if (!e.uid && shared.has(uid) && e.start) uid = uid.replace("@", `-${dayKey(e.start)}@`);
+    const n = (seen.get(uid) ?? 0) + 1;
+    seen.set(uid, n);
+    if (n > 1) uid = uid.replace("@", `-${n}@`);
+    return { ...e, uid };
+  });
+}
+
+/** "20261006": the UTC day of an instant, the same in the browser and on the server */
+function dayKey(start: Date | string) {
+  const d = new Date(start);
+  return Number.isNaN(d.getTime()) ? "undated" : d.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/* ---------- export history (SEQUENCE / LAST-MODIFIED / CANCEL) ---------- */
+
+export type Snapshot = {
+  title: string;
+  start: string; // ISO
+  end?: string;
+  allDay?: boolean;
+};
+
+export type ExportRecord = {
+  fingerprint: string;
+  sequence: number;
+  lastModified: string; // ISO
+  snapshot: Snapshot;
+  deleted?: boolean; // exported before, missing from the latest export
+};
+
+export type ExportHistory = Record<string, ExportRecord>;
+
+type Exportable = Identifiable & {
+  uid: string;
+  start: Date;
+  end?: Date;
+  allDay?: boolean;
+};
+
+/** Anything that changes what a calendar shows for the event */
+export function fingerprint(e: object) {
+  const rest: Record<string, unknown> = { ...e };
+  delete rest.uid;
+  delete rest.sequence;
+  delete rest.lastModified;
+  return hash(stableJSON(rest));
+}
+
+function stableJSON(v: unknown): string {
+  if (v instanceof Date) return JSON.stringify(v.toISOString());
+  if (Array.isArray(v)) return `[${v.map(stableJSON).join(",")}]`;
+  if (v && typeof v === "object") {
+    return `{${Object.keys(v)
+      .sort()
+      .filter((k) => (v as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableJSON((v as Record<string, unknown>)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "null";
+}
+
+/**
+ * Compare events with the previous export: changed events get SEQUENCE + 1 and a new
+ * LAST-MODIFIED, and events that disappeared are kept as `deleted` so they can be
+ * exported as cancellations.
+ */
+export function reviseForExport<T extends Exportable>(
+  events: T[],
+  history: ExportHistory,
+  now = new Date()
+) {
+  const next: ExportHistory = {};
+  const revised = events.map((e) => {
+    const prev = history[e.uid];
+    const fp = fingerprint(e);
+    const changed = !prev || prev.fingerprint !== fp || prev.deleted;
+    const record: ExportRecord = {
+      fingerprint: fp,
+      sequence: !prev ? 0 : changed ? prev.sequence + 1 : prev.sequence,
+      lastModified: changed ? now.toISOString() : prev.lastModified,
+      snapshot: {
+        title: e.title,
+        start: e.start.toISOString(),
+        end: e.end?.toISOString(),
+        allDay: e.allDay,
+      },
+    };
+    next[e.uid] = record;
+    return { ...e, sequence: record.sequence, lastModified: new Date(record.lastModified) };
+  });
+
+  for (const [uid, prev] of Object.entries(history)) {
+    if (next[uid]) continue;
+    next[uid] = prev.deleted
+      ? prev
+      : { ...prev, deleted: true, sequence: prev.sequence + 1, lastModified: now.toISOString() };
+  }
+
+  return { events: revised, history: next };
+}
+
+/** Deleted entries of a history, shaped for a METHOD:CANCEL export */
+export function cancellations(history: ExportHistory) {
+  return Object.entries(history)
+    .filter(([, r]) => r.deleted)
+    .map(([uid, r]) => ({
+      ...r.snapshot,
+      uid,
+      sequence: r.sequence,
+      lastModified: r.lastModified,
+    }));
+}
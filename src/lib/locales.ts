@@ -0,0 +1,234 @@
+// lib/locales.ts
+// Syllabus languages: date words, event keywords and how numeric dates like 03/04 are read.
+
+import type { CategoryRule } from "@/lib/categories";
+
+export type LocaleId = "en-US" | "en-GB" | "fr" | "de" | "es" | "ja";
+
+// Order of numeric dates: 03/04 is March 4 (MDY) or 3 April (DMY)
+export type DateOrder = "MDY" | "DMY";
+export type DateOrderChoice = DateOrder | "auto";
+
+export type SyllabusLocale = {
+  label: string;
+  dateOrder: DateOrder; // usual order when the syllabus itself doesn't give it away
+  monthDay: RegExp; // "Oct 6", "14. Oktober", "3 de abril", "10月14日"
+  weekday: RegExp; // leading weekday, stripped from titles
+  time: RegExp; // "3pm", "à 14h", "um 14 Uhr", "14時"; 24-hour "14:00" outside English
+  beforeDate: RegExp; // words tying a date to the title ("on", "le", "bis", "el"); go with it
+  afterDate?: RegExp; // the same after the date: "10月14日までに"
+  due: RegExp; // deadline words; these events get an instant, not a duration
+  exam: RegExp;
+  hints: RegExp; // event words; with any number on the line, worth parsing
+  rules: CategoryRule[]; // category keywords on top of the English ones
+};
+
+type Keywords = Record<
+  "exam" | "quiz" | "assignment" | "due" | "reading" | "lab" | "presentation" | "lecture" |
+    "holiday",
+  string[]
+>;
+
+const ENGLISH = {
+  monthDay: /(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)\w*\s+\d{1,2}/i,
+  weekday: /(mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)\b\.?,?/i,
+  time: /\b\d{1,2}(:\d{2})?\s?(am|pm)\b/i,
+  beforeDate: wordsBefore("on|at|by"),
+  due: /\b(due|deadline)\b/i,
+  exam: /\b(exam|quiz|midterm|final)\b/i,
+  hints: /exam|quiz|midterm|final|assignment|project|paper|hw|reading|presentation|lab|report/i,
+  rules: [], // classify() already knows English
+};
+
+export const LOCALES: Record<LocaleId, SyllabusLocale> = {
+  "en-US": { label: "English (US, month/day)", dateOrder: "MDY", ...ENGLISH },
+  "en-GB": { label: "English (UK, day/month)", dateOrder: "DMY", ...ENGLISH },
+  fr: define("Français", {
+    months:
+      "janv(?:ier)?|f[ée]vr(?:ier)?|mars|avr(?:il)?|mai|juin|juil(?:let)?|ao[ûu]t|" +
+      "sept(?:embre)?|oct(?:obre)?|nov(?:embre)?|d[ée]c(?:embre)?",
+    weekdays:
+      "lun(?:di)?|mar(?:di)?|mer(?:credi)?|jeu(?:di)?|ven(?:dredi)?|sam(?:edi)?|dim(?:anche)?",
+    time: /(?<!\p{L})(à\s+)?\d{1,2}(:\d{2}|\s?h(\d{2})?(?!\p{L}))/iu,
+    connectors: "le|la|les|du|au|aux|à|avant|après|pour|dès|partir|jusqu'(?:au|à)",
+    keywords: {
+      exam: ["examens?", "partiels?", "contr[ôo]les?", "[ée]preuves?"],
+      quiz: ["quiz", "interros?", "interrogations?"],
+      assignment: [
+        "devoirs?", "projets?", "rapports?", "m[ée]moires?", "dissertations?", "exercices?",
+      ],
+      due: ["[àa] rendre", "rendus?", "remises?", "date limite", "[ée]ch[ée]ances?"],
+      reading: ["lectures?", "chapitres?"],
+      lab: ["tp", "travaux pratiques", "labos?", "laboratoires?"],
+      presentation: ["expos[ée]s?", "pr[ée]sentations?", "soutenances?"],
+      lecture: ["cours", "cm", "td", "s[ée]minaires?", "s[ée]ances?"],
+      holiday: ["vacances", "cong[ée]s?", "f[ée]ri[ée]s?", "pas de cours", "rel[âa]che"],
+    },
+  }),
+  de: define("Deutsch", {
+    months:
+      "jan(?:uar)?|j[äa]n(?:ner)?|feb(?:ruar)?|m[äa]rz|m[äa]r|apr(?:il)?|mai|juni?|juli?|" +
+      "aug(?:ust)?|sep(?:t(?:ember)?)?|okt(?:ober)?|nov(?:ember)?|dez(?:ember)?",
+    weekdays:
+      "montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonnabend|sonntag|mo|di|mi|do|fr|sa|so",
+    time: /\b(um\s+)?\d{1,2}(:\d{2}|([:.]\d{2})?\s?uhr\b)/i,
+    connectors: "am|um|bis|vom|von|ab|zum|zur|an|den|dem|sp[äa]testens",
+    // Compounds ("Abschlussklausur", "Übungsblatt 3") hide keywords inside longer words
+    compounds: true,
+    keywords: {
+      exam: ["klausur", "pr[üu]fung"],
+      quiz: ["quiz", "kurztest"],
+      assignment: [
+        "hausaufgabe", "[üu]bungsbl[äa]tt", "hausarbeit", "projekt", "bericht", "aufgabe",
+        "essay",
+      ],
+      due: ["abgabe", "f[äa]llig", "frist", "einreich"],
+      reading: ["lekt[üu]re", "lesen", "kapitel", "literatur"],
+      lab: ["praktikum", "labor", "versuch"],
+      presentation: ["referat", "pr[äa]sentation", "vortr[äa]g", "verteidigung"],
+      lecture: ["vorlesung", "seminar", "[üu]bung", "tutorium", "sitzung"],
+      holiday: ["ferien", "feiertag", "vorlesungsfrei", "keine vorlesung", "pause"],
+    },
+  }),
+  es: define("Español", {
+    months:
+      "ene(?:ro)?|feb(?:rero)?|mar(?:zo)?|abr(?:il)?|may(?:o)?|jun(?:io)?|jul(?:io)?|" +
+      "ago(?:sto)?|sep(?:tiembre)?|set(?:iembre)?|oct(?:ubre)?|nov(?:iembre)?|dic(?:iembre)?",
+    weekdays:
+      "lunes|martes|mi[ée]rcoles|jueves|viernes|s[áa]bado|domingo|" +
+      "lun|mi[ée]|jue|vie|s[áa]b|dom",
+    time: /\b(a las\s+)?\d{1,2}(:\d{2}|\s?(h|hrs)\b)/i,
+    connectors: "el|la|los|las|del|al|a|de|hasta|para|antes|desde",
+    keywords: {
+      exam: ["ex[áa]men(es)?", "parcial(es)?", "pruebas?", "finales"],
+      quiz: ["quiz", "cuestionarios?"],
+      assignment: ["tareas?", "proyectos?", "trabajos?", "ensayos?", "informes?"],
+      due: ["entregas?", "fecha l[íi]mite", "plazo", "vence"],
+      reading: ["lecturas?", "cap[íi]tulos?", "leer"],
+      lab: ["laboratorios?", "pr[áa]cticas?"],
+      presentation: ["presentaci[óo]n(es)?", "exposici[óo]n(es)?", "defensa"],
+      lecture: ["clases?", "conferencias?", "seminarios?", "sesi[óo]n(es)?"],
+      holiday: ["vacaciones", "feriados?", "festivos?", "no hay clases?", "receso", "asueto"],
+    },
+  }),
+  ja: {
+    label: "日本語",
+    dateOrder: "MDY", // 4/3 is April 3, as in 4月3日
+    monthDay: /\d{1,2}月\s*\d{1,2}日/,
+    weekday: /[(（]?[月火水木金土日]曜日?[)）]?|[(（][月火水木金土日][)）]/,
+    time: /\d{1,2}(:\d{2}|時)/,
+    beforeDate: /は\s*$/u,
+    afterDate: /^\s*(?:までに|まで|から|に|の)/u,
+    ...keywordRules(
+      {
+        exam: ["試験", "中間", "期末", "テスト"],
+        quiz: ["小テスト", "クイズ"],
+        assignment: ["課題", "レポート", "宿題", "プロジェクト"],
+        due: ["提出", "締切", "締め切り"],
+        reading: ["読書", "予習", "章"],
+        lab: ["実験", "実習"],
+        presentation: ["発表", "プレゼン"],
+        lecture: ["講義", "授業", "ゼミ"],
+        holiday: ["休講", "休み", "祝日", "休日"],
+      },
+      false
+    ),
+  },
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as LocaleId[];
+
+export function isLocaleId(v: unknown): v is LocaleId {
+  return typeof v === "string" && v in LOCALES;
+}
+
+export function isDateOrderChoice(v: unknown): v is DateOrderChoice {
+  return v === "auto" || v === "MDY" || v === "DMY";
+}
+
+// 10/02, 3/4/2027; dotted dates (14.10.) are always day first and need no guessing
+const SLASH_DATE_RE = /(?<![\d/])(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?(?![\d/])/g;
+
+/** The two numbers of every slashed date in `text` */
+export function slashDates(text: string) {
+  return [...text.matchAll(SLASH_DATE_RE)].map((m) => ({
+    text: m[0],
+    first: Number(m[1]),
+    second: Number(m[2]),
+  }));
+}
+
+/** 03/04: either number could be the month, and the two readings differ */
+export function isAmbiguous({ first, second }: { first: number; second: number }) {
+  return first >= 1 && first <= 12 && second >= 1 && second <= 12 && first !== second;
+}
+
+/**
+ * Date order from the syllabus itself: 25/09 can only be day first, 09/25 only month
+ * first. The majority wins; `detected` is false when nothing gave it away.
+ */
+export function detectDateOrder(texts: string[], fallback: DateOrder) {
+  let dmy = 0;
+  let mdy = 0;
+  for (const { first, second } of texts.flatMap(slashDates)) {
+    if (first > 12 && second <= 12) dmy++;
+    else if (second > 12 && first <= 12) mdy++;
+  }
+  if (dmy === mdy) return { order: fallback, detected: false };
+  return { order: (dmy > mdy ? "DMY" : "MDY") as DateOrder, detected: true };
+}
+
+/* ---------- helpers ---------- */
+
+/** A locale written with Latin letters, with both "14 octobre" and "octobre 14" */
+function define(
+  label: string,
+  def: {
+    months: string;
+    weekdays: string;
+    time: RegExp;
+    connectors: string; // words that come before a date
+    keywords: Keywords;
+    compounds?: boolean;
+  }
+): SyllabusLocale {
+  const dayMonth = `\\d{1,2}\\.?\\s+(?:de\\s+)?(?:${def.months})`;
+  const monthDay = `(?:${def.months})\\.?\\s+\\d{1,2}`;
+  return {
+    label,
+    dateOrder: "DMY",
+    monthDay: new RegExp(`(?<!\\p{L})(?:${dayMonth}|${monthDay})(?!\\p{L})`, "iu"),
+    weekday: new RegExp(`(?:${def.weekdays})(?!\\p{L})\\.?,?`, "iu"),
+    time: def.time,
+    beforeDate: wordsBefore(def.connectors),
+    ...keywordRules(def.keywords, !def.compounds),
+  };
+}
+
+/** Any run of the words at the end of the text, as in "avant le" */
+function wordsBefore(words: string) {
+  return new RegExp(`(?<!\\p{L})(?:(?:${words})(?!\\p{L})\\s*)+$`, "iu");
+}
+
+function keywordRules(k: Keywords, bounded: boolean) {
+  const words = (...lists: string[][]) => {
+    const alt = lists.flat().join("|");
+    return new RegExp(bounded ? `(?<!\\p{L})(?:${alt})(?!\\p{L})` : `(?:${alt})`, "iu");
+  };
+  return {
+    due: words(k.due),
+    exam: words(k.exam, k.quiz),
+    hints: words(k.exam, k.quiz, k.assignment, k.reading, k.lab, k.presentation),
+    rules: [
+      { category: "exam", re: words(k.exam), weight: 0.95 },
+      { category: "quiz", re: words(k.quiz), weight: 0.95 },
+      { category: "assignment", re: words(k.assignment), weight: 0.85 },
+      { category: "assignment", re: words(k.due), weight: 0.6 },
+      { category: "reading", re: words(k.reading), weight: 0.8 },
+      { category: "lab", re: words(k.lab), weight: 0.85 },
+      { category: "presentation", re: words(k.presentation), weight: 0.85 },
+      { category: "lecture", re: words(k.lecture), weight: 0.6 },
+      { category: "holiday", re: words(k.holiday), weight: 0.9 },
+    ] satisfies CategoryRule[],
+  };
+}
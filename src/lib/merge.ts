@@ -0,0 +1,58 @@
+// lib/merge.ts
+// Merges a new batch of events (an imported .ics, a fresh parse) into the current list.
+
+import type { ParsedEvent } from "@/types";
+import { toZoned } from "@/lib/tz";
+
+export type MergeResult = {
+  events: ParsedEvent[];
+  added: number;
+  updated: number;
+};
+
+/** Same title and same calendar day in `timeZone` */
+function dayKey(e: ParsedEvent, timeZone: string) {
+  const w = toZoned(e.start, timeZone);
+  const title = e.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+  return `${title}|${w.year}-${w.month}-${w.day}`;
+}
+
+/**
+ * An incoming event replaces the current one with the same UID, or failing that the same
+ * title on the same day; everything else is appended. The replaced event keeps its UID
+ * (so calendars update it) and whatever the incoming one leaves unset.
+ */
+export function mergeEvents(
+  current: ParsedEvent[],
+  incoming: ParsedEvent[],
+  timeZone: string
+): MergeResult {
+  const events = [...current];
+  const matched = new Set<number>();
+  let added = 0;
+  let updated = 0;
+
+  for (const next of incoming) {
+    const key = dayKey(next, timeZone);
+    const i = events.findIndex(
+      (e, j) =>
+        !matched.has(j) &&
+        ((!!next.uid && e.uid === next.uid) || (!(next.uid && e.uid) && dayKey(e, timeZone) === key))
+    );
+    if (i < 0) {
+      matched.add(events.length);
+      events.push(next);
+      added++;
+      continue;
+    }
+
+    const defined = Object.fromEntries(
+      Object.entries(next).filter(([, v]) => v !== undefined && v !== "")
+    ) as Partial<ParsedEvent>;
+    events[i] = { ...events[i], ...defined, uid: events[i].uid ?? next.uid };
+    matched.add(i);
+    updated++;
+  }
+
+  return { events, added, updated };
+}
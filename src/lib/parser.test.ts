@@ -0,0 +1,129 @@
+// lib/parser.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isParseError, parseSyllabus, type ParseOptions, type ParseResult } from "@/lib/parser";
+
+function parse(text: string, options: ParseOptions = {}): ParseResult {
+  const result = parseSyllabus(
+    text.split("\n").map((line) => ({ text: line })),
+    { timeZone: "UTC", ...options }
+  );
+  if (isParseError(result)) assert.fail(result.error);
+  return result;
+}
+
+const FALL: ParseOptions = { term: "Fall 2026", termStart: "2026-08-24", termEnd: "2026-12-11" };
+
+test("breaks written with an en or em dash skip every day of the range", () => {
+  const { events } = parse(
+    [
+      "Lectures: MWF 10:00-10:50am",
+      "Lab Thu 2-4pm",
+      "Thanksgiving break Nov 25–27",
+      "No class Dec 7—8",
+    ].join("\n"),
+    FALL
+  );
+  const exdates = (title: string) => events.find((e) => e.title === title)?.exdates;
+  assert.deepEqual(exdates("Lectures"), [
+    "2026-11-25T10:00:00.000Z",
+    "2026-11-27T10:00:00.000Z",
+    "2026-12-07T10:00:00.000Z",
+  ]);
+  assert.deepEqual(exdates("Lab"), ["2026-11-26T14:00:00.000Z"]);
+});
+
+test("a named term alone only places years: weeks need the term start", () => {
+  const lines = [
+    "Lectures: MWF 10:00-10:50am",
+    "Sep 2 Syllabus quiz",
+    "Week 3 (Wed): Quiz 1",
+    "Dec 10 Final exam",
+  ];
+  const named = parse(lines.join("\n"), { term: "Fall 2026" });
+  assert.deepEqual(
+    named.rejected.map((r) => [r.line, r.code]),
+    [["Week 3 (Wed): Quiz 1", "needs-term"]]
+  );
+  // The dated events bound the series, not the season's Aug 1 – Jan 31
+  const lectures = named.events.find((e) => e.title === "Lectures");
+  assert.equal(lectures?.start, "2026-09-02T10:00:00.000Z");
+  assert.equal(lectures?.recurrence?.until, "2026-12-10T23:59:59.000Z");
+
+  const dated = parse(lines.join("\n"), FALL);
+  const quiz = dated.events.find((e) => e.title === "Quiz 1");
+  assert.equal(quiz?.start, "2026-09-09T00:00:00.000Z");
+  const series = dated.events.find((e) => e.title === "Lectures");
+  assert.equal(series?.start, "2026-08-24T10:00:00.000Z");
+  assert.equal(series?.recurrence?.until, "2026-12-11T23:59:59.000Z");
+});
+
+test("lecture numbers count lecture days only", () => {
+  const lines = ["Lectures: MWF 10:00-10:50am", "Office hours Tue 3-4pm", "Lecture 7: Review"];
+  const { events } = parse(lines.join("\n"), FALL);
+  const review = events.find((e) => e.title === "Review");
+  assert.equal(review?.start, "2026-09-07T00:00:00.000Z");
+});
+
+test("titles leave out dates and times wherever they sit on the line", () => {
+  const lines = [
+    "Midterm Oct 6 1:30–3pm",
+    "HW 3 due Oct 10",
+    "Quiz 1 – Sep 29",
+    "Essay due by 5pm Nov 2",
+  ];
+  const { events } = parse(lines.join("\n"), FALL);
+  assert.deepEqual(
+    events.map((e) => e.title),
+    ["Midterm", "HW 3 due", "Quiz 1", "Essay due"]
+  );
+  const german = parse("Übungsblatt 2: 03.11.", { ...FALL, locale: "de" });
+  assert.equal(german.events[0]?.title, "Übungsblatt 2");
+});
+
+test("the words that tied a date to the title go with it, in every language", () => {
+  const titles = (locale: string, lines: string[]) =>
+    parse(lines.join("\n"), { ...FALL, locale }).events.map((e) => e.title);
+  const french = ["Rendu du projet avant le 14 octobre", "Examen final le 3 décembre"];
+  assert.deepEqual(titles("fr", french), ["Rendu du projet", "Examen final"]);
+  assert.deepEqual(titles("de", ["Abgabe Hausarbeit bis 3. November"]), ["Abgabe Hausarbeit"]);
+  assert.deepEqual(titles("es", ["Entrega del proyecto hasta el 14 de octubre"]), [
+    "Entrega del proyecto",
+  ]);
+  assert.deepEqual(titles("ja", ["10月14日までにレポート提出"]), ["レポート提出"]);
+});
+
+test("a label number before the month stays in the title", () => {
+  const text = ["CHEM 201 Physical Chemistry", "Unit 4: Thermodynamics", "Quiz 4 Oct 6"].join("\n");
+  const [quiz] = parse(text, FALL).events;
+  assert.equal(quiz.title, "CHEM 201 – Quiz 4 (Thermodynamics)");
+  assert.equal(quiz.start.slice(0, 10), "2026-10-06");
+  // Without a day after the month, "4 Oct" is still the date
+  assert.equal(parse("Midterm 4 Oct", FALL).events[0]?.start.slice(0, 10), "2026-10-04");
+});
+
+test("the header's room goes to class meetings, not office hours or online sessions", () => {
+  const { events } = parse(
+    [
+      "CS 101: Intro to Computing",
+      "Location: Hall B 120",
+      "Lectures: MWF 10:00-10:50am",
+      "Lab Thu 2-4pm",
+      "Office hours Tue 3-4pm",
+      "Online review session every Monday 7-8pm",
+      "Oct 6 Quiz 1",
+    ].join("\n"),
+    FALL
+  );
+  const rooms = Object.fromEntries(
+    events.map((e) => [e.title.replace("CS 101 – ", ""), e.location ?? "none"])
+  );
+  assert.deepEqual(rooms, {
+    Lectures: "Hall B 120",
+    Lab: "Hall B 120",
+    "Office hours": "none",
+    "Online review session": "none",
+    "Quiz 1": "none",
+  });
+});
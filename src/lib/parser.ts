@@ -0,0 +1,945 @@
+// lib/parser.ts
+// Turns syllabus lines into calendar-friendly events. Used by /api/parse and the syllabus2ics CLI.
+
+import * as chrono from "chrono-node";
+import { addMonths, endOfDay, isValid } from "date-fns";
+import type { SourceLine } from "@/lib/extract";
+import { logicalLines } from "@/lib/structure";
+import {
+  classMeetingDays,
+  exclusionDates,
+  firstOccurrence,
+  isExclusionLine,
+  meetsInClassroom,
+  parseMeeting,
+  type Meeting,
+  type Recurrence,
+  type Weekday,
+  WEEKDAYS,
+} from "@/lib/recurrence";
+import {
+  hasRelativeDate,
+  isInRange,
+  namedTerm,
+  placeInRange,
+  resolveRelative,
+  type Term,
+  type TermBreak,
+  type TermRange,
+} from "@/lib/term";
+import { isValidTimeZone, toZoned, wallToInstant } from "@/lib/tz";
+import { classify, type Category } from "@/lib/categories";
+import { classDetails, lineDetails, withoutDetails, type EventDetails } from "@/lib/details";
+import {
+  contextTitle,
+  courseHeader,
+  describeContext,
+  nextContext,
+  renderTitle,
+  templateProblem,
+  type CourseHeader,
+  type SyllabusContext,
+} from "@/lib/context";
+import {
+  detectDateOrder,
+  isAmbiguous,
+  isDateOrderChoice,
+  isLocaleId,
+  LOCALES,
+  slashDates,
+  type DateOrder,
+  type LocaleId,
+  type SyllabusLocale,
+} from "@/lib/locales";
+import {
+  cleanTitle,
+  compileProfile,
+  DEFAULT_PROFILE,
+  isProfileError,
+  readProfile,
+  type CategoryTiming,
+  type CompiledProfile,
+} from "@/lib/profiles";
+import type { ParseMatch, RejectCode, RejectedLine } from "@/types";
+
+// Assumed term length when only a start date is given
+const TERM_MONTHS = 6;
+
+/** A parsed event as JSON: dates are ISO strings anchored in the requested zone */
+export type ParsedEventOut = {
+  title: string;
+  start: string;   // ISO string
+  end?: string;    // ISO string
+  allDay?: boolean;
+  description?: string; // course and section the line was found under
+  location?: string; // room or building named on the line
+  url?: string; // meeting or course link on the line
+  instructor?: string; // "Dr. Smith", with " <email>" when one was given
+  sourceLine?: string;
+  page?: number;   // page of the uploaded file the line came from
+  recurrence?: { freq: "WEEKLY"; byDay: Weekday[]; until: string };
+  exdates?: string[]; // ISO strings of skipped occurrences
+  category?: Category;
+  confidence?: number; // 0–1, how sure the category is
+  inferred?: string; // how a relative date was resolved, e.g. "Week 3, TU"
+  match: ParseMatch; // date confidence and the rules behind it
+  outsideTerm?: boolean; // the date falls outside the term's start and end
+  altStart?: string; // ISO; "03/04" read the other way round, for the user to confirm
+};
+
+/**
+ * Parse options, named as in the /api/parse body. Values may also be the strings a form
+ * field or command line gives (`fallbackYear: "2026"`, `profile` as JSON).
+ */
+export type ParseOptions = {
+  term?: string; // "Fall 2026"; dates without a year are placed within it
+  fallbackYear?: number | string; // year for dates without one when no term is given
+  defaultDurationMinutes?: number | string; // overrides the profile's
+  defaultTime?: string; // "HH:mm" for deadlines that lack an explicit time; overrides the profile's
+  titleTemplate?: unknown; // "{course} – {title} ({topic})"; overrides the profile's
+  termStart?: string; // "YYYY-MM-DD"; bounds weekly class meetings
+  termEnd?: string;
+  timeZone?: string; // IANA zone the syllabus times are in, e.g. "America/Chicago"
+  meetingDays?: unknown; // ["MO", "WE"]; resolves "Lecture 7" (defaults to the lecture days found)
+  breaks?: unknown; // [{ name, start, end }] with "YYYY-MM-DD" dates; skipped when counting weeks
+  locale?: string; // syllabus language, see lib/locales
+  dateOrder?: string; // "MDY" | "DMY", or "auto" to work it out from the dates in the text
+  profile?: unknown; // parser profile object (or its JSON string)
+};
+
+export type ParseResult = {
+  events: ParsedEventOut[];
+  rejected: RejectedLine[]; // skipped lines in document order, with the reason why
+  dateOrder: DateOrder; // how 03/04 was read
+  course?: CourseHeader; // code and name from the top of the syllabus
+};
+
+export type ParseError = { error: string; status: number };
+
+/**
+ * Event while parsing. Dates are wall-clock times held in server-local Dates
+ * ("3pm" is getHours() === 15); `serialize` anchors them in the requested zone.
+ */
+type Draft = {
+  title: string;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  sourceLine: string;
+  page?: number;
+  context?: SyllabusContext; // headings and course the line sits under
+  recurrence?: Recurrence;
+  exdates?: Date[];
+  inferred?: string;
+  altStart?: Date; // start with day and month swapped, when the order was a guess
+  rules: Rule[];
+};
+
+// How much each rule adds to (or takes from) a date's confidence; rules at 0 are just notes
+const RULE_WEIGHTS = {
+  "month name and day": 0.85,
+  "numeric date": 0.7,
+  "other date form": 0.5,
+  "relative date": 0.6,
+  "weekly meeting": 0.85,
+  "explicit year": 0.05,
+  "fallback year": 0,
+  "year from term": 0.05,
+  "outside term": -0.3,
+  "ambiguous day/month": -0.25,
+  "explicit time": 0.05,
+  "time range": 0.1,
+  "time zone in text": 0,
+  "all day": 0,
+  "deadline keyword": 0.05,
+  "default deadline time": -0.05,
+  "category default time": -0.05,
+  "no title": -0.3,
+  "title from context": 0,
+};
+
+type Rule = keyof typeof RULE_WEIGHTS;
+
+/** What the syllabus language and the parser profile say about words, titles and defaults */
+type Vocabulary = { loc: SyllabusLocale; profile: CompiledProfile };
+
+const REJECT_REASONS: Record<RejectCode, string> = {
+  "no-date": "No date or event keyword found",
+  unparsed: "Looks like an event, but no date could be read",
+  "uncertain-date": "The date is missing a month or day",
+  "needs-term": "Week or session numbers need a term start date",
+  unresolved: "Week or session number falls outside the term",
+  ignored: "Matches an ignore pattern of the parser profile",
+};
+
+// Skipped lines worth showing: event words, weekdays or times (plus the locale's event words)
+const SUSPICIOUS_RE = new RegExp(
+  [
+    "\\b(exam|quiz|midterm|final|assignment|project|paper|hw|reading|presentation|lab|report" +
+      "|due|deadline|test|class|lecture)\\b",
+    "\\b(mon|tues?|wed(nes)?|thu(rs)?|fri|sat(ur)?|sun)(day)?\\b",
+    "\\b\\d{1,2}(:\\d{2})?\\s?(am|pm)\\b",
+  ].join("|"),
+  "i"
+);
+
+// 14.10. or 14.10.2026: always day first
+const DOTTED_DATE_RE = /(?<![\d.])(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2}(?!\d))?(?![\d])/;
+// "Nov 26–27": chrono only reads a hyphen between day numbers as a range (same length, so
+// match offsets still point into the line)
+const DAY_RANGE_DASH_RE = /(?<=\d\s?)[–—](?=\s?\d)/g;
+
+/** Keep only lines that look like they contain a real date or strong event cue */
+function isDatey(line: string, { loc, profile }: Vocabulary) {
+  const l = line.toLowerCase();
+  const hasSlashDate = /\b\d{1,2}\/\d{1,2}\b/.test(l) || DOTTED_DATE_RE.test(l); // 10/02, 14.10.
+  const hasMonthName = loc.monthDay.test(l); // Oct 6, 14. Oktober
+  const hasDue = isDeadlineLine(l, { loc, profile });
+  const hasExamWord = loc.exam.test(l);
+  const hasOtherHint = loc.hints.test(l) || !!profile.keywords?.test(l);
+  const hasAnyNumber = /\b\d+\b/.test(l);
+  return (
+    hasSlashDate ||
+    hasMonthName ||
+    hasDue ||
+    hasExamWord ||
+    (hasOtherHint && hasAnyNumber) ||
+    hasRelativeDate(line)
+  );
+}
+
+/** Clean, human title that doesn’t eat “10:00” because of the colon */
+function extractTitle(line: string, loc: SyllabusLocale) {
+  // Prefer text after a spaced dash: "Sep 29 … — Title"
+  const dashSplit = line.split(/\s[–—-]\s/); // en dash, em dash, hyphen (with spaces)
+  if (dashSplit.length > 1) return dashSplit.slice(1).join(" - ").trim();
+
+  // Otherwise strip leading weekday/date/time tokens and keep the rest
+  let s = line;
+
+  // weekday
+  s = s.replace(leading(loc.weekday), "");
+
+  // month-name day (e.g., "Oct 6", "September 19", "14. Oktober"), and a weekday after it
+  s = s.replace(leading(loc.monthDay), "").replace(leading(loc.weekday), "");
+
+  // numeric date (e.g., "10/02", "14.10.")
+  s = s.replace(/^\d{1,2}\/\d{1,2}\s*/, "").replace(/^\d{1,2}\.\d{1,2}\.(\d{2,4})?\s*/, "");
+
+  // time range (e.g., "1:30-3:00 pm", "9:00–10:20am")
+  s = s.replace(
+    /^\d{1,2}(:\d{2})?\s?(am|pm)?\s*(–|-)\s*\d{1,2}(:\d{2})?\s?(am|pm)?\s*/i,
+    ""
+  );
+
+  // single time (e.g., "11:59pm", "14 Uhr")
+  s = s.replace(/^\d{1,2}(:\d{2})?\s?(am|pm)\s*/i, "").replace(leading(loc.time), "");
+
+  return s.trim() || line.trim();
+}
+
+/**
+ * Parse a syllabus into events, each with how its date was matched, plus the lines that
+ * were skipped. Options that don't validate give a `ParseError` (status 400).
+ */
+export function parseSyllabus(
+  sourceLines: SourceLine[],
+  options: ParseOptions = {}
+): ParseResult | ParseError {
+  const {
+    term: termName,
+    fallbackYear,
+    defaultDurationMinutes,
+    defaultTime,
+    titleTemplate,
+    termStart,
+    termEnd,
+    timeZone,
+    meetingDays,
+    breaks,
+    locale = "en-US",
+    dateOrder = "auto",
+    profile: profileField,
+  } = options;
+
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return { error: `Unknown time zone: ${timeZone}`, status: 400 };
+  }
+  const zone = timeZone;
+  if (!isLocaleId(locale)) {
+    return { error: `Unsupported locale: ${locale}`, status: 400 };
+  }
+  if (!isDateOrderChoice(dateOrder)) {
+    return { error: `Unknown date order: ${dateOrder} (use "auto", "MDY" or "DMY")`, status: 400 };
+  }
+  const givenProfile =
+    profileField === undefined || profileField === ""
+      ? DEFAULT_PROFILE
+      : readProfile(parseJSONField(profileField));
+  if (isProfileError(givenProfile)) {
+    return { error: givenProfile.error, status: 400 };
+  }
+  if (titleTemplate !== undefined && typeof titleTemplate !== "string") {
+    return { error: "The title template must be a string", status: 400 };
+  }
+  const templateError = titleTemplate === undefined ? null : templateProblem(titleTemplate);
+  if (templateError) return { error: templateError, status: 400 };
+  const profile = compileProfile({
+    ...givenProfile,
+    defaultDurationMinutes: Number(defaultDurationMinutes) || givenProfile.defaultDurationMinutes,
+    defaultTime: defaultTime === undefined ? givenProfile.defaultTime : String(defaultTime),
+    titleTemplate: titleTemplate ?? givenProfile.titleTemplate,
+  });
+  const vocab: Vocabulary = { loc: LOCALES[locale], profile };
+  const { loc } = vocab;
+  const durationMinutes = profile.defaultDurationMinutes;
+  const deadlineTime = profile.defaultTime;
+
+  // Which dates the term covers: the given start/end, else the named term's usual range
+  const firstDay = parseDay(termStart);
+  const lastDay = parseDay(termEnd);
+  const named = typeof termName === "string" ? namedTerm(termName) : undefined;
+  if (termName && !named) {
+    return { error: `Unknown term: ${termName} (use e.g. "Fall 2026")`, status: 400 };
+  }
+  const range: TermRange | undefined =
+    firstDay || named
+      ? {
+          start: firstDay ?? named!.start,
+          end: lastDay ?? named?.end ?? addMonths(firstDay!, TERM_MONTHS),
+        }
+      : undefined;
+
+  const refYear = Number.isFinite(Number(fallbackYear))
+    ? Number(fallbackYear)
+    : (range?.start.getFullYear() ?? new Date().getFullYear());
+  // Reference only affects relative parsing; we enforce the year below.
+  const referenceDate = range ? new Date(range.start) : new Date(refYear, 7, 1); // Aug 1
+
+  // Weekly meeting patterns become series; everything else goes through chrono.
+  // Table rows and dated headings are first rebuilt into one line per entry.
+  const meetings: { meeting: Meeting; line: SourceLine }[] = [];
+  const lines: SourceLine[] = [];
+  const rejected: RejectedLine[] = [];
+  const logical = logicalLines(sourceLines);
+  // Course and section each line sits under, for titles and descriptions
+  const isEvent = (text: string) => isDatey(text, vocab);
+  const course = courseHeader(logical.map((l) => l.text), isEvent);
+  // "Location:" and "Instructor:" in the header belong to the class meetings
+  const forClass = classDetails(logical.map((l) => l.text), isEvent);
+  const awayFromClass = { ...forClass, location: undefined };
+  const contexts = new Map<SourceLine, SyllabusContext>();
+  let context: SyllabusContext = { course, headings: [] };
+  for (const l of logical) {
+    if (profile.ignore.some((re) => re.test(l.text))) {
+      rejected.push(rejection(l.text, l.page, "ignored", vocab));
+      continue;
+    }
+    context = nextContext(context, l.text, isEvent);
+    contexts.set(l, context);
+    const meeting = parseMeeting(l.text);
+    if (meeting) meetings.push({ meeting, line: l });
+    else if (isDatey(l.text, vocab)) lines.push(l);
+    else if (/\p{L}{3}/u.test(l.text)) rejected.push(rejection(l.text, l.page, "no-date", vocab));
+  }
+
+  // 03/04 follows the syllabus's other dates (25/09 settles it), else the locale's habit;
+  // when that is only a guess, such dates are flagged for the user to confirm
+  const detected = detectDateOrder(lines.map((l) => l.text), loc.dateOrder);
+  const numericOrder = dateOrder === "auto" ? detected.order : dateOrder;
+  const orderGuessed = dateOrder === "auto" && !detected.detected;
+  const parser = chronoFor(locale, numericOrder);
+
+  const out: Draft[] = [];
+  // "Week 3 (Tue)", "Lecture 7": resolved against the term once all lines are read
+  const pending: Pending[] = [];
+
+  for (const l of lines) {
+    const { text: line, page } = l;
+    const lineContext = contexts.get(l);
+    const isDeadline = isDeadlineLine(line, vocab);
+    const hasTimeToken =
+      /(\b\d{1,2}:\d{2}\s?(am|pm)?\b)|(\b\d{1,2}\s?(am|pm)\b)/i.test(line) ||
+      loc.time.test(line);
+
+    // First parse attempt
+    let dated = line.replace(DAY_RANGE_DASH_RE, "-");
+    let results = parser.parse(dated, referenceDate, { forwardDate: true });
+    // "Quiz 4 Oct 6": chrono reads "4 Oct", but month first the date is "Oct 6"
+    const unlabeled = numericOrder === "MDY" ? withoutLabelNumbers(dated, results) : dated;
+    if (unlabeled !== dated) {
+      dated = unlabeled;
+      results = parser.parse(dated, referenceDate, { forwardDate: true });
+    }
+
+    // If it's a deadline with no explicit time, append the default time for a specific instant
+    let usedDefaultTime = false;
+    if (results.length === 0 && isDeadline && !hasTimeToken && deadlineTime) {
+      results = parser.parse(`${dated} ${deadlineTime}`, referenceDate, { forwardDate: true });
+      usedDefaultTime = results.length > 0;
+    }
+    if (results.length === 0) {
+      if (hasRelativeDate(line)) pending.push({ line, page, context: lineContext });
+      else rejected.push(rejection(line, page, "unparsed", vocab));
+      continue;
+    }
+
+    // "mar. 4 mars": a bare weekday can come before the full date
+    const r =
+      results.find((x) => x.start.isCertain("month") && x.start.isCertain("day")) ?? results[0];
+    let start = r.start?.date();
+    if (!start || !isValid(start)) {
+      rejected.push(rejection(line, page, "unparsed", vocab));
+      continue;
+    }
+
+    // "3pm CST" names its own offset: bring it onto the requested zone's wall clock
+    const namedZone = r.start.isCertain("timezoneOffset");
+    if (zone && namedZone) start = zonedWall(start, zone);
+
+    // Require month & day certainty (prevents everything collapsing to reference date)
+    if (!(r.start.isCertain("month") && r.start.isCertain("day"))) {
+      if (hasRelativeDate(line)) {
+        pending.push({ line, page, result: r, context: lineContext });
+        continue;
+      }
+      // A half-known date ("the 14th") still helps prefill; a bare weekday doesn't
+      const partial = r.start.isCertain("month") || r.start.isCertain("day");
+      rejected.push(
+        rejection(line, page, "uncertain-date", vocab, partial ? start : undefined, zone)
+      );
+      continue;
+    }
+
+    // No explicit year: the one that puts the date inside the term (or the fallback year)
+    const placeYear = (d: Date) => {
+      if (r.start.isCertain("year")) return d;
+      if (range) return placeInRange(d, range).date;
+      d.setFullYear(refYear);
+      return d;
+    };
+    start = placeYear(start);
+
+    // 03/04 when the order was only guessed: keep the other reading for the user to pick
+    const ambiguous = orderGuessed && slashDates(r.text).some(isAmbiguous);
+    const altStart = ambiguous ? placeYear(swapDayMonth(start)) : undefined;
+
+    // Range?
+    let end: Date | undefined;
+    const hasRange = !!r.end;
+    if (hasRange) {
+      end = r.end!.date();
+      if (end && zone && r.end!.isCertain("timezoneOffset")) end = zonedWall(end, zone);
+      if (end && !r.end!.isCertain("year")) {
+        // "Dec 30 – Jan 2" ends in the next year
+        end.setFullYear(start.getFullYear());
+        if (end < start) end.setFullYear(start.getFullYear() + 1);
+      }
+      if (end && !isValid(end)) end = undefined;
+    }
+
+    // Does the event have a time?
+    const hasTime =
+      r.start.isCertain("hour") || r.start.isCertain("minute") || hasRange || hasTimeToken;
+
+    // Deadlines: single instant (no end)
+    if (!hasRange && hasTime && isDeadline) {
+      end = undefined;
+    }
+
+    // Timed (not deadline & not already a range): add default duration
+    if (!hasRange && hasTime && !isDeadline) {
+      end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    }
+
+    const allDay = !hasTime; // no time tokens → all-day
+    // The title is what the dates and times leave, wherever they were ("Midterm Oct 6 1:30pm")
+    const undated = withoutSpans(line, results, loc);
+    // Just a date under "Unit 4: Thermodynamics": left untitled, so the unit names it
+    const dateOnly = !/\p{L}{2}/u.test(undated) && !!contextTitle(lineContext);
+    const title = (dateOnly ? "" : titleOf(undated || line, vocab)) || "Course Event";
+
+    const rules: Rule[] = [dateRule(line, loc)];
+    if (r.start.isCertain("year")) rules.push("explicit year");
+    else rules.push(range ? "year from term" : "fallback year");
+    if (hasRange) rules.push("time range");
+    else if (usedDefaultTime) rules.push("default deadline time");
+    else if (hasTime) rules.push("explicit time");
+    else rules.push("all day");
+    if (namedZone) rules.push("time zone in text");
+    if (isDeadline) rules.push("deadline keyword");
+    if (range && !isInRange(start, range)) rules.push("outside term");
+    if (altStart) rules.push("ambiguous day/month");
+
+    out.push({
+      title,
+      start,
+      end,
+      allDay,
+      sourceLine: line,
+      page,
+      context: lineContext,
+      altStart,
+      rules,
+    });
+  }
+
+  const givenBreaks = parseBreaks(breaks);
+  // A named term's range only guesses years: weeks count from a real start date
+  if (!firstDay) {
+    for (const p of pending) rejected.push(rejection(p.line, p.page, "needs-term", vocab));
+  } else if (pending.length) {
+    const term: Term = {
+      start: firstDay,
+      end: lastDay,
+      meetingDays:
+        parseMeetingDays(meetingDays) ?? classMeetingDays(meetings.map((m) => m.meeting)),
+      breaks: [
+        ...givenBreaks,
+        // "Nov 26–28 — Thanksgiving break (no class)" lines in the syllabus itself
+        ...out
+          .filter((e) => isExclusionLine(e.sourceLine))
+          .map((e) => ({ name: e.title, start: e.start, end: e.end ?? e.start })),
+      ],
+    };
+    for (const p of pending) {
+      const draft = resolvePending(p, term, {
+        defaultDurationMinutes: durationMinutes,
+        defaultTime: deadlineTime,
+        vocab,
+      });
+      if (draft) out.push(draft);
+      else rejected.push(rejection(p.line, p.page, "unresolved", vocab));
+    }
+  }
+
+  const series = buildSeries(meetings, out, contexts, {
+    termStart: firstDay,
+    termEnd: lastDay,
+    breaks: givenBreaks,
+    defaultDurationMinutes: durationMinutes,
+  });
+
+  // De-duplicate by title+start instant
+  const unique = Array.from(
+    new Map(
+      [...series, ...out]
+        .map((e) => {
+          if (!e.recurrence) return serialize(e, vocab, zone, {});
+          return serialize(e, vocab, zone, meetsInClassroom(e.title) ? forClass : awayFromClass);
+        })
+        .map((e) => [`${e.title}|${e.start}`, e])
+    ).values()
+  );
+
+  // Skipped lines in document order, whichever stage dropped them
+  const order = new Map(logical.map((l, i) => [l.text, i] as const).reverse());
+  rejected.sort((a, b) => (order.get(a.line) ?? 0) - (order.get(b.line) ?? 0));
+
+  return { events: unique, rejected, dateOrder: numericOrder, course };
+}
+
+export function isParseError<T>(r: T | ParseError): r is ParseError {
+  return !!r && typeof r === "object" && "error" in r && "status" in r;
+}
+
+/* ---------- helpers ---------- */
+
+// "Week 3 (Tue): Quiz 2", waiting for the term to place it
+type Pending = {
+  line: string;
+  page?: number;
+  result?: chrono.ParsedResult;
+  context?: SyllabusContext;
+};
+
+/**
+ * Turn weekly meetings into recurring events spanning the term. When any series exist,
+ * "No class" / break lines are removed from `events` and become EXDATEs instead, as do
+ * breaks given with the term.
+ * Without an explicit term, the first and last dated events bound the series.
+ */
+function buildSeries(
+  meetings: { meeting: Meeting; line: SourceLine }[],
+  events: Draft[],
+  contexts: Map<SourceLine, SyllabusContext>,
+  opts: { termStart?: Date; termEnd?: Date; breaks: TermBreak[]; defaultDurationMinutes: number }
+): Draft[] {
+  if (meetings.length === 0) return [];
+
+  const times = events.flatMap((e) => [e.start, e.end ?? e.start]).map((d) => d.getTime());
+  const termStart = opts.termStart ?? (times.length ? new Date(Math.min(...times)) : undefined);
+  const termEnd = opts.termEnd ?? (times.length ? new Date(Math.max(...times)) : undefined);
+  if (!termStart || !termEnd || termEnd < termStart) return [];
+
+  const excluded: { start: Date; end?: Date }[] = opts.breaks.map((b) => ({
+    start: b.start,
+    end: b.end,
+  }));
+  for (let i = events.length - 1; i >= 0; i--) {
+    // "Due the Monday after Thanksgiving" mentions a break but is not one
+    if (events[i].inferred || !isExclusionLine(events[i].sourceLine)) continue;
+    const [e] = events.splice(i, 1);
+    excluded.push({ start: e.start, end: e.end });
+  }
+
+  return meetings.map(({ meeting, line }) => {
+    const start = firstOccurrence(termStart, meeting.byDay);
+    start.setHours(meeting.start.hour, meeting.start.minute, 0, 0);
+    const end = new Date(start);
+    if (meeting.end) end.setHours(meeting.end.hour, meeting.end.minute, 0, 0);
+    else end.setTime(start.getTime() + opts.defaultDurationMinutes * 60 * 1000);
+
+    const recurrence = { freq: "WEEKLY" as const, byDay: meeting.byDay, until: endOfDay(termEnd) };
+    const exdates = exclusionDates(start, recurrence, excluded);
+
+    return {
+      title: meeting.title,
+      start,
+      end,
+      allDay: false,
+      sourceLine: line.text,
+      page: line.page,
+      context: contexts.get(line),
+      recurrence,
+      exdates: exdates.length ? exdates : undefined,
+      rules: ["weekly meeting", meeting.end ? "time range" : "explicit time"],
+    };
+  });
+}
+
+/**
+ * Place a line like "Week 3 (Tue): Quiz 2" on the term calendar. A time chrono found on
+ * the line is kept; otherwise the event is all-day (deadlines get `defaultTime`).
+ */
+function resolvePending(
+  p: Pending,
+  term: Term,
+  opts: { defaultDurationMinutes: number; defaultTime: string; vocab: Vocabulary }
+): Draft | null {
+  const rel = resolveRelative(p.line, term);
+  if (!rel) return null;
+
+  const isDeadline = isDeadlineLine(p.line, opts.vocab);
+  const start = new Date(rel.date);
+  let end: Date | undefined;
+  let allDay = true;
+
+  const r = p.result;
+  const time = /^(\d{1,2}):(\d{2})$/.exec(opts.defaultTime);
+  const rules: Rule[] = ["relative date"];
+  if (r?.start.isCertain("hour")) {
+    start.setHours(r.start.get("hour") ?? 0, r.start.get("minute") ?? 0, 0, 0);
+    allDay = false;
+    if (r.end?.isCertain("hour")) {
+      end = new Date(rel.date);
+      end.setHours(r.end.get("hour") ?? 0, r.end.get("minute") ?? 0, 0, 0);
+      rules.push("time range");
+    } else {
+      if (!isDeadline) end = new Date(start.getTime() + opts.defaultDurationMinutes * 60 * 1000);
+      rules.push("explicit time");
+    }
+  } else if (isDeadline && time) {
+    start.setHours(Number(time[1]), Number(time[2]), 0, 0);
+    allDay = false;
+    rules.push("default deadline time");
+  } else {
+    rules.push("all day");
+  }
+  if (isDeadline) rules.push("deadline keyword");
+
+  const rest = p.line
+    .replace(rel.span, " ")
+    .replace(/^[\s:,;()–—-]+/, "")
+    .replace(/[\s:,;(–—-]+$/, "");
+  const title =
+    cleanTitle(
+      extractTitle(rest, opts.vocab.loc).replace(/^[\s:,;()–—-]+/, ""),
+      opts.vocab.profile
+    ) || "Course Event";
+
+  return {
+    title,
+    start,
+    end,
+    allDay,
+    sourceLine: p.line,
+    page: p.page,
+    context: p.context,
+    inferred: rel.inferred,
+    rules,
+  };
+}
+
+/** ["MO", "WE"] or its JSON string (multipart) → weekdays; undefined when not given */
+function parseMeetingDays(value: unknown): Weekday[] | undefined {
+  const list = parseJSONField(value);
+  if (!Array.isArray(list) || list.length === 0) return undefined;
+  const days = list.filter((d): d is Weekday => WEEKDAYS.includes(d as Weekday));
+  return days.length ? days : undefined;
+}
+
+/** [{ name, start, end }] or its JSON string → breaks; malformed entries are dropped */
+function parseBreaks(value: unknown): TermBreak[] {
+  const list = parseJSONField(value);
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((b) => {
+    const start = parseDay(b?.start);
+    const end = parseDay(b?.end) ?? start;
+    if (!start || !end) return [];
+    return [{ name: String(b?.name || "Break"), start, end }];
+  });
+}
+
+function parseJSONField(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Anchor a draft's wall-clock dates in `timeZone` (server-local when none) and stringify.
+ * Rooms, links and instructors on the line move out of the title; `defaults` fills the
+ * ones the line doesn't name.
+ */
+function serialize(
+  draft: Draft,
+  vocab: Vocabulary,
+  timeZone: string | undefined,
+  defaults: EventDetails
+): ParsedEventOut {
+  const iso = (date: Date) => wallToInstant(date, timeZone).toISOString();
+  const { category, confidence } = classify(draft.title, draft.sourceLine, [
+    ...vocab.profile.rules,
+    ...vocab.loc.rules,
+  ]);
+  const timing = category && vocab.profile.categoryDefaults[category];
+  const d = timing
+    ? withCategoryTiming(draft, timing, vocab.profile.defaultDurationMinutes)
+    : draft;
+  // Nothing left after the date: the section's topic (or heading) names the event
+  const untitled = d.title === "Course Event";
+  const fromContext = untitled ? contextTitle(d.context) : undefined;
+  const rules: Rule[] = fromContext
+    ? [...d.rules, "title from context"]
+    : untitled
+      ? [...d.rules, "no title"]
+      : d.rules;
+  const { details, found } = lineDetails(d.sourceLine);
+  const title = withoutDetails(fromContext ?? d.title, found);
+  return {
+    title: renderTitle(vocab.profile.titleTemplate, title, d.context),
+    description: describeContext(d.context),
+    // A line with a meeting link is online, not in the usual room
+    location: details.location ?? (details.url ? undefined : defaults.location),
+    url: details.url ?? defaults.url,
+    instructor: details.instructor ?? defaults.instructor,
+    start: iso(d.start),
+    end: d.end ? iso(d.end) : undefined,
+    allDay: d.allDay,
+    sourceLine: d.sourceLine,
+    page: d.page,
+    recurrence: d.recurrence ? { ...d.recurrence, until: iso(d.recurrence.until) } : undefined,
+    exdates: d.exdates?.map(iso),
+    category,
+    confidence: category ? confidence : undefined,
+    inferred: d.inferred,
+    outsideTerm: d.rules.includes("outside term") || undefined,
+    altStart: d.altStart ? iso(d.altStart) : undefined,
+    match: scoreMatch(rules),
+  };
+}
+
+/** Sum of the rule weights, kept between 0.05 and 1 */
+function scoreMatch(rules: Rule[]): ParseMatch {
+  const sum = rules.reduce((acc, rule) => acc + RULE_WEIGHTS[rule], 0);
+  return { confidence: Math.round(Math.min(1, Math.max(0.05, sum)) * 100) / 100, rules };
+}
+
+function dateRule(line: string, loc: SyllabusLocale): Rule {
+  if (loc.monthDay.test(line)) return "month name and day";
+  return /\b\d{1,2}\/\d{1,2}\b/.test(line) || DOTTED_DATE_RE.test(line)
+    ? "numeric date"
+    : "other date form";
+}
+
+function isDeadlineLine(line: string, { loc, profile }: Vocabulary) {
+  return loc.due.test(line) || !!profile.deadline?.test(line);
+}
+
+/**
+ * `text` with the number blanked out of day-first matches ("4 Oct") that another day number
+ * follows ("4 Oct 6"), so the next parse takes the month and day after it. Same length, so
+ * match offsets still point into the line.
+ */
+function withoutLabelNumbers(text: string, results: chrono.ParsedResult[]) {
+  let out = text;
+  for (const r of results) {
+    const day = /^\d{1,2}(?=\s+\p{L})/u.exec(r.text);
+    const after = text.slice(r.index + r.text.length);
+    if (!day || r.end || !/^\s+\d{1,2}(?![\d:])(?!\s*[ap]\.?m)/i.test(after)) continue;
+    out = out.slice(0, r.index) + " ".repeat(day[0].length) + out.slice(r.index + day[0].length);
+  }
+  return out;
+}
+
+/** `line` without the spans chrono read, the words tying them in ("on", "le") and separators */
+function withoutSpans(
+  line: string,
+  spans: { index: number; text: string }[],
+  loc: SyllabusLocale
+) {
+  let out = line;
+  for (const { index, text } of [...spans].sort((a, b) => b.index - a.index)) {
+    const before = out.slice(0, index).replace(loc.beforeDate, "");
+    const after = out.slice(index + text.length);
+    out = `${before} ${loc.afterDate ? after.replace(loc.afterDate, "") : after}`;
+  }
+  return out
+    .replace(/\(\s*\)|\[\s*\]/g, "")
+    .replace(/\s[–—-]\s+(?=[–—-]\s)/g, " ")
+    .replace(/\s{2,}/g, " ")
+    .trim()
+    .replace(/^[\s:,;–—-]+/, "")
+    .replace(/[\s:,;(–—-]+(on|at|by)?$/i, "");
+}
+
+function titleOf(line: string, { loc, profile }: Vocabulary) {
+  return cleanTitle(extractTitle(line, loc), profile);
+}
+
+/**
+ * The profile's time and duration for the event's category, where the parser had to
+ * guess: all-day single dates and default deadline times get the time, guessed ends the
+ * duration. Series and ranges keep what the syllabus says.
+ */
+function withCategoryTiming(d: Draft, timing: CategoryTiming, defaultMinutes: number): Draft {
+  if (d.recurrence || d.rules.includes("time range")) return d;
+  const deadline = d.rules.includes("deadline keyword");
+  const time = timing.time?.split(":").map(Number);
+  const guessedTime = d.rules.includes("default deadline time") || (d.allDay && !d.end);
+
+  if (time && guessedTime) {
+    const at = (date: Date) => {
+      const out = new Date(date);
+      out.setHours(time[0], time[1], 0, 0);
+      return out;
+    };
+    const start = at(d.start);
+    const minutes = timing.durationMinutes ?? defaultMinutes;
+    return {
+      ...d,
+      start,
+      end: deadline ? undefined : new Date(start.getTime() + minutes * 60 * 1000),
+      allDay: false,
+      altStart: d.altStart && at(d.altStart),
+      rules: [
+        ...d.rules.filter((r) => r !== "all day" && r !== "default deadline time"),
+        "category default time",
+      ],
+    };
+  }
+  if (timing.durationMinutes && !deadline && !d.allDay && d.rules.includes("explicit time")) {
+    return { ...d, end: new Date(d.start.getTime() + timing.durationMinutes * 60 * 1000) };
+  }
+  return d;
+}
+
+/** A skipped line, with a best guess at the event for adding it by hand */
+function rejection(
+  line: string,
+  page: number | undefined,
+  code: RejectCode,
+  vocab: Vocabulary,
+  start?: Date,
+  timeZone?: string
+): RejectedLine {
+  const hasTime =
+    /\b\d{1,2}(:\d{2})?\s?(am|pm)\b|\b\d{1,2}:\d{2}\b/i.test(line) ||
+    vocab.loc.time.test(line);
+  return {
+    line,
+    page,
+    code,
+    reason: REJECT_REASONS[code],
+    // Lines the profile says to ignore never count as missed events
+    suspicious:
+      code !== "ignored" &&
+      (code !== "no-date" ||
+        SUSPICIOUS_RE.test(line) ||
+        vocab.loc.hints.test(line) ||
+        !!vocab.profile.keywords?.test(line) ||
+        isDeadlineLine(line, vocab)),
+    guess: {
+      title: titleOf(line, vocab),
+      start: start ? wallToInstant(start, timeZone).toISOString() : undefined,
+      allDay: !hasTime,
+    },
+  };
+}
+
+/** The locale's parser reading 03/04 in `order`; dotted dates (14.10.) are added for all */
+const parsers = new Map<string, chrono.Chrono>();
+
+function chronoFor(locale: LocaleId, order: DateOrder) {
+  const key = `${locale}|${order}`;
+  let parser = parsers.get(key);
+  if (!parser) {
+    const dmy = order === "DMY";
+    const base = {
+      "en-US": dmy ? chrono.en.GB : chrono.en.casual,
+      "en-GB": dmy ? chrono.en.GB : chrono.en.casual,
+      fr: new chrono.Chrono(chrono.fr.createCasualConfiguration(dmy)),
+      de: new chrono.Chrono(chrono.de.createCasualConfiguration(dmy)),
+      es: new chrono.Chrono(chrono.es.createCasualConfiguration(dmy)),
+      ja: chrono.ja.casual,
+    }[locale];
+    parser = base.clone();
+    parser.parsers.unshift(dottedDateParser);
+    // "Übungsblatt 2: 03.11." is sheet 2, not 2 o'clock; drop it before times merge into dates
+    parser.refiners.unshift({
+      refine: (_context, results) => results.filter((r) => !/^\d{1,2}:$/.test(r.text.trim())),
+    });
+    parsers.set(key, parser);
+  }
+  return parser;
+}
+
+const dottedDateParser: chrono.Parser = {
+  pattern: () => new RegExp(DOTTED_DATE_RE.source, "g"),
+  extract: (_context, match) => {
+    const year = match[3] ? Number(match[3]) : undefined;
+    return {
+      day: Number(match[1]),
+      month: Number(match[2]),
+      ...(year !== undefined ? { year: year < 100 ? 2000 + year : year } : {}),
+    };
+  },
+};
+
+/** Same wall-clock time with day and month swapped: 03/04 read the other way round */
+function swapDayMonth(d: Date) {
+  return new Date(d.getFullYear(), d.getDate() - 1, d.getMonth() + 1, d.getHours(), d.getMinutes());
+}
+
+/** Anchored at the start, with the punctuation and spaces that follow it */
+function leading(re: RegExp) {
+  return new RegExp(`^\\s*(?:${re.source})[\\s,:.]*`, re.flags);
+}
+
+/** Server-local Date whose wall clock matches what `instant` reads in `timeZone` */
+function zonedWall(instant: Date, timeZone: string) {
+  const w = toZoned(instant, timeZone);
+  return new Date(w.year, w.month - 1, w.day, w.hour, w.minute, w.second ?? 0);
+}
+
+/** "YYYY-MM-DD" → local midnight */
+function parseDay(value: unknown) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value ?? ""));
+  if (!m) return undefined;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return isValid(d) ? d : undefined;
+}
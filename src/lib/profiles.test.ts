@@ -0,0 +1,36 @@
+// lib/profiles.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isParseError, parseSyllabus } from "@/lib/parser";
+import { isProfileError, readProfile } from "@/lib/profiles";
+
+function problem(pattern: string) {
+  const profile = readProfile({ ignore: [pattern] });
+  return isProfileError(profile) ? profile.error : null;
+}
+
+test("readProfile rejects patterns that can backtrack for ages", () => {
+  for (const hostile of ["(a+)+$", "^(\\w*\\s?)*$", "((ab)*c)+", "(?:x|y+){2,}"]) {
+    assert.match(problem(hostile) ?? "", /repeats a group/, hostile);
+  }
+});
+
+test("readProfile rejects repeated groups with alternatives", () => {
+  for (const hostile of ["(a|a)*$", "(\\w|\\d)+$", "(?:(x|xy)z?){3,}"]) {
+    assert.match(problem(hostile) ?? "", /has alternatives/, hostile);
+  }
+});
+
+test("a hostile profile is a 400, not a hung parse", () => {
+  const lines = [{ text: `${"a".repeat(40)}! Quiz Oct 6` }];
+  const result = parseSyllabus(lines, { profile: JSON.stringify({ ignore: ["(a+)+$"] }) });
+  assert.ok(isParseError(result));
+  assert.equal(result.status, 400);
+});
+
+test("readProfile keeps ordinary patterns", () => {
+  const patterns = ["^Office hours", "(hw|homework)s? \\d+", "[(+]+\\s*draft", "\\(\\w+\\)+"];
+  for (const pattern of [...patterns, "(a+)?"]) assert.equal(problem(pattern), null, pattern);
+  assert.match(problem("(unclosed") ?? "", /Not a valid regular expression/);
+});
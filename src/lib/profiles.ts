@@ -0,0 +1,242 @@
+// lib/profiles.ts
+// Parser profiles: a department's own keywords, ignore patterns, category rules, title
+// cleanup and default times. Saved in the browser, shared as JSON, sent to /api/parse.
+
+import { CATEGORIES, isCategory, type Category, type CategoryRule } from "@/lib/categories";
+import { DEFAULT_TITLE_TEMPLATE, templateProblem } from "@/lib/context";
+
+export type CategoryTiming = {
+  time?: string; // "HH:mm"; events of the category without a time get it
+  durationMinutes?: number; // replaces the default duration for timed events
+};
+
+export type ParserProfile = {
+  name: string;
+  keywords: string[]; // extra event words; a line with one and a number gets parsed
+  deadlineWords: string[]; // extra words that mark a deadline, e.g. "hand in"
+  ignore: string[]; // regexes; matching lines are skipped
+  categoryRules: { pattern: string; category: Category }[]; // regex → category
+  titleCleanup: { pattern: string; replace: string }[]; // regex replacements on titles
+  titleTemplate: string; // "{course} – {title} ({topic})", see lib/context
+  defaultTime: string; // "HH:mm" for deadlines without a time ("" leaves them all-day)
+  defaultDurationMinutes: number;
+  categoryDefaults: Partial<Record<Category, CategoryTiming>>;
+};
+
+export const DEFAULT_PROFILE: ParserProfile = {
+  name: "Default",
+  keywords: [],
+  deadlineWords: [],
+  ignore: [],
+  categoryRules: [],
+  titleCleanup: [],
+  titleTemplate: DEFAULT_TITLE_TEMPLATE,
+  defaultTime: "23:59",
+  defaultDurationMinutes: 60,
+  categoryDefaults: {},
+};
+
+export type ProfileError = { error: string };
+
+/** Profile, ready to match lines */
+export type CompiledProfile = {
+  keywords?: RegExp;
+  deadline?: RegExp;
+  ignore: RegExp[];
+  rules: CategoryRule[];
+  cleanup: { re: RegExp; replace: string }[];
+  titleTemplate: string;
+  defaultTime: string;
+  defaultDurationMinutes: number;
+  categoryDefaults: Partial<Record<Category, CategoryTiming>>;
+};
+
+// A profile's own category rules outrank every built-in keyword
+const PROFILE_RULE_WEIGHT = 0.97;
+const MAX_ENTRIES = 200;
+const MAX_PATTERN_LENGTH = 300;
+const TIME_RE = /^([01]?\d|2[0-3]):[0-5]\d$/;
+// "+", "*" or "{2,}" at the start of the rest of a pattern
+const UNBOUNDED_RE = /^(?:[*+]|\{\d*,\})/;
+
+/**
+ * Validate a profile from JSON (an import, or the `profile` field of /api/parse).
+ * Missing fields fall back to the defaults; patterns that don't compile are an error.
+ */
+export function readProfile(raw: unknown): ParserProfile | ProfileError {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "A parser profile must be a JSON object" };
+  }
+  const p = raw as Record<string, unknown>;
+
+  const keywords = stringList(p.keywords);
+  const deadlineWords = stringList(p.deadlineWords);
+  const ignore = stringList(p.ignore);
+  const categoryRules = objectList(p.categoryRules).map((r) => ({
+    pattern: String(r.pattern ?? ""),
+    category: r.category as Category,
+  }));
+  const titleCleanup = objectList(p.titleCleanup).map((r) => ({
+    pattern: String(r.pattern ?? ""),
+    replace: typeof r.replace === "string" ? r.replace : "",
+  }));
+
+  const lists = [keywords, deadlineWords, ignore, categoryRules, titleCleanup];
+  if (lists.some((l) => l.length > MAX_ENTRIES)) {
+    return { error: `Profiles are limited to ${MAX_ENTRIES} entries per list` };
+  }
+  for (const r of categoryRules) {
+    if (!isCategory(r.category)) {
+      return { error: `Unknown category in rule "${r.pattern}": ${String(r.category)}` };
+    }
+  }
+  for (const pattern of [
+    ...ignore,
+    ...categoryRules.map((r) => r.pattern),
+    ...titleCleanup.map((r) => r.pattern),
+  ]) {
+    const problem = patternProblem(pattern);
+    if (problem) return { error: problem };
+  }
+
+  const titleTemplate =
+    typeof p.titleTemplate === "string" && p.titleTemplate.trim()
+      ? p.titleTemplate.trim()
+      : DEFAULT_PROFILE.titleTemplate;
+  const templateError = templateProblem(titleTemplate);
+  if (templateError) return { error: templateError };
+
+  const defaultTime =
+    p.defaultTime === undefined ? DEFAULT_PROFILE.defaultTime : String(p.defaultTime).trim();
+  if (defaultTime && !TIME_RE.test(defaultTime)) {
+    return { error: `Default time must be HH:mm, got "${defaultTime}"` };
+  }
+  const defaultDurationMinutes =
+    p.defaultDurationMinutes === undefined
+      ? DEFAULT_PROFILE.defaultDurationMinutes
+      : Number(p.defaultDurationMinutes);
+  if (!validDuration(defaultDurationMinutes)) {
+    return { error: "Default duration must be between 1 and 1440 minutes" };
+  }
+
+  const categoryDefaults: ParserProfile["categoryDefaults"] = {};
+  const givenDefaults = (p.categoryDefaults ?? {}) as Record<string, Record<string, unknown>>;
+  for (const category of CATEGORIES) {
+    const d = givenDefaults[category];
+    if (!d || typeof d !== "object") continue;
+    const time = typeof d.time === "string" && d.time.trim() ? d.time.trim() : undefined;
+    const duration = d.durationMinutes === undefined ? undefined : Number(d.durationMinutes);
+    if (time && !TIME_RE.test(time)) {
+      return { error: `Time for ${category} must be HH:mm, got "${time}"` };
+    }
+    if (duration !== undefined && !validDuration(duration)) {
+      return { error: `Duration for ${category} must be between 1 and 1440 minutes` };
+    }
+    if (time || duration) categoryDefaults[category] = { time, durationMinutes: duration };
+  }
+
+  return {
+    name: typeof p.name === "string" && p.name.trim() ? p.name.trim() : "Untitled profile",
+    keywords,
+    deadlineWords,
+    ignore,
+    categoryRules,
+    titleCleanup,
+    titleTemplate,
+    defaultTime,
+    defaultDurationMinutes,
+    categoryDefaults,
+  };
+}
+
+export function isProfileError(r: ParserProfile | ProfileError): r is ProfileError {
+  return "error" in r;
+}
+
+/** Patterns are case-insensitive; keywords and deadline words are plain text */
+export function compileProfile(p: ParserProfile): CompiledProfile {
+  return {
+    keywords: wordsRe(p.keywords),
+    deadline: wordsRe(p.deadlineWords),
+    ignore: p.ignore.map((s) => new RegExp(s, "i")),
+    rules: p.categoryRules.map((r) => ({
+      category: r.category,
+      re: new RegExp(r.pattern, "i"),
+      weight: PROFILE_RULE_WEIGHT,
+    })),
+    cleanup: p.titleCleanup.map((r) => ({ re: new RegExp(r.pattern, "gi"), replace: r.replace })),
+    titleTemplate: p.titleTemplate,
+    defaultTime: p.defaultTime,
+    defaultDurationMinutes: p.defaultDurationMinutes,
+    categoryDefaults: p.categoryDefaults,
+  };
+}
+
+/** Title after the profile's replacements, in order */
+export function cleanTitle(title: string, profile: CompiledProfile) {
+  const out = profile.cleanup.reduce((s, { re, replace }) => s.replace(re, replace), title);
+  return out.replace(/\s{2,}/g, " ").trim();
+}
+
+/* ---------- helpers ---------- */
+
+function stringList(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter((s): s is string => typeof s === "string" && !!s.trim()).map((s) => s.trim());
+}
+
+function objectList(v: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter((o) => o && typeof o === "object" && String(o.pattern ?? "").trim());
+}
+
+function patternProblem(pattern: string) {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern is too long (max ${MAX_PATTERN_LENGTH} characters): ${pattern.slice(0, 40)}…`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return `Not a valid regular expression: ${pattern}`;
+  }
+  // Patterns run on the server against every line, so they must not backtrack for ages
+  if (hasAmbiguousRepeat(pattern)) {
+    return (
+      `Pattern repeats a group that repeats itself or has alternatives, like (a+)+ or (a|b)*, ` +
+      `which can hang: ${pattern}`
+    );
+  }
+  return null;
+}
+
+/** Does a repeated group hold something repeated or alternatives, as in (a+)+ or (\w|\d)*? */
+function hasAmbiguousRepeat(pattern: string) {
+  const groups: boolean[] = []; // per open group: whether it holds an unbounded repeat or a "|"
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") i++;
+    else if (inClass) inClass = c !== "]";
+    else if (c === "[") inClass = true;
+    else if (c === "(") groups.push(false);
+    else if (c === ")") {
+      const risky = groups.pop();
+      if (risky && UNBOUNDED_RE.test(pattern.slice(i + 1))) return true;
+      if (risky && groups.length) groups[groups.length - 1] = true;
+    } else if (groups.length && (c === "|" || UNBOUNDED_RE.test(pattern.slice(i)))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+function validDuration(n: number) {
+  return Number.isInteger(n) && n >= 1 && n <= 24 * 60;
+}
+
+/** Any of the words, not inside a longer word */
+function wordsRe(words: string[]) {
+  if (words.length === 0) return undefined;
+  const alt = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  return new RegExp(`(?<!\\p{L})(?:${alt})(?!\\p{L})`, "iu");
+}
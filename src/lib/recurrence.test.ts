@@ -0,0 +1,65 @@
+// lib/recurrence.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  classMeetingDays,
+  exclusionDates,
+  firstOccurrence,
+  isExclusionLine,
+  parseMeeting,
+  toRRule,
+  type Recurrence,
+} from "@/lib/recurrence";
+
+test("parseMeeting reads day codes and time ranges", () => {
+  assert.deepEqual(parseMeeting("Lectures: MWF 10:00-10:50am"), {
+    title: "Lectures",
+    byDay: ["MO", "WE", "FR"],
+    start: { hour: 10, minute: 0 },
+    end: { hour: 10, minute: 50 },
+  });
+  assert.deepEqual(parseMeeting("Lab Tuesdays 2-4pm")?.byDay, ["TU"]);
+  assert.deepEqual(parseMeeting("Section Mon/Wed 1:30pm")?.start, { hour: 13, minute: 30 });
+});
+
+test("parseMeeting leaves dated lines and breaks alone", () => {
+  assert.equal(parseMeeting("Quiz 1: 9/19 at 2pm"), null);
+  assert.equal(parseMeeting("Nov 26-28 — Thanksgiving break (no class)"), null);
+  assert.ok(isExclusionLine("Spring break Mar 10–14"));
+});
+
+test("firstOccurrence finds the first meeting day on or after the start", () => {
+  const monday = new Date(2026, 7, 24);
+  assert.equal(firstOccurrence(monday, ["WE", "FR"]).getDate(), 26);
+  assert.equal(firstOccurrence(monday, ["MO"]).getDate(), 24);
+});
+
+test("exclusionDates covers every meeting day of a range", () => {
+  const start = new Date(2026, 7, 24, 10, 0);
+  const until = new Date(2026, 11, 11);
+  const rec: Recurrence = { freq: "WEEKLY", byDay: ["MO", "WE", "FR"], until };
+  const days = exclusionDates(start, rec, [
+    { start: new Date(2026, 10, 25), end: new Date(2026, 10, 27) },
+  ]);
+  assert.deepEqual(
+    days.map((d) => [d.getMonth() + 1, d.getDate(), d.getHours()]),
+    [
+      [11, 25, 10],
+      [11, 27, 10],
+    ]
+  );
+});
+
+test("classMeetingDays leaves out labs and office hours", () => {
+  const meetings = ["Lectures: MWF 10:00-10:50am", "Lab Thu 2-4pm", "Office hours Tue 3-4pm"]
+    .map(parseMeeting)
+    .filter((m) => m !== null);
+  assert.deepEqual(classMeetingDays(meetings), ["MO", "WE", "FR"]);
+  assert.deepEqual(classMeetingDays(meetings.slice(1)), ["TH", "TU"]);
+});
+
+test("toRRule formats the rule", () => {
+  const rec: Recurrence = { freq: "WEEKLY", byDay: ["TU"], until: new Date(2026, 11, 11) };
+  assert.equal(toRRule(rec, () => "20261211"), "FREQ=WEEKLY;BYDAY=TU;UNTIL=20261211");
+});
@@ -0,0 +1,213 @@
+// lib/recurrence.ts
+// Detects weekly class meetings ("Lectures MWF 10:00–10:50am") and builds RRULE data for them.
+
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+// Index matches Date#getDay()
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export type Recurrence = {
+  freq: "WEEKLY";
+  byDay: Weekday[];
+  until: Date; // inclusive end of the series
+};
+
+export type Meeting = {
+  title: string;
+  byDay: Weekday[];
+  start: { hour: number; minute: number };
+  end?: { hour: number; minute: number };
+};
+
+const DAY_NAMES: Record<string, Weekday> = {
+  sun: "SU", mon: "MO", tue: "TU", tues: "TU", wed: "WE",
+  thu: "TH", thur: "TH", thurs: "TH", fri: "FR", sat: "SA",
+};
+
+// "Monday", "Tues.", "Thursdays"
+const DAY_NAME = "(?:sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?s?\\.?";
+// "Mondays and Wednesdays", "Tu/Th", "Mon, Wed & Fri"
+const DAY_LIST_RE = new RegExp(
+  `\\b(${DAY_NAME}(?:\\s*(?:/|,|&|and)\\s*${DAY_NAME})*)(?![a-z])`,
+  "i"
+);
+// Compact registrar codes: "MWF", "TTh", "TR", "MW" (case-sensitive, 2+ days)
+const DAY_CODE_RE = /\b((?:M|Tu|Th|T|W|R|F|Sa|Su){2,})\b/;
+
+const TIME = "(\\d{1,2})(?::(\\d{2}))?\\s*([ap]\\.?m\\.?)?";
+const TIME_RANGE_RE = new RegExp(`\\b${TIME}\\s*(?:–|—|-|to)\\s*${TIME}`, "i");
+const SINGLE_TIME_RE = new RegExp(`\\b(?:at\\s+)?${TIME}(?=\\W|$)`, "i");
+
+const MEETING_WORDS =
+  /\b(lectures?|labs?|class(es)?|sections?|recitations?|discussions?|seminars?|tutorials?|studios?|office hours|meets?|meetings?)\b/i;
+// Meetings beside the class itself: they don't count as "Lecture 7" or a week's class days
+const SIDE_MEETING_WORDS =
+  /\b(labs?|sections?|recitations?|discussions?|tutorials?|studios?|office hours)\b/i;
+// Meetings in the class's own room; office hours and online sessions happen elsewhere
+const CLASSROOM_WORDS =
+  /\b(lectures?|labs?|class(es)?|sections?|recitations?|discussions?|seminars?|tutorials?|studios?)\b/i;
+const ELSEWHERE_WORDS = /\b(office hours|online|virtual|remote|zoom)\b/i;
+const CALENDAR_DATE =
+  /\b\d{1,2}\/\d{1,2}\b|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}\b/i;
+
+const EXCLUSION_RE =
+  /\b(no (class(es)?|lectures?|labs?|meetings?|sections?)|class(es)? (cancel+ed|not held)|holiday|break|recess|reading (day|week)|thanksgiving)\b/i;
+
+/** "No class", "Thanksgiving break", "Spring break Mar 10–14" */
+export function isExclusionLine(line: string) {
+  return EXCLUSION_RE.test(line);
+}
+
+/** Recognise a weekly meeting pattern; returns null for one-off dated lines */
+export function parseMeeting(line: string): Meeting | null {
+  if (CALENDAR_DATE.test(line) || isExclusionLine(line)) return null;
+
+  let byDay: Weekday[] = [];
+  let daySpan: string | null = null;
+  let explicit = false; // "every", a plural or several days → clearly recurring
+
+  const code = line.match(DAY_CODE_RE);
+  if (code) {
+    byDay = parseDayCode(code[1]);
+    daySpan = code[0];
+    explicit = byDay.length > 1;
+  }
+  if (!byDay.length) {
+    const list = line.match(DAY_LIST_RE);
+    if (list) {
+      byDay = unique(
+        list[1]
+          .split(/\s*(?:\/|,|&|\band\b)\s*/i)
+          .map((d) => dayFromName(d))
+          .filter((d): d is Weekday => !!d)
+      );
+      daySpan = list[0];
+      explicit = byDay.length > 1 || /days\.?$/i.test(list[1]);
+    }
+  }
+  if (!byDay.length || !daySpan) return null;
+  if (/\bevery\b/i.test(line)) explicit = true;
+  if (!explicit && !MEETING_WORDS.test(line)) return null;
+
+  const times = parseTimes(line);
+  if (!times) return null;
+
+  const title = line
+    .replace(times.span, " ")
+    .replace(daySpan, " ")
+    .replace(/\bevery\b/gi, " ")
+    .replace(/\s+/g, " ")
+    .replace(/\s+(on|at|from)\s*(?=[,;]|$)/gi, "")
+    .replace(/\s+([,;])/g, "$1")
+    .replace(/^[\s,;:–—-]+|[\s,;:–—-]+$/g, "")
+    .trim();
+
+  return { title: title || "Class meeting", byDay, start: times.start, end: times.end };
+}
+
+/** Days the class itself meets: its lectures and seminars, not labs or office hours */
+export function classMeetingDays(meetings: Meeting[]) {
+  const own = meetings.filter((m) => !SIDE_MEETING_WORDS.test(m.title));
+  return unique((own.length ? own : meetings).flatMap((m) => m.byDay));
+}
+
+/** Lectures, labs and sections meet in the room the syllabus header names; office hours don't */
+export function meetsInClassroom(title: string) {
+  return CLASSROOM_WORDS.test(title) && !ELSEWHERE_WORDS.test(title);
+}
+
+/** First meeting on or after `from` that falls on one of the series' weekdays */
+export function firstOccurrence(from: Date, byDay: Weekday[]) {
+  for (let i = 0; i < 7; i++) {
+    const d = addDays(startOfDay(from), i);
+    if (byDay.includes(WEEKDAYS[d.getDay()])) return d;
+  }
+  return startOfDay(from);
+}
+
+/**
+ * EXDATEs for a series: every excluded day (inclusive ranges) that lands on a meeting
+ * day inside the series, at the same time of day as the series' first start.
+ */
+export function exclusionDates(
+  seriesStart: Date,
+  rec: Recurrence,
+  excluded: { start: Date; end?: Date }[]
+) {
+  const out: Date[] = [];
+  for (const range of excluded) {
+    const first = startOfDay(range.start);
+    const span = range.end ? Math.max(0, differenceInCalendarDays(range.end, first)) : 0;
+    for (let i = 0; i <= span; i++) {
+      const day = addDays(first, i);
+      if (day < startOfDay(seriesStart) || day > rec.until) continue;
+      if (!rec.byDay.includes(WEEKDAYS[day.getDay()])) continue;
+      const at = new Date(day);
+      at.setHours(seriesStart.getHours(), seriesStart.getMinutes(), 0, 0);
+      if (!out.some((d) => d.getTime() === at.getTime())) out.push(at);
+    }
+  }
+  return out.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/** RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20261211T235959 */
+export function toRRule(rec: Recurrence, fmtUntil: (d: Date) => string) {
+  return `FREQ=${rec.freq};BYDAY=${rec.byDay.join(",")};UNTIL=${fmtUntil(rec.until)}`;
+}
+
+/* ---------- helpers ---------- */
+
+function parseDayCode(code: string): Weekday[] {
+  const map: Record<string, Weekday> = {
+    M: "MO", T: "TU", Tu: "TU", W: "WE", R: "TH", Th: "TH", F: "FR", Sa: "SA", Su: "SU",
+  };
+  const tokens = code.match(/Tu|Th|Sa|Su|[MTWRF]/g) || [];
+  return unique(tokens.map((t) => map[t]));
+}
+
+function dayFromName(name: string): Weekday | undefined {
+  const key = name.toLowerCase().replace(/\./g, "").replace(/(day)?s?$/, "");
+  return DAY_NAMES[key] ?? DAY_NAMES[key.slice(0, 3)];
+}
+
+function parseTimes(line: string) {
+  const range = line.match(TIME_RANGE_RE);
+  if (range) {
+    const endMer = meridiem(range[6]);
+    const end = toClock(Number(range[4]), Number(range[5] || 0), endMer);
+    let start = toClock(Number(range[1]), Number(range[2] || 0), meridiem(range[3]) ?? endMer);
+    // "11–12:15pm" → 11am, not 11pm
+    if (!range[3] && start.hour * 60 + start.minute > end.hour * 60 + end.minute) {
+      start = toClock(Number(range[1]), Number(range[2] || 0), "am");
+    }
+    return { start, end, span: range[0] };
+  }
+  const single = line.match(SINGLE_TIME_RE);
+  if (single && (single[2] || single[3])) {
+    return {
+      start: toClock(Number(single[1]), Number(single[2] || 0), meridiem(single[3])),
+      end: undefined,
+      span: single[0],
+    };
+  }
+  return null;
+}
+
+function meridiem(s?: string) {
+  if (!s) return undefined;
+  return s.toLowerCase().startsWith("p") ? "pm" : "am";
+}
+
+function toClock(hour: number, minute: number, mer?: "am" | "pm") {
+  let h = hour % 12;
+  if (mer === "pm") h += 12;
+  // No am/pm at all: class hours 1–7 are afternoon, 8–11 morning
+  if (!mer) h = hour === 12 ? 12 : hour <= 7 ? hour + 12 : hour;
+  return { hour: h, minute };
+}
+
+function unique<T>(xs: T[]) {
+  return Array.from(new Set(xs));
+}
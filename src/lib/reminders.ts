@@ -0,0 +1,88 @@
+// lib/reminders.ts
+// Reminder (VALARM) rules per event category, e.g. exams at 1 week and 1 day before.
+
+import { CATEGORIES, classify, type Category } from "@/lib/categories";
+
+export type ReminderKind = Category | "other";
+
+// Minutes before the event start, per kind
+export type ReminderRules = Record<ReminderKind, number[]>;
+
+export const REMINDER_KINDS: ReminderKind[] = [...CATEGORIES, "other"];
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+export const DEFAULT_REMINDERS: ReminderRules = {
+  exam: [WEEK, DAY],
+  quiz: [DAY],
+  assignment: [DAY],
+  presentation: [DAY],
+  lab: [],
+  reading: [],
+  lecture: [],
+  holiday: [],
+  other: [],
+};
+
+/** Which reminder rule applies: the event's category, or one guessed from the title */
+export function reminderKind(e: { title: string; category?: Category }): ReminderKind {
+  return e.category ?? classify(e.title).category ?? "other";
+}
+
+/** Per-event override wins; otherwise the rule for the event's kind */
+export function remindersFor(
+  e: { title: string; category?: Category; reminders?: number[] },
+  rules: ReminderRules = DEFAULT_REMINDERS
+) {
+  return e.reminders ?? rules[reminderKind(e)] ?? [];
+}
+
+/** Keep only known kinds with sane minute values; missing kinds fall back to the defaults */
+export function normalizeRules(raw: unknown): ReminderRules {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const out = { ...DEFAULT_REMINDERS };
+  for (const kind of REMINDER_KINDS) {
+    if (Array.isArray(obj[kind])) out[kind] = cleanMinutes(obj[kind] as unknown[]);
+  }
+  return out;
+}
+
+export function cleanMinutes(xs: unknown[]) {
+  return Array.from(
+    new Set(xs.map(Number).filter((n) => Number.isFinite(n) && n >= 0).map(Math.round))
+  ).sort((a, b) => b - a);
+}
+
+/** "1w, 1d" / "24h" / "30m" → minutes; unknown tokens are ignored */
+export function parseReminderList(text: string) {
+  const units: Record<string, number> = { w: WEEK, d: DAY, h: HOUR, m: 1 };
+  const out: number[] = [];
+  for (const token of text.split(/[,\s]+/).filter(Boolean)) {
+    const m = /^(\d+(?:\.\d+)?)\s*([wdhm])?[a-z]*$/i.exec(token);
+    if (m) out.push(Number(m[1]) * units[(m[2] || "m").toLowerCase()]);
+  }
+  return cleanMinutes(out);
+}
+
+/** [10080, 1440] → "1w, 1d" */
+export function formatReminderList(minutes: number[]) {
+  return minutes.map(formatMinutes).join(", ");
+}
+
+function formatMinutes(n: number) {
+  if (n > 0 && n % WEEK === 0) return `${n / WEEK}w`;
+  if (n > 0 && n % DAY === 0) return `${n / DAY}d`;
+  if (n > 0 && n % HOUR === 0) return `${n / HOUR}h`;
+  return `${n}m`;
+}
+
+/** iCalendar TRIGGER duration, e.g. 1440 → -P1D, 90 → -PT90M */
+export function toTrigger(minutes: number) {
+  if (minutes === 0) return "PT0M";
+  if (minutes % WEEK === 0) return `-P${minutes / WEEK}W`;
+  if (minutes % DAY === 0) return `-P${minutes / DAY}D`;
+  if (minutes % HOUR === 0) return `-PT${minutes / HOUR}H`;
+  return `-PT${minutes}M`;
+}
@@ -0,0 +1,123 @@
+// lib/share.ts
+// Events as JSON (API responses, saved drafts) and as compressed share links.
+
+import type { ParsedEvent } from "@/types";
+import { isCategory } from "@/lib/categories";
+import type { CourseInfo } from "@/lib/courses";
+
+/** A ParsedEvent after JSON: dates are ISO strings */
+export type SerializedEvent = Omit<
+  ParsedEvent,
+  "start" | "end" | "recurrence" | "exdates" | "altStart"
+> & {
+  start: string | Date;
+  end?: string | Date;
+  altStart?: string | Date;
+  recurrence?: Omit<NonNullable<ParsedEvent["recurrence"]>, "until"> & { until: string | Date };
+  exdates?: (string | Date)[];
+};
+
+export function reviveEvent(e: SerializedEvent): ParsedEvent {
+  return {
+    ...e,
+    start: new Date(e.start),
+    end: e.end ? new Date(e.end) : undefined,
+    recurrence: e.recurrence ? { ...e.recurrence, until: new Date(e.recurrence.until) } : undefined,
+    exdates: e.exdates?.map((d) => new Date(d)),
+    altStart: e.altStart ? new Date(e.altStart) : undefined,
+  };
+}
+
+/** What a share link carries: the calendar name and each course's events */
+export type SharedCalendar = {
+  calName: string;
+  courses: (CourseInfo & { events: ParsedEvent[] })[];
+};
+
+export type ShareError = { error: string };
+
+const SHARE_VERSION = 1;
+const SHARE_PREFIX = "#share=";
+
+/**
+ * Fragment for a share link ("#share=…"). The fragment never reaches the server, so
+ * nothing is stored anywhere; the link itself is the calendar.
+ */
+export async function encodeShare(cal: SharedCalendar) {
+  const payload = {
+    v: SHARE_VERSION,
+    calName: cal.calName,
+    // UIDs and parser notes belong to the sender's exports, not the shared schedule
+    courses: cal.courses.map(({ code, name, color, events }) => ({
+      code,
+      name,
+      color,
+      events: events.map((e) => ({ ...e, uid: undefined, match: undefined })),
+    })),
+  };
+  const bytes = await pipe(new TextEncoder().encode(JSON.stringify(payload)), "compress");
+  return SHARE_PREFIX + toBase64Url(bytes);
+}
+
+/** True when the URL fragment looks like a share link */
+export function isShareFragment(hash: string) {
+  return hash.startsWith(SHARE_PREFIX);
+}
+
+export async function decodeShare(hash: string): Promise<SharedCalendar | ShareError> {
+  let raw: unknown;
+  try {
+    const bytes = await pipe(fromBase64Url(hash.slice(SHARE_PREFIX.length)), "decompress");
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return { error: "This share link is damaged or incomplete." };
+  }
+  const p = raw as { v?: unknown; calName?: unknown; courses?: unknown };
+  if (!p || typeof p !== "object" || !Array.isArray(p.courses)) {
+    return { error: "This share link is damaged or incomplete." };
+  }
+  if (p.v !== SHARE_VERSION) {
+    return { error: "This share link was made by a newer version of the app." };
+  }
+  const courses = (p.courses as Record<string, unknown>[]).map((c) => ({
+    code: typeof c.code === "string" ? c.code : "",
+    name: typeof c.name === "string" ? c.name : undefined,
+    color: typeof c.color === "string" ? c.color : undefined,
+    events: (Array.isArray(c.events) ? (c.events as SerializedEvent[]) : [])
+      .filter((e) => typeof e?.title === "string" && !Number.isNaN(Date.parse(String(e.start))))
+      .map((e) => ({
+        ...reviveEvent(e),
+        category: isCategory(e.category) ? e.category : undefined,
+      })),
+  }));
+  return { calName: typeof p.calName === "string" ? p.calName : "", courses };
+}
+
+export function isShareError(r: SharedCalendar | ShareError): r is ShareError {
+  return "error" in r;
+}
+
+/* ---------- helpers ---------- */
+
+async function pipe(bytes: Uint8Array<ArrayBuffer>, direction: "compress" | "decompress") {
+  const stream =
+    direction === "compress"
+      ? new CompressionStream("deflate-raw")
+      : new DecompressionStream("deflate-raw");
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  // In chunks: spreading a long array into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const binary = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
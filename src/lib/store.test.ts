@@ -0,0 +1,32 @@
+// lib/store.test.ts
+
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createCalendar, getCalendar, updateCalendar } from "@/lib/store";
+
+const dir = await mkdtemp(path.join(tmpdir(), "calendars-"));
+process.env.CALENDAR_DATA_DIR = dir;
+after(() => rm(dir, { recursive: true, force: true }));
+
+const quiz = (n: number) => ({ uid: `quiz-${n}`, title: `Quiz ${n}`, start: new Date() });
+
+test("updates that land at once each write whole JSON and leave no temp files", async () => {
+  const { calendar } = await createCalendar({ name: "CS 101", events: [quiz(0)] });
+  const updates = [1, 2, 3, 4, 5].map((n) =>
+    updateCalendar(calendar, { name: "CS 101", events: [quiz(n)] })
+  );
+  await Promise.all(updates);
+
+  const saved = await getCalendar(calendar.id);
+  assert.equal(saved?.events.length, 1);
+  assert.deepEqual(await readdir(dir), [`${calendar.id}.json`]);
+});
+
+test("a corrupt calendar file is an error, not a missing calendar", async () => {
+  const id = "corrupt-calendar";
+  await writeFile(path.join(dir, `${id}.json`), "{ half a calen", "utf8");
+  await assert.rejects(getCalendar(id), SyntaxError);
+});
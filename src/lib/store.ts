@@ -0,0 +1,154 @@
+// lib/store.ts
+// File-based storage for published calendars: one JSON file per calendar under
+// CALENDAR_DATA_DIR (default ./.data/calendars). Server-only.
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EventLike } from "@/lib/ics";
+import { reviseForExport, type ExportHistory } from "@/lib/identity";
+
+export type StoredCalendar = {
+  id: string;
+  name: string;
+  timeZone?: string;
+  tokenHash: string; // sha256 of the edit token; the token itself is only shown once
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  events: EventLike[];
+  history: ExportHistory; // drives SEQUENCE / LAST-MODIFIED between updates
+};
+
+const ID_RE = /^[A-Za-z0-9_-]{8,64}$/;
+
+function dataDir() {
+  return process.env.CALENDAR_DATA_DIR || path.join(process.cwd(), ".data", "calendars");
+}
+
+function fileFor(id: string) {
+  // IDs are checked before they get here; this keeps them from escaping the directory
+  if (!ID_RE.test(id)) throw new Error(`Invalid calendar id: ${id}`);
+  return path.join(dataDir(), `${id}.json`);
+}
+
+export function isCalendarId(id: string) {
+  return ID_RE.test(id);
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Constant-time check of an edit token against the stored hash */
+export function checkToken(cal: StoredCalendar, token: string | null | undefined) {
+  if (!token) return false;
+  const a = Buffer.from(hashToken(token), "hex");
+  const b = Buffer.from(cal.tokenHash, "hex");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Bearer token from `Authorization`, or the X-Edit-Token header */
+export function tokenFrom(req: Request) {
+  const auth = req.headers.get("authorization") ?? "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(auth)?.[1];
+  return bearer?.trim() || req.headers.get("x-edit-token");
+}
+
+export async function getCalendar(id: string): Promise<StoredCalendar | null> {
+  if (!isCalendarId(id)) return null;
+  try {
+    return revive(JSON.parse(await readFile(fileFor(id), "utf8")));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** Save a new calendar; the returned token is needed for every later change */
+export async function createCalendar(data: {
+  name: string;
+  timeZone?: string;
+  events: EventLike[];
+}) {
+  const id = randomBytes(9).toString("base64url");
+  const token = randomBytes(24).toString("base64url");
+  const now = new Date();
+  const { events, history } = revise(data.events, {}, now);
+  const cal: StoredCalendar = {
+    id,
+    name: data.name,
+    timeZone: data.timeZone,
+    tokenHash: hashToken(token),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    events,
+    history,
+  };
+  await save(cal);
+  return { calendar: cal, token };
+}
+
+/** Replace a calendar's events; changed events get a higher SEQUENCE */
+export async function updateCalendar(
+  cal: StoredCalendar,
+  data: { name: string; timeZone?: string; events: EventLike[] }
+) {
+  const now = new Date();
+  const { events, history } = revise(data.events, cal.history, now);
+  const next: StoredCalendar = {
+    ...cal,
+    name: data.name,
+    timeZone: data.timeZone,
+    updatedAt: now.toISOString(),
+    events,
+    history,
+  };
+  await save(next);
+  return next;
+}
+
+export async function deleteCalendar(id: string) {
+  await rm(fileFor(id), { force: true });
+}
+
+/* ---------- helpers ---------- */
+
+function revise(events: EventLike[], history: ExportHistory, now: Date) {
+  const withUids = events.filter((e): e is EventLike & { uid: string } => !!e.uid);
+  const revised = reviseForExport(withUids, history, now);
+  // Removed events simply drop out of the feed, so their records aren't needed
+  const kept = Object.fromEntries(Object.entries(revised.history).filter(([, r]) => !r.deleted));
+  return { events: revised.events, history: kept };
+}
+
+/**
+ * Write to a temp file first so a crash never leaves half a calendar behind. Each write gets
+ * its own temp file, so two updates at once can't rename the other's half-written JSON.
+ */
+async function save(cal: StoredCalendar) {
+  const file = fileFor(cal.id);
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tmp, JSON.stringify(cal), "utf8");
+    await rename(tmp, file);
+  } catch (err) {
+    await rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+function revive(raw: StoredCalendar): StoredCalendar {
+  const date = (v: unknown) => new Date(v as string);
+  return {
+    ...raw,
+    events: raw.events.map((e) => ({
+      ...e,
+      start: date(e.start),
+      end: e.end ? date(e.end) : undefined,
+      lastModified: e.lastModified ? date(e.lastModified) : undefined,
+      recurrence: e.recurrence ? { ...e.recurrence, until: date(e.recurrence.until) } : undefined,
+      exdates: e.exdates?.map(date),
+    })),
+  };
+}
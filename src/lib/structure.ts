@@ -0,0 +1,321 @@
+// lib/structure.ts
+// Rebuilds logical entries from the line layout: schedule tables (tab, pipe or space-aligned
+// columns), dated headings with indented items under them, and entries wrapped over two lines.
+
+import type { SourceLine } from "@/lib/extract";
+
+type Role = "week" | "session" | "date" | "day" | "time" | "title" | "due" | "reading" | "ignore";
+
+// Header cell → what the column holds; first match wins
+const HEADER_ROLES: { role: Role; re: RegExp }[] = [
+  { role: "week", re: /^(week|wk)\.?\s*#?$/i },
+  { role: "session", re: /^((session|class|lecture|meeting|module)\s*#?|#|no\.?)$/i },
+  { role: "date", re: /^(dates?|when|due dates?)$/i },
+  { role: "day", re: /^(days?|weekday)$/i },
+  { role: "time", re: /^(times?|hours?)$/i },
+  {
+    role: "due",
+    re: /\b(due|deliverables?|assignments?|assessments?|homework|hw|deadlines?|submissions?|tasks?)\b/i,
+  },
+  { role: "reading", re: /\b(readings?|prep(aration)?|before class|texts?|chapters?)\b/i },
+  {
+    role: "title",
+    re: /\b(topics?|titles?|subjects?|content|descriptions?|activit(y|ies)|agenda|themes?|units?|lectures?|in class)\b/i,
+  },
+  { role: "ignore", re: /\b(notes?|comments?|location|room|instructor)\b/i },
+];
+
+const MONTH = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const WEEKDAY = "(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)[a-z]*\\.?,?";
+const DATE = `(?:${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?|\\d{1,2}\\/\\d{1,2}(?:\\/\\d{2,4})?)`;
+const DATE_RE = new RegExp(`\\b${DATE}|\\bweek\\s*#?\\d{1,2}\\b`, "i");
+// Date (or "Week 3 (Tue)") at the start of a line, with an optional weekday and day range
+const LEADING_DATE_RE = new RegExp(
+  `^(?:${WEEKDAY}\\s+)?(?:${DATE}(?:\\s*[–—-]\\s*(?:${MONTH}\\s+)?\\d{1,2}\\b)?|week\\s*#?\\d{1,2}\\b(?:\\s*\\(?${WEEKDAY}\\)?)?)`,
+  "i"
+);
+const TIME_CELL_RE = /^\d{1,2}(:\d{2})?\s*([ap]\.?m\.?)?(\s*[–—-]\s*\d{1,2}(:\d{2})?\s*([ap]\.?m\.?)?)?$/i;
+const BULLET_RE = /^(?:[-*•◦▪‣·–]|\(?(?:\d{1,2}|[a-z])[.)])\s+/i;
+const DUE_WORDS_RE = /\b(due|hw|homework|assignment|project|paper|essay|quiz|exam|report|submit)\b/i;
+const MD_SEPARATOR_RE = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+type Table = {
+  roles: (Role | undefined)[];
+  spaced: boolean; // columns found by alignment rather than tabs or pipes
+  starts: number[]; // column start positions (spaced tables)
+};
+
+type Entry = {
+  anchor: string; // "Oct 6", "Week 3 (Tue)", "Lecture 7"
+  title: string;
+  due: string[];
+  reading: string[];
+  page?: number;
+};
+
+/**
+ * Turn the extracted lines into one line per entry, in a shape the date parser
+ * understands: each table row becomes "Oct 6 — Topic" plus "Oct 6 — HW 2 due" for its
+ * deliverables, items under a dated heading get the heading's date, and wrapped lines are
+ * joined. Lines that need none of that come back unchanged.
+ */
+export function logicalLines(lines: SourceLine[]): SourceLine[] {
+  const out: SourceLine[] = [];
+  let table: Table | undefined;
+  let entry: Entry | undefined; // table row still collecting wrapped cells
+  let heading: { date: string; indent: number; bare: boolean } | undefined;
+
+  const flush = () => {
+    if (entry) out.push(...entryLines(entry));
+    entry = undefined;
+  };
+
+  for (const line of lines) {
+    const raw = line.raw ?? line.text;
+    if (MD_SEPARATOR_RE.test(raw)) continue;
+
+    const header = headerOf(raw);
+    if (header) {
+      flush();
+      table = header;
+      heading = undefined;
+      continue;
+    }
+
+    if (table) {
+      const cells = tableCells(raw, table);
+      if (cells) {
+        const row = tableRow(cells, table, line.page);
+        if (row) {
+          flush();
+          entry = row;
+        } else if (entry) {
+          continueRow(entry, cells, table);
+        } else {
+          out.push({ text: cells.filter(Boolean).join(" — "), page: line.page });
+        }
+        continue;
+      }
+      flush();
+      table = undefined;
+    }
+
+    // Tab/pipe rows without a header: keep the row together, inheriting a date when the
+    // leading cell is empty
+    const delimited = delimitedCells(raw);
+    if (delimited && delimited.filter(Boolean).length >= 2) {
+      heading = undefined;
+      out.push({ text: headerlessRow(delimited, out), page: line.page });
+      continue;
+    }
+
+    const indent = indentOf(raw);
+    const bullet = BULLET_RE.test(line.text);
+    const lead = line.text.match(LEADING_DATE_RE);
+
+    if (DATE_RE.test(line.text)) {
+      const rest = lead ? line.text.slice(lead[0].length).replace(/^[\s:,.–—-]+/, "") : "";
+      heading = lead ? { date: normalizeAnchor(lead[0]), indent, bare: !rest } : undefined;
+      if (!lead || rest) out.push({ text: line.text, page: line.page });
+      continue;
+    }
+
+    if (heading && (bullet || indent > heading.indent || heading.bare)) {
+      const item = line.text.replace(BULLET_RE, "");
+      out.push({ text: `${heading.date} — ${item}`, page: line.page });
+      // A bare date line takes the next line even unindented, but only that one
+      if (heading.bare && !bullet && indent <= heading.indent) heading = undefined;
+      continue;
+    }
+    heading = undefined;
+
+    const prev = out[out.length - 1];
+    if (prev && !bullet && DATE_RE.test(prev.text) && isContinuation(prev.text, line.text)) {
+      out[out.length - 1] = { ...prev, text: `${prev.text} ${line.text}` };
+      continue;
+    }
+
+    out.push(line);
+  }
+  flush();
+
+  return out;
+}
+
+/* ---------- tables ---------- */
+
+function roleOf(cell: string): Role | undefined {
+  const c = cell.trim().replace(/[:*]+$/, "");
+  if (!c || c.length > 40) return undefined;
+  return HEADER_ROLES.find((h) => h.re.test(c))?.role;
+}
+
+/** A header row names at least two columns, one of which says when */
+function headerOf(raw: string): Table | undefined {
+  if (DATE_RE.test(raw)) return undefined;
+
+  const delimited = delimitedCells(raw);
+  const spacedTokens = delimited ? undefined : tokens(raw);
+  const cells = delimited ?? spacedTokens?.map((t) => t.text);
+  if (!cells || cells.length < 2) return undefined;
+
+  const roles = cells.map(roleOf);
+  const known = roles.filter((r) => r && r !== "ignore");
+  const when = roles.some((r) => r === "date" || r === "week" || r === "session");
+  if (known.length < 2 || !when) return undefined;
+
+  return {
+    roles,
+    spaced: !delimited,
+    starts: spacedTokens?.map((t) => t.start) ?? [],
+  };
+}
+
+/** The row's cells lined up with the table's columns, or null when the table has ended */
+function tableCells(raw: string, table: Table): string[] | null {
+  if (table.spaced) {
+    const toks = tokens(raw);
+    // A single unindented chunk of text is prose after the table
+    if (toks.length < 2 && indentOf(raw) === 0) return null;
+    const cells = table.roles.map(() => "");
+    for (const t of toks) {
+      let col = 0;
+      for (let i = 0; i < table.starts.length; i++) if (table.starts[i] <= t.start + 2) col = i;
+      cells[col] = cells[col] ? `${cells[col]} ${t.text}` : t.text;
+    }
+    return cells;
+  }
+
+  const cells = delimitedCells(raw);
+  if (cells) return cells;
+  // PDFs drop empty cells: an indented lone cell continues the row above
+  if (indentOf(raw) === 0) return null;
+  const text = raw.trim();
+  const col = table.roles.indexOf(DUE_WORDS_RE.test(text) ? "due" : "title");
+  const cellsOut = table.roles.map(() => "");
+  cellsOut[col >= 0 ? col : table.roles.length - 1] = text;
+  return cellsOut;
+}
+
+function cellsFor(cells: string[], table: Table, role: Role) {
+  return cells
+    .filter((_, i) => table.roles[i] === role)
+    .join(" ")
+    .trim();
+}
+
+function itemsFor(cells: string[], table: Table, role: Role) {
+  return cellsFor(cells, table, role)
+    .split(/\s*;\s*/)
+    .filter(Boolean);
+}
+
+/** A row that says when it happens starts a new entry */
+function tableRow(cells: string[], table: Table, page?: number): Entry | undefined {
+  const get = (role: Role) => cellsFor(cells, table, role);
+  const anchor = anchorOf(get("date"), get("day"), get("week"), get("session"), get("time"));
+  if (!anchor) return undefined;
+
+  // A "Lecture" column holding topics rather than numbers is the title
+  const session = /\d/.test(get("session")) ? "" : get("session");
+  return {
+    anchor,
+    title: [session, get("title")].filter(Boolean).join(" — "),
+    due: itemsFor(cells, table, "due"),
+    reading: itemsFor(cells, table, "reading"),
+    page,
+  };
+}
+
+/** A row without a date of its own holds the rest of cells that wrapped */
+function continueRow(entry: Entry, cells: string[], table: Table) {
+  const title = cellsFor(cells, table, "title");
+  if (title) entry.title = entry.title ? `${entry.title} ${title}` : title;
+  appendWrapped(entry.due, itemsFor(cells, table, "due"));
+  appendWrapped(entry.reading, itemsFor(cells, table, "reading"));
+}
+
+function appendWrapped(items: string[], more: string[]) {
+  for (const m of more) {
+    const last = items[items.length - 1];
+    const open = last !== undefined && last.split("(").length > last.split(")").length;
+    if (last !== undefined && (open || /^[a-z(]/.test(m))) items[items.length - 1] = `${last} ${m}`;
+    else items.push(m);
+  }
+}
+
+function anchorOf(date: string, day: string, week: string, session: string, time: string) {
+  const at = time && TIME_CELL_RE.test(time) ? ` ${time}` : "";
+  if (date && DATE_RE.test(date)) {
+    const withDay = day && !new RegExp(WEEKDAY, "i").test(date) ? `${day} ${date}` : date;
+    return normalizeAnchor(withDay) + at;
+  }
+  const weekNo = week.match(/\d{1,2}/)?.[0];
+  if (weekNo) return `Week ${weekNo}${day ? ` (${day})` : ""}${at}`;
+  const sessionNo = session.match(/\d{1,3}/)?.[0];
+  if (sessionNo) return `Lecture ${sessionNo}${at}`;
+  return undefined;
+}
+
+/** One parseable line per thing that happens on the entry's date */
+function entryLines(e: Entry): SourceLine[] {
+  const lines: string[] = [];
+  if (e.title) lines.push(`${e.anchor} — ${e.title}`);
+  for (const item of e.reading) {
+    lines.push(`${e.anchor} — ${/^read/i.test(item) ? item : `Reading: ${item}`}`);
+  }
+  for (const item of e.due) {
+    lines.push(`${e.anchor} — ${/\b(due|deadline)\b/i.test(item) ? item : `${item} due`}`);
+  }
+  return lines.map((text) => ({ text, page: e.page }));
+}
+
+function headerlessRow(cells: string[], out: SourceLine[]) {
+  const anchorCells = cells.filter((c) => DATE_RE.test(c) || TIME_CELL_RE.test(c));
+  const rest = cells.filter((c) => c && !anchorCells.includes(c) && !/^\d{1,3}$/.test(c));
+  let anchor = anchorCells.map(normalizeAnchor).join(" ");
+  if (!anchor && !cells[0]) {
+    anchor = out[out.length - 1]?.text.match(LEADING_DATE_RE)?.[0] ?? "";
+  }
+  return [anchor, ...rest].filter(Boolean).join(" — ");
+}
+
+/* ---------- helpers ---------- */
+
+/** Tab- or pipe-separated cells, or null for an ordinary line */
+function delimitedCells(raw: string): string[] | null {
+  if (raw.includes("\t")) return raw.split("\t").map((c) => c.trim());
+  if (!/\S\s*\|\s*\S|^\s*\|/.test(raw)) return null;
+  const cells = raw.split("|").map((c) => c.trim());
+  // Markdown rows have outer pipes; a lone leading pipe is an empty first cell
+  if (/^\s*\|.*\|\s*$/.test(raw)) {
+    cells.shift();
+    cells.pop();
+  }
+  return cells.length >= 2 ? cells : null;
+}
+
+/** Chunks of text separated by two or more spaces, with where they start */
+function tokens(raw: string) {
+  return Array.from(raw.matchAll(/\S+(?: \S+)*/g), (m) => ({ text: m[0], start: m.index ?? 0 }));
+}
+
+function indentOf(raw: string) {
+  return (raw.match(/^[ \t]*/)?.[0] ?? "").replace(/\t/g, "    ").length;
+}
+
+/** "Oct 6 - 10" → "Oct 6-10" so the spaced dash can't be mistaken for a title separator */
+function normalizeAnchor(s: string) {
+  return s
+    .trim()
+    .replace(/\s*[–—-]\s*(?=\d|[a-z]{3})/gi, "-")
+    .replace(/[\s:,.]+$/, "");
+}
+
+function isContinuation(prev: string, next: string) {
+  if (DATE_RE.test(next)) return false;
+  return (
+    /^[a-z(]/.test(next) ||
+    /([,;&/+]|\b(and|or|to|via|the|of|by|for|in|on|at|with))$/i.test(prev.trim())
+  );
+}
@@ -0,0 +1,60 @@
+// lib/term.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  hasRelativeDate,
+  namedTerm,
+  placeInRange,
+  resolveRelative,
+  sessionDates,
+  type Term,
+} from "@/lib/term";
+
+const ymd = (d: Date) => [d.getFullYear(), d.getMonth() + 1, d.getDate()];
+
+// Mon Aug 24 – Fri Dec 11 2026, MWF, Thanksgiving break Wed–Fri
+const TERM: Term = {
+  start: new Date(2026, 7, 24),
+  end: new Date(2026, 11, 11),
+  meetingDays: ["MO", "WE", "FR"],
+  breaks: [{ name: "Thanksgiving", start: new Date(2026, 10, 25), end: new Date(2026, 10, 27) }],
+};
+
+test("resolveRelative places week and session numbers on the term", () => {
+  const week = resolveRelative("Week 3 (Tue): Quiz 2", TERM);
+  assert.deepEqual(week && ymd(week.date), [2026, 9, 8]);
+  assert.equal(week?.inferred, "Week 3, TU");
+  const lecture = resolveRelative("Lecture 4: Recursion", TERM);
+  assert.deepEqual(lecture && ymd(lecture.date), [2026, 8, 31]);
+  assert.equal(lecture?.span, "Lecture 4");
+});
+
+test("resolveRelative steps over breaks", () => {
+  const after = resolveRelative("Essay due the Monday after Thanksgiving", TERM);
+  assert.deepEqual(after && ymd(after.date), [2026, 11, 30]);
+  const sessions = sessionDates(TERM).map(ymd);
+  assert.ok(!sessions.some(([, m, d]) => m === 11 && d >= 25 && d <= 27));
+  assert.equal(resolveRelative("Week 40", TERM), null);
+  assert.ok(hasRelativeDate("Class 12 – midterm review"));
+});
+
+test("namedTerm covers the season generously", () => {
+  const fall = namedTerm("Fall 2026");
+  assert.deepEqual(fall && [ymd(fall.start), ymd(fall.end)], [
+    [2026, 8, 1],
+    [2027, 1, 31],
+  ]);
+  assert.deepEqual(namedTerm("autumn 2026"), fall);
+  assert.equal(namedTerm("Term 2"), undefined);
+});
+
+test("placeInRange picks the year that lands inside the term", () => {
+  const range = namedTerm("Fall 2026")!;
+  const jan = placeInRange(new Date(2000, 0, 12), range);
+  assert.deepEqual(ymd(jan.date), [2027, 1, 12]);
+  assert.ok(jan.inside);
+  const july = placeInRange(new Date(2000, 6, 15), range);
+  assert.deepEqual(ymd(july.date), [2026, 7, 15]);
+  assert.ok(!july.inside);
+});
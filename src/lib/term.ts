@@ -0,0 +1,250 @@
+// lib/term.ts
+// A term calendar (start, meeting days, breaks) used to resolve "Week 3 (Tue)", "Lecture 7"
+// and "the Friday after spring break" into concrete dates, plus named terms ("Fall 2026")
+// that decide which year a date without one belongs to.
+
+import { addDays, addWeeks, differenceInCalendarDays, startOfDay, startOfWeek } from "date-fns";
+import { WEEKDAYS, type Weekday } from "@/lib/recurrence";
+
+export type TermBreak = {
+  name: string; // "Spring break", "Thanksgiving"
+  start: Date; // first day off (local midnight)
+  end: Date; // last day off, inclusive
+};
+
+export type Term = {
+  start: Date;
+  end?: Date;
+  meetingDays: Weekday[];
+  breaks: TermBreak[];
+};
+
+/** Dates a term can cover; both ends are local midnight and inclusive */
+export type TermRange = { start: Date; end: Date };
+
+export type RelativeDate = {
+  date: Date; // local midnight of the resolved day
+  span: string; // the text that was resolved, so it can be cut from the title
+  inferred: string; // how, e.g. "Week 3, TU" — shown in the preview
+};
+
+const MAX_WEEKS = 30;
+const WORKDAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+const DAY = "(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)[a-z]*\\.?";
+const WEEK_RE = new RegExp(`\\bweek\\s*#?(\\d{1,2})\\b(?:\\s*[(,:–—-]?\\s*(${DAY})\\)?)?`, "i");
+const SESSION_RE = /\b(day|session|lecture|class|meeting)\s*#?(\d{1,3})\b/i;
+const AFTER_BREAK_RE = new RegExp(
+  `\\b(?:the\\s+)?(?:first\\s+)?(${DAY}|day|class|week)\\s+(after|before)\\s+(?:the\\s+)?`,
+  "i"
+);
+
+/** Does the line refer to a week/session/break-relative date at all? */
+export function hasRelativeDate(line: string) {
+  return WEEK_RE.test(line) || SESSION_RE.test(line) || AFTER_BREAK_RE.test(line);
+}
+
+export function isInBreak(day: Date, term: Term) {
+  const d = startOfDay(day);
+  return term.breaks.some((b) => d >= startOfDay(b.start) && d <= startOfDay(b.end));
+}
+
+/** Every class meeting from the term start, skipping breaks */
+export function sessionDates(term: Term) {
+  const out: Date[] = [];
+  const last = term.end ?? addWeeks(term.start, MAX_WEEKS);
+  const days = differenceInCalendarDays(last, term.start);
+  for (let i = 0; i <= days; i++) {
+    const d = addDays(startOfDay(term.start), i);
+    if (term.meetingDays.includes(WEEKDAYS[d.getDay()]) && !isInBreak(d, term)) out.push(d);
+  }
+  return out;
+}
+
+/**
+ * Monday of each instructional week. Week 1 contains the term start; weeks where every
+ * class day falls in a break are not counted.
+ */
+export function weekStarts(term: Term) {
+  const days = term.meetingDays.length ? term.meetingDays : WORKDAYS;
+  const out: Date[] = [];
+  let monday = startOfWeek(term.start, { weekStartsOn: 1 });
+  for (let i = 0; i < MAX_WEEKS; i++, monday = addWeeks(monday, 1)) {
+    if (term.end && monday > term.end) break;
+    const open = days.some((wd) => {
+      const d = dayInWeek(monday, wd);
+      return d >= startOfDay(term.start) && !isInBreak(d, term);
+    });
+    if (open) out.push(monday);
+  }
+  return out;
+}
+
+/** Resolve the first relative date expression in `line`, or null */
+export function resolveRelative(line: string, term: Term): RelativeDate | null {
+  const week = line.match(WEEK_RE);
+  if (week) {
+    const monday = weekStarts(term)[Number(week[1]) - 1];
+    if (!monday) return null;
+    const wd = week[2] ? weekdayOf(week[2]) : undefined;
+    // No weekday given: the week's first class day
+    const date = wd
+      ? dayInWeek(monday, wd)
+      : firstOpenDay(monday, term) ?? dayInWeek(monday, "MO");
+    return { date, span: week[0], inferred: `Week ${week[1]}${wd ? `, ${wd}` : ""}` };
+  }
+
+  const session = line.match(SESSION_RE);
+  if (session && term.meetingDays.length) {
+    const date = sessionDates(term)[Number(session[2]) - 1];
+    if (!date) return null;
+    const label = session[1][0].toUpperCase() + session[1].slice(1).toLowerCase();
+    return { date, span: session[0], inferred: `${label} ${session[2]}` };
+  }
+
+  const rel = line.match(AFTER_BREAK_RE);
+  if (rel) {
+    const found = findBreak(line.slice((rel.index ?? 0) + rel[0].length), term);
+    if (!found) return null;
+    const { brk, phrase } = found;
+    const after = rel[2].toLowerCase() === "after";
+    const what = rel[1].toLowerCase();
+    const date = stepFrom(after ? brk.end : brk.start, after ? 1 : -1, (d) => {
+      if (what === "week") return d.getDay() === 1;
+      if (what === "day" || what === "class") {
+        return !term.meetingDays.length || term.meetingDays.includes(WEEKDAYS[d.getDay()]);
+      }
+      return WEEKDAYS[d.getDay()] === weekdayOf(what);
+    });
+    return { date, span: rel[0] + phrase, inferred: `${rel[1]} ${rel[2]} ${brk.name}` };
+  }
+
+  return null;
+}
+
+/* ---------- named terms and year inference ---------- */
+
+export const SEASONS = ["Winter", "Spring", "Summer", "Fall"] as const;
+export type Season = (typeof SEASONS)[number];
+
+// Generous on purpose: the range only decides years (and flags outliers), so it should
+// cover finals in January and winter terms that start before New Year; series and week
+// numbers need the real start and end. [month, day, year offset]
+const SEASON_RANGES: Record<Season, [[number, number, number], [number, number, number]]> = {
+  Winter: [[12, 1, -1], [3, 31, 0]],
+  Spring: [[1, 1, 0], [6, 15, 0]],
+  Summer: [[5, 1, 0], [8, 31, 0]],
+  Fall: [[8, 1, 0], [1, 31, 1]],
+};
+
+const TERM_NAME_RE = /^\s*(winter|spring|summer|fall|autumn)\s+(\d{4})\s*$/i;
+
+/** "Fall 2026" → Aug 1 2026 – Jan 31 2027; undefined for anything else */
+export function namedTerm(name: string): TermRange | undefined {
+  const m = TERM_NAME_RE.exec(name);
+  if (!m) return undefined;
+  const word = m[1].toLowerCase() === "autumn" ? "fall" : m[1].toLowerCase();
+  const season = SEASONS.find((s) => s.toLowerCase() === word)!;
+  const year = Number(m[2]);
+  const [[sm, sd, sy], [em, ed, ey]] = SEASON_RANGES[season];
+  return { start: new Date(year + sy, sm - 1, sd), end: new Date(year + ey, em - 1, ed) };
+}
+
+/** Named terms around `today`, oldest first: the previous one through about a year ahead */
+export function termNames(today = new Date()) {
+  const year = today.getFullYear();
+  const out: string[] = [];
+  for (let y = year - 1; y <= year + 1; y++) for (const s of SEASONS) out.push(`${s} ${y}`);
+  const current = currentTermName(today);
+  const i = out.indexOf(current);
+  return out.slice(Math.max(0, i - 1), i + 5);
+}
+
+/** The term `today` falls in (or the next one to start, between terms) */
+export function currentTermName(today = new Date()) {
+  const m = today.getMonth() + 1;
+  const y = today.getFullYear();
+  if (m === 12) return `Winter ${y + 1}`;
+  if (m <= 4) return `Spring ${y}`;
+  if (m <= 7) return `Summer ${y}`;
+  return `Fall ${y}`;
+}
+
+/**
+ * Put a date that had no year into the year that lands it inside `range`, or the closest
+ * one when none does. Only the year changes; `inside` tells whether it fits the term.
+ */
+export function placeInRange(date: Date, range: TermRange) {
+  const end = addDays(startOfDay(range.end), 1); // exclusive
+  let best: { date: Date; distance: number } | undefined;
+  for (let y = range.start.getFullYear() - 1; y <= range.end.getFullYear() + 1; y++) {
+    const d = new Date(date);
+    d.setFullYear(y);
+    let distance = 0;
+    if (d < range.start) distance = range.start.getTime() - d.getTime();
+    else if (d >= end) distance = d.getTime() - end.getTime() + 1;
+    if (!best || distance < best.distance) best = { date: d, distance };
+  }
+  return { date: best!.date, inside: best!.distance === 0 };
+}
+
+export function isInRange(date: Date, range: TermRange) {
+  return date >= startOfDay(range.start) && date < addDays(startOfDay(range.end), 1);
+}
+
+/* ---------- helpers ---------- */
+
+function weekdayOf(token: string): Weekday | undefined {
+  const t = token.toLowerCase().slice(0, 2);
+  const map: Record<string, Weekday> = {
+    su: "SU", mo: "MO", tu: "TU", we: "WE", th: "TH", fr: "FR", sa: "SA",
+  };
+  return map[t];
+}
+
+function dayInWeek(monday: Date, wd: Weekday) {
+  // Monday-based offset: MO → 0 … SU → 6
+  return addDays(monday, (WEEKDAYS.indexOf(wd) + 6) % 7);
+}
+
+function firstOpenDay(monday: Date, term: Term) {
+  for (let i = 0; i < 7; i++) {
+    const d = addDays(monday, i);
+    const wd = WEEKDAYS[d.getDay()];
+    const isClassDay = (term.meetingDays.length ? term.meetingDays : WORKDAYS).includes(wd);
+    if (isClassDay && d >= startOfDay(term.start) && !isInBreak(d, term)) return d;
+  }
+  return undefined;
+}
+
+function stepFrom(from: Date, dir: 1 | -1, match: (d: Date) => boolean) {
+  for (let i = 1; i <= 14; i++) {
+    const d = addDays(startOfDay(from), i * dir);
+    if (match(d)) return d;
+  }
+  return addDays(startOfDay(from), dir);
+}
+
+/** Break whose name best matches the words right after "after"/"before" */
+function findBreak(rest: string, term: Term) {
+  const words = (rest.match(/^[a-z']+(?:\s+[a-z']+)*/i)?.[0] ?? "").split(/\s+/);
+  let best: { brk: TermBreak; phrase: string; score: number } | undefined;
+  for (const brk of term.breaks) {
+    const key = new Set(breakWords(brk.name));
+    let n = 0;
+    while (n < words.length && key.has(words[n].toLowerCase())) n++;
+    if (n > 0 && (!best || n > best.score)) {
+      best = { brk, phrase: words.slice(0, n).join(" "), score: n };
+    }
+  }
+  return best;
+}
+
+/** "No class (Labor Day)" → ["labor", "day"]; "Spring break" → ["spring", "break"] */
+function breakWords(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/\bno (class(es)?|lectures?|labs?)\b/g, " ")
+    .split(/[^a-z']+/)
+    .filter(Boolean);
+}
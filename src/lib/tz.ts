@@ -0,0 +1,135 @@
+// lib/tz.ts
+// IANA time zone helpers built on Intl (no tz database bundled).
+
+export type WallTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string) {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The browser's (or server's) own zone, e.g. "America/Chicago" */
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/** Wall-clock fields of an instant as seen in `timeZone` */
+export function toZoned(d: Date, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const p of formatter(timeZone).formatToParts(d)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** UTC offset of `timeZone` at instant `d`, in minutes (Chicago in July → -300) */
+export function offsetMinutes(d: Date, timeZone: string) {
+  const w = toZoned(d, timeZone);
+  const asUTC = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second ?? 0);
+  return Math.round((asUTC - Math.floor(d.getTime() / 1000) * 1000) / 60000);
+}
+
+/** Instant at which the wall clock in `timeZone` reads `w` (gap times move forward) */
+export function fromZoned(w: WallTime, timeZone: string) {
+  const asUTC = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second ?? 0);
+  if (Number.isNaN(asUTC)) return new Date(NaN);
+  const first = asUTC - offsetMinutes(new Date(asUTC), timeZone) * 60000;
+  const second = asUTC - offsetMinutes(new Date(first), timeZone) * 60000;
+  return new Date(second);
+}
+
+/** Read a local-time Date (as built by chrono/date-fns) as wall-clock fields */
+export function wallOf(d: Date): WallTime {
+  return {
+    year: d.getFullYear(),
+    month: d.getMonth() + 1,
+    day: d.getDate(),
+    hour: d.getHours(),
+    minute: d.getMinutes(),
+    second: d.getSeconds(),
+  };
+}
+
+/** Re-anchor a server-local wall-clock Date into `timeZone`; no zone keeps it as is */
+export function wallToInstant(d: Date, timeZone?: string) {
+  return timeZone ? fromZoned(wallOf(d), timeZone) : d;
+}
+
+export type Transition = {
+  at: Date; // instant the new offset takes effect
+  from: number; // offset minutes before
+  to: number; // offset minutes after
+};
+
+/** Offset changes of `timeZone` between two instants, found by daily sampling + bisection */
+export function transitions(timeZone: string, from: Date, to: Date): Transition[] {
+  const out: Transition[] = [];
+  const DAY = 24 * 60 * 60 * 1000;
+  let t = from.getTime();
+  let off = offsetMinutes(from, timeZone);
+
+  while (t < to.getTime()) {
+    const next = Math.min(t + DAY, to.getTime());
+    const nextOff = offsetMinutes(new Date(next), timeZone);
+    if (nextOff !== off) {
+      let lo = t;
+      let hi = next;
+      while (hi - lo > 60000) {
+        const mid = Math.floor((lo + hi) / 2 / 60000) * 60000;
+        if (offsetMinutes(new Date(mid), timeZone) === off) lo = mid;
+        else hi = mid;
+      }
+      out.push({ at: new Date(hi), from: off, to: nextOff });
+      off = nextOff;
+    }
+    t = next;
+  }
+  return out;
+}
+
+/** Short zone name such as "CDT"; undefined when Intl only knows "GMT-5" */
+export function zoneAbbreviation(d: Date, timeZone: string) {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(d)
+    .find((p) => p.type === "timeZoneName")?.value;
+  return name && !/^(GMT|UTC)[+-]/.test(name) ? name : undefined;
+}
@@ -0,0 +1,261 @@
+// lib/validate.ts
+// RFC 5545 lint for any .ics text: line format, component structure and the properties
+// calendar apps choke on. Used by /api/ics/validate.
+
+import { parseProperty, type Property } from "@/lib/ics";
+
+export type ICSProblem = {
+  line: number; // 1-based; the first physical line of a folded property
+  severity: "error" | "warning"; // errors break strict importers, warnings only some
+  code: string; // stable id, e.g. "line-too-long"
+  message: string;
+};
+
+type Line = Property & { line: number };
+
+type Component = {
+  name: string;
+  line: number;
+  props: Line[];
+  children: Component[];
+};
+
+// Properties a VEVENT may have at most once (RFC 5545 §3.6.1)
+const ONCE = [
+  "UID", "DTSTAMP", "DTSTART", "DTEND", "DURATION", "SUMMARY", "DESCRIPTION", "LOCATION",
+  "SEQUENCE", "STATUS", "CLASS", "CREATED", "LAST-MODIFIED", "RECURRENCE-ID", "URL",
+  "ORGANIZER", "PRIORITY", "TRANSP", "GEO",
+];
+const DATE_PROPS = [
+  "DTSTART", "DTEND", "DTSTAMP", "RECURRENCE-ID", "EXDATE", "RDATE", "CREATED",
+  "LAST-MODIFIED",
+];
+const UTC_ONLY = ["DTSTAMP", "CREATED", "LAST-MODIFIED"];
+const TEXT_PROPS = ["SUMMARY", "DESCRIPTION", "LOCATION", "COMMENT", "NAME", "X-WR-CALNAME"];
+const DATE_RE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_RE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/;
+const FREQS = ["SECONDLY", "MINUTELY", "HOURLY", "DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+// Anything below a space except tab, plus DEL
+const CONTROL_RE = /[\u0000-\u0008\u000a-\u001f\u007f]/;
+
+/** Every problem found, in line order */
+export function validateICS(text: string): ICSProblem[] {
+  const problems: ICSProblem[] = [];
+  const add = (line: number, severity: ICSProblem["severity"], code: string, message: string) =>
+    problems.push({ line, severity, code, message });
+
+  const physical = text.split(/\r\n|\n|\r/);
+  if (physical[physical.length - 1] === "") physical.pop();
+  else if (text) add(physical.length, "warning", "no-final-crlf", "The last line has no CRLF");
+
+  const bareLF = text.search(/(?<!\r)\n/);
+  if (bareLF >= 0) {
+    const line = text.slice(0, bareLF).split("\n").length;
+    add(line, "warning", "bare-lf", "Lines end in LF instead of CRLF");
+  }
+
+  // Physical lines, then unfolded into logical ones
+  const logical: { text: string; line: number }[] = [];
+  physical.forEach((l, i) => {
+    const octets = new TextEncoder().encode(l).length;
+    if (octets > 75) {
+      add(i + 1, "error", "line-too-long", `Line is ${octets} octets; fold lines at 75`);
+    }
+    if (CONTROL_RE.test(l)) {
+      add(i + 1, "error", "control-character", "Line contains a control character");
+    }
+    if (/^[ \t]/.test(l) && logical.length > 0) logical[logical.length - 1].text += l.slice(1);
+    else if (l.trim()) logical.push({ text: l, line: i + 1 });
+    else add(i + 1, "warning", "blank-line", "Blank lines are not allowed");
+  });
+
+  // Component tree
+  const roots: Component[] = [];
+  const stack: Component[] = [];
+  for (const { text: l, line } of logical) {
+    const p = parseProperty(l);
+    if (!p) {
+      add(line, "error", "malformed-line", `Not a "NAME:value" line: ${l.slice(0, 40)}`);
+      continue;
+    }
+    if (!/^[A-Z0-9-]+$/.test(p.name)) {
+      add(line, "error", "bad-name", `Invalid property name: ${p.name}`);
+      continue;
+    }
+    const top = stack[stack.length - 1];
+    if (p.name === "BEGIN") {
+      const c: Component = { name: p.value.toUpperCase(), line, props: [], children: [] };
+      if (top) top.children.push(c);
+      else roots.push(c);
+      stack.push(c);
+    } else if (p.name === "END") {
+      if (top?.name !== p.value.toUpperCase()) {
+        const expected = top ? `END:${top.name}` : "nothing";
+        add(line, "error", "unbalanced", `END:${p.value} where ${expected} was expected`);
+        // Recover at the matching BEGIN, if there is one
+        const at = stack.map((c) => c.name).lastIndexOf(p.value.toUpperCase());
+        if (at >= 0) stack.length = at;
+      } else {
+        stack.pop();
+      }
+    } else if (top) {
+      top.props.push({ ...p, line });
+    } else {
+      add(line, "error", "outside-calendar", `${p.name} is outside BEGIN:VCALENDAR`);
+    }
+  }
+  for (const c of stack) add(c.line, "error", "unbalanced", `BEGIN:${c.name} is never ended`);
+
+  const calendars = roots.filter((c) => c.name === "VCALENDAR");
+  if (calendars.length === 0) {
+    add(1, "error", "no-calendar", "The text has no BEGIN:VCALENDAR");
+  }
+  for (const c of roots.filter((c) => c.name !== "VCALENDAR")) {
+    add(c.line, "error", "outside-calendar", `BEGIN:${c.name} is outside BEGIN:VCALENDAR`);
+  }
+
+  for (const cal of calendars) checkCalendar(cal, add);
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+/* ---------- helpers ---------- */
+
+type Add = (line: number, severity: ICSProblem["severity"], code: string, message: string) => void;
+
+function checkCalendar(cal: Component, add: Add) {
+  const one = (name: string) => {
+    const found = cal.props.filter((p) => p.name === name);
+    if (found.length === 0) add(cal.line, "error", "missing-property", `VCALENDAR needs ${name}`);
+    if (found.length > 1) add(found[1].line, "error", "duplicate-property", `${name} repeated`);
+    return found[0];
+  };
+  one("PRODID");
+  const version = one("VERSION");
+  if (version && version.value.trim() !== "2.0") {
+    add(version.line, "error", "bad-version", `VERSION must be 2.0, not ${version.value}`);
+  }
+  if (cal.children.length === 0) {
+    add(cal.line, "warning", "empty-calendar", "The calendar has no events or other components");
+  }
+  for (const p of cal.props) checkValue(p, add);
+
+  const zones = new Set<string>();
+  for (const tz of cal.children.filter((c) => c.name === "VTIMEZONE")) {
+    const id = tz.props.find((p) => p.name === "TZID")?.value;
+    if (id) zones.add(id);
+    else add(tz.line, "error", "missing-property", "VTIMEZONE needs TZID");
+  }
+
+  const uids = new Map<string, number>();
+  for (const event of cal.children.filter((c) => c.name === "VEVENT")) {
+    checkEvent(event, zones, add);
+    const uid = event.props.find((p) => p.name === "UID")?.value;
+    const isOverride = event.props.some((p) => p.name === "RECURRENCE-ID");
+    if (!uid || isOverride) continue;
+    if (uids.has(uid)) {
+      add(event.line, "error", "duplicate-uid", `UID ${uid} is also used on line ${uids.get(uid)}`);
+    } else {
+      uids.set(uid, event.line);
+    }
+  }
+}
+
+function checkEvent(event: Component, zones: Set<string>, add: Add) {
+  const get = (name: string) => event.props.find((p) => p.name === name);
+  for (const name of ["UID", "DTSTAMP", "DTSTART"]) {
+    if (!get(name)) add(event.line, "error", "missing-property", `VEVENT needs ${name}`);
+  }
+  for (const name of ONCE) {
+    const found = event.props.filter((p) => p.name === name);
+    if (found.length > 1) add(found[1].line, "error", "duplicate-property", `${name} repeated`);
+  }
+
+  const start = get("DTSTART");
+  const end = get("DTEND");
+  if (end && get("DURATION")) {
+    add(end.line, "error", "end-and-duration", "VEVENT can't have both DTEND and DURATION");
+  }
+  if (start && end && validDate(start) && validDate(end)) {
+    if (isDateOnly(start) !== isDateOnly(end)) {
+      const message = "DTSTART and DTEND must both be dates or both date-times";
+      add(end.line, "error", "mixed-value-types", message);
+    } else if (start.params.TZID === end.params.TZID && end.value <= start.value) {
+      add(end.line, "error", "end-before-start", "DTEND must be after DTSTART");
+    }
+  }
+
+  for (const p of event.props) {
+    checkValue(p, add);
+    if (p.params.TZID && !zones.has(p.params.TZID)) {
+      add(p.line, "error", "unknown-tzid", `TZID ${p.params.TZID} has no VTIMEZONE in the file`);
+    }
+  }
+
+  for (const alarm of event.children.filter((c) => c.name === "VALARM")) {
+    const action = alarm.props.find((p) => p.name === "ACTION");
+    for (const name of ["ACTION", "TRIGGER"]) {
+      if (!alarm.props.some((p) => p.name === name)) {
+        add(alarm.line, "error", "missing-property", `VALARM needs ${name}`);
+      }
+    }
+    const needsText = action?.value.toUpperCase() === "DISPLAY";
+    if (needsText && !alarm.props.some((p) => p.name === "DESCRIPTION")) {
+      add(alarm.line, "error", "missing-property", "A DISPLAY alarm needs DESCRIPTION");
+    }
+    for (const p of alarm.props) checkValue(p, add);
+  }
+}
+
+/** Value format of one property */
+function checkValue(p: Line, add: Add) {
+  if (DATE_PROPS.includes(p.name) && !validDate(p)) {
+    add(p.line, "error", "bad-date", `${p.name} is not a valid ${describe(p)}: ${p.value}`);
+  }
+  if (UTC_ONLY.includes(p.name) && validDate(p) && !p.value.endsWith("Z")) {
+    add(p.line, "error", "not-utc", `${p.name} must be in UTC (ending in Z)`);
+  }
+  if (p.params.TZID && /Z$/.test(p.value)) {
+    add(p.line, "error", "tzid-with-utc", `${p.name} has a TZID but a UTC (Z) value`);
+  }
+  if (TEXT_PROPS.includes(p.name) || p.name === "CATEGORIES") {
+    if (/\\(?![\\;,nN])/.test(p.value)) {
+      add(p.line, "error", "bad-escape", `${p.name} has a backslash that escapes nothing`);
+    }
+    // CATEGORIES is a list, so its commas are separators
+    const unescaped = p.name === "CATEGORIES" ? /(?<!\\);/ : /(?<!\\)[;,]/;
+    if (unescaped.test(p.value.replace(/\\\\/g, ""))) {
+      add(p.line, "warning", "unescaped-text", `${p.name} has an unescaped comma or semicolon`);
+    }
+  }
+  if (p.name === "SEQUENCE" && !/^\d+$/.test(p.value.trim())) {
+    add(p.line, "error", "bad-sequence", `SEQUENCE must be a whole number, not ${p.value}`);
+  }
+  if (p.name === "RRULE") {
+    const freq = /(?:^|;)FREQ=([A-Z]+)/i.exec(p.value)?.[1]?.toUpperCase();
+    if (!freq || !FREQS.includes(freq)) {
+      add(p.line, "error", "bad-rrule", "RRULE needs FREQ=DAILY, WEEKLY, MONTHLY, …");
+    }
+  }
+}
+
+function isDateOnly(p: Property) {
+  return p.params.VALUE?.toUpperCase() === "DATE";
+}
+
+function describe(p: Property) {
+  return isDateOnly(p) ? "date (YYYYMMDD)" : "date-time (YYYYMMDDTHHMMSS)";
+}
+
+/** Every comma-separated value is a real DATE or DATE-TIME, as VALUE= says */
+function validDate(p: Property) {
+  const re = isDateOnly(p) ? DATE_RE : DATE_TIME_RE;
+  return p.value.split(",").every((v) => {
+    const m = re.exec(v.trim());
+    if (!m) return false;
+    const [y, mo, d, h = 0, mi = 0, s = 0] = m.slice(1).map(Number);
+    const date = new Date(Date.UTC(y, mo - 1, d));
+    // Leap seconds are allowed (60)
+    const realDay = date.getUTCMonth() === mo - 1 && date.getUTCDate() === d;
+    return realDay && h < 24 && mi < 60 && s <= 60;
+  });
+}
@@ -1,7 +1,49 @@
+import type { Recurrence } from "@/lib/recurrence";
+import type { Category } from "@/lib/categories";
+
 export type ParsedEvent = { // export makes this type parsedEvent object with the following properties available to other files in the project 
+    uid?: string; // stable calendar identity, assigned on first export
     title: string; // event name is required 
     start: Date; // start date is required 
     end?: Date; // end date is optional
     allDay?: boolean; // all day event is optional 
+    description?: string; // course and section the line was found under
+    location?: string; // room or building, e.g. "Hall B 120"
+    url?: string; // http(s) link, e.g. the online meeting
+    instructor?: string; // "Dr. Smith", or "Jane Doe <jdoe@uni.edu>" to invite them
     sourceLine: string; // original line from syllabus is required to preview 
+    page?: number; // page of the uploaded file the line came from, if any
+    recurrence?: Recurrence; // weekly series (class meetings), repeats until the term ends
+    exdates?: Date[]; // series occurrences skipped for holidays and breaks
+    reminders?: number[]; // minutes before start; overrides the rule for the event's kind
+    category?: Category; // exam, quiz, assignment, … (unset when nothing matched)
+    confidence?: number; // 0–1, how sure the parser was about the category
+    inferred?: string; // set when the date came from "Week 3" / "Lecture 7" and the term calendar
+    course?: string; // course code in a multi-course workspace; prefixed to the title on export
+    match?: ParseMatch; // how the date was read, set by /api/parse
+    outsideTerm?: boolean; // the date falls outside the term it was parsed for
+    altStart?: Date; // "03/04" read the other way round; set until the user confirms the date
+  };
+
+export type ParseMatch = {
+    confidence: number; // 0–1, how sure the parser is about the date and time
+    rules: string[]; // what matched, e.g. "month name and day", "explicit time"
+  };
+
+// Why /api/parse skipped a line
+export type RejectCode =
+  | "no-date"
+  | "unparsed"
+  | "uncertain-date"
+  | "needs-term"
+  | "unresolved"
+  | "ignored";
+
+export type RejectedLine = {
+    line: string;
+    page?: number;
+    code: RejectCode;
+    reason: string; // human-readable version of `code`
+    suspicious: boolean; // has event words or times, so it's probably worth a look
+    guess?: { title: string; start?: string; allDay: boolean }; // prefill for adding it by hand
   };
\ No newline at end of file